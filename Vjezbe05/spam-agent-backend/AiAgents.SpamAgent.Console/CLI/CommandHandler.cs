@@ -181,7 +181,7 @@ public class CommandHandler
             return;
         }
 
-        if (!Enum.TryParse<TrainTemplate>(args[0], true, out var template))
+        if (!Enum.TryParse<TrainTemplate>(args[0], true, out var template) || template == TrainTemplate.Custom)
         {
             ConsoleUI.WriteError("Nepoznat template. Koristite: light, medium, full");
             return;
@@ -408,7 +408,7 @@ public class CommandHandler
                 if (shouldRetrain)
                 {
                     ConsoleUI.WriteInfo($"Auto-retrain triggered! ({currentGold}/{threshold})");
-                    var model = await _trainingService.TrainModelAsync(TrainTemplate.Medium, activate: true);
+                    var model = await _trainingService.TrainModelAsync(TrainTemplate.Medium, activate: true, TrainTrigger.AutoRetrain);
                     ConsoleUI.WriteSuccess($"Novi model v{model.Version} treniran i aktiviran.");
                 }
             }
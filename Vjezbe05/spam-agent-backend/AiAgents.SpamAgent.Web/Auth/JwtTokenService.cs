@@ -0,0 +1,103 @@
+/*
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *          SPAM AGENT WEB - JWT TOKENI
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Token nosi korisničko ime ("name") i ulogu ("role"). Isti token ide u
+ * Authorization header za REST i kao access_token za SignalR hub.
+ */
+
+using System;
+using System.IdentityModel.Tokens.Jwt;
+using System.Security.Claims;
+using System.Text;
+using Microsoft.IdentityModel.Tokens;
+using AiAgents.SpamAgent.Domain;
+
+namespace AiAgents.SpamAgent.Web.Auth;
+
+/// <summary>
+/// Imena uloga za [Authorize(Roles = ...)]; viša uloga je uvijek navedena uz nižu.
+/// </summary>
+public static class AuthRoles
+{
+    public const string Viewer = nameof(UserRole.Viewer);
+    public const string Moderator = nameof(UserRole.Moderator);
+    public const string Admin = nameof(UserRole.Admin);
+
+    /// <summary>Review i slanje poruka</summary>
+    public const string Reviewers = Moderator + "," + Admin;
+}
+
+/// <summary>
+/// Konfiguracija iz sekcije "Auth" u appsettings.json.
+/// </summary>
+public class AuthOptions
+{
+    public const string SectionName = "Auth";
+
+    public string Issuer { get; set; } = "spam-agent";
+
+    /// <summary>HMAC-SHA256 ključ, najmanje 32 znaka</summary>
+    public string SigningKey { get; set; } = string.Empty;
+
+    public int TokenLifetimeHours { get; set; } = 12;
+
+    public SymmetricSecurityKey GetSecurityKey() => new(Encoding.UTF8.GetBytes(SigningKey));
+}
+
+/// <summary>
+/// Izdaje JWT za prijavljenog korisnika.
+/// </summary>
+public class JwtTokenService
+{
+    public const string NameClaim = "name";
+    public const string RoleClaim = "role";
+    public const string DisplayNameClaim = "display_name";
+
+    private readonly AuthOptions _options;
+
+    public JwtTokenService(AuthOptions options)
+    {
+        _options = options;
+    }
+
+    public (string token, DateTime expiresAtUtc) CreateToken(User user)
+    {
+        var expiresAtUtc = DateTime.UtcNow.AddHours(_options.TokenLifetimeHours);
+
+        var claims = new[]
+        {
+            new Claim(JwtRegisteredClaimNames.Sub, user.Id.ToString()),
+            new Claim(NameClaim, user.Username),
+            new Claim(DisplayNameClaim, user.DisplayName),
+            new Claim(RoleClaim, user.Role.ToString())
+        };
+
+        var token = new JwtSecurityToken(
+            issuer: _options.Issuer,
+            audience: _options.Issuer,
+            claims: claims,
+            expires: expiresAtUtc,
+            signingCredentials: new SigningCredentials(_options.GetSecurityKey(), SecurityAlgorithms.HmacSha256));
+
+        return (new JwtSecurityTokenHandler().WriteToken(token), expiresAtUtc);
+    }
+
+    /// <summary>
+    /// Parametri validacije za JwtBearer; claim-ovi ostaju pod kratkim imenima.
+    /// </summary>
+    public static TokenValidationParameters CreateValidationParameters(AuthOptions options) => new()
+    {
+        ValidateIssuer = true,
+        ValidIssuer = options.Issuer,
+        ValidateAudience = true,
+        ValidAudience = options.Issuer,
+        ValidateIssuerSigningKey = true,
+        IssuerSigningKey = options.GetSecurityKey(),
+        ValidateLifetime = true,
+        ClockSkew = TimeSpan.FromMinutes(1),
+        NameClaimType = NameClaim,
+        RoleClaimType = RoleClaim
+    };
+}
@@ -20,6 +20,7 @@ using Microsoft.Extensions.Logging;
 using Microsoft.AspNetCore.SignalR;
 using AiAgents.SpamAgent.Application.Agents;
 using AiAgents.SpamAgent.Application.Queries;
+using AiAgents.SpamAgent.Domain;
 using AiAgents.SpamAgent.Web.Hubs;
 using AiAgents.SpamAgent.Web.Models;
 
@@ -66,6 +67,14 @@ public class RetrainWorkerService : TickWorkerServiceBase<RetrainAgent, RetrainT
                 result.NewModelVersion,
                 result.Metrics?.Accuracy ?? 0);
 
+            if (result.PromotionDecision == PromotionDecision.Rejected)
+            {
+                Logger.LogWarning(
+                    "Model v{Version} ostaje neaktivan. {Reason}",
+                    result.NewModelVersion,
+                    result.PromotionReason);
+            }
+
             // Emituj SignalR evente
             await EmitModelRetrainedEventAsync(result);
             await EmitStatsUpdateAsync(scopedServices, ct);
@@ -81,7 +90,7 @@ public class RetrainWorkerService : TickWorkerServiceBase<RetrainAgent, RetrainT
         var evt = new ModelRetrainedEvent
         {
             NewVersion = result.NewModelVersion ?? 0,
-            Template = result.Template?.ToString() ?? "Medium",
+            Template = result.TrainingConfigName ?? result.Template?.ToString() ?? "Medium",
             Metrics = result.Metrics != null ? new MetricsDto
             {
                 Accuracy = result.Metrics.Accuracy,
@@ -90,6 +99,8 @@ public class RetrainWorkerService : TickWorkerServiceBase<RetrainAgent, RetrainT
                 F1 = result.Metrics.F1
             } : new MetricsDto(),
             IsActivated = result.Activated,
+            PromotionDecision = result.PromotionDecision.ToString(),
+            PromotionReason = result.PromotionReason,
             Timestamp = result.Timestamp
         };
 
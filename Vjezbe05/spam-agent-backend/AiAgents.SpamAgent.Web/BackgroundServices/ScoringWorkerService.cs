@@ -24,6 +24,7 @@ namespace AiAgents.SpamAgent.Web.BackgroundServices;
 public class ScoringWorkerService : TickWorkerServiceBase<ScoringAgent, ScoringTickResult>
 {
     private readonly IHubContext<SpamAgentHub> _hubContext;
+    private readonly HubEventLog _eventLog;
 
     // Konfiguracija delays
     protected override int IdleDelayMs => 500;
@@ -34,10 +35,12 @@ public class ScoringWorkerService : TickWorkerServiceBase<ScoringAgent, ScoringT
     public ScoringWorkerService(
         IServiceScopeFactory scopeFactory,
         IHubContext<SpamAgentHub> hubContext,
+        HubEventLog eventLog,
         ILogger<ScoringWorkerService> logger)
         : base(scopeFactory, logger)
     {
         _hubContext = hubContext;
+        _eventLog = eventLog;
     }
 
     /// <summary>
@@ -62,9 +65,10 @@ public class ScoringWorkerService : TickWorkerServiceBase<ScoringAgent, ScoringT
             NewStatus = result.NewStatus.ToString(),
             TrueLabel = result.TrueLabel?.ToString(),
             IsCorrect = result.IsCorrect,
+            ModelVersion = result.ModelVersion,
             Timestamp = result.Timestamp
         };
 
-        await _hubContext.SendMessageScored(evt);
+        await _hubContext.SendMessageScored(_eventLog, evt);
     }
 }
@@ -8,9 +8,16 @@
  * 
  * NAPOMENA: Koristi EnqueueFromValidationWithResultAsync koji vraća
  * baš poruke koje je enqueue-ovao (bez dodatnog query-a po Status==Queued).
+ *
+ * SCENARIJI:
+ *   Scenarij postavlja udio spam-a (izvučen iz validation seta), interval i batch.
+ *   Sa trajanjem se nakon isteka vraća na Natural i prethodni interval/batch -
+ *   npr. kratki "spam burst" za testiranje pragova i auto-retrain-a uživo.
  */
 
 using System;
+using System.Collections.Generic;
+using System.Linq;
 using System.Threading;
 using System.Threading.Tasks;
 using Microsoft.Extensions.DependencyInjection;
@@ -28,20 +35,34 @@ public class SimulatorService : BackgroundService
 {
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly IHubContext<SpamAgentHub> _hubContext;
+    private readonly HubEventLog _eventLog;
     private readonly ILogger<SimulatorService> _logger;
     
+    private const int MinIntervalMs = 500;
+    private const int MaxIntervalMs = 60_000;
+    private const int MaxBatchSize = 10;
+
+    private readonly object _lock = new();
+
     private bool _enabled;
     private int _intervalMs;
     private int _batchSize;
+    private SimulatorScenario _scenario = SimulatorScenario.Natural;
+    private DateTime? _scenarioEndsAtUtc;
+
+    // Interval i batch prije scenarija sa trajanjem (vraćaju se po isteku)
+    private (int intervalMs, int batchSize)? _beforeScenario;
 
     public SimulatorService(
         IServiceScopeFactory scopeFactory,
         IHubContext<SpamAgentHub> hubContext,
+        HubEventLog eventLog,
         ILogger<SimulatorService> logger,
         IConfiguration configuration)
     {
         _scopeFactory = scopeFactory;
         _hubContext = hubContext;
+        _eventLog = eventLog;
         _logger = logger;
 
         // Učitaj postavke iz konfiguracije
@@ -77,9 +98,12 @@ public class SimulatorService : BackgroundService
                     continue;
                 }
 
+                ExpireScenario();
+
                 // Scope per iteration
                 using var scope = _scopeFactory.CreateScope();
-                await EnqueueSimulatedMessagesAsync(scope.ServiceProvider, _batchSize, stoppingToken);
+                await EnqueueSimulatedMessagesAsync(
+                    scope.ServiceProvider, _batchSize, SimulatorScenarios.Get(_scenario).SpamRatio, stoppingToken);
 
                 await Task.Delay(_intervalMs, stoppingToken);
             }
@@ -100,6 +124,7 @@ public class SimulatorService : BackgroundService
     private async Task EnqueueSimulatedMessagesAsync(
         IServiceProvider serviceProvider, 
         int count, 
+        double? spamRatio,
         CancellationToken ct)
     {
         var queueService = serviceProvider.GetRequiredService<QueueService>();
@@ -108,7 +133,8 @@ public class SimulatorService : BackgroundService
         var enqueuedMessages = await queueService.EnqueueFromValidationWithResultAsync(
             count, 
             copyAsTrueLabel: true, 
-            ct);
+            ct,
+            spamRatio);
 
         if (enqueuedMessages.Count > 0)
         {
@@ -124,7 +150,7 @@ public class SimulatorService : BackgroundService
                     Timestamp = msg.CreatedAtUtc
                 };
 
-                await _hubContext.SendMessageQueued(evt);
+                await _hubContext.SendMessageQueued(_eventLog, evt);
             }
         }
     }
@@ -143,7 +169,7 @@ public class SimulatorService : BackgroundService
     /// </summary>
     public void SetInterval(int intervalMs)
     {
-        _intervalMs = Math.Max(500, intervalMs);
+        _intervalMs = Math.Clamp(intervalMs, MinIntervalMs, MaxIntervalMs);
         _logger.LogInformation("Simulator interval postavljen na {Interval}ms", _intervalMs);
     }
 
@@ -152,11 +178,112 @@ public class SimulatorService : BackgroundService
     /// </summary>
     public void SetBatchSize(int batchSize)
     {
-        _batchSize = Math.Clamp(batchSize, 1, 10);
+        _batchSize = Math.Clamp(batchSize, 1, MaxBatchSize);
         _logger.LogInformation("Simulator batch size postavljen na {Size}", _batchSize);
     }
 
+    /// <summary>
+    /// Primjenjuje scenarij (udio spam-a, interval, batch).
+    /// Sa trajanjem se po isteku vraća na Natural i prethodni interval/batch.
+    /// </summary>
+    public void SetScenario(SimulatorScenario scenario, int? durationSec = null)
+    {
+        var preset = SimulatorScenarios.Get(scenario);
+
+        lock (_lock)
+        {
+            // Novi scenarij sa trajanjem vraća se na stanje prije prvog, ne na prethodni scenarij
+            if (durationSec is > 0 && scenario != SimulatorScenario.Natural)
+            {
+                _beforeScenario ??= (_intervalMs, _batchSize);
+                _scenarioEndsAtUtc = DateTime.UtcNow.AddSeconds(durationSec.Value);
+            }
+            else
+            {
+                _beforeScenario = null;
+                _scenarioEndsAtUtc = null;
+            }
+
+            _scenario = scenario;
+            if (preset.IntervalMs.HasValue) _intervalMs = preset.IntervalMs.Value;
+            if (preset.BatchSize.HasValue) _batchSize = preset.BatchSize.Value;
+        }
+
+        _logger.LogInformation(
+            "Simulator scenarij {Scenario}: spam={SpamRatio}, interval={Interval}ms, batch={Batch}, do={EndsAt}",
+            scenario, preset.SpamRatio?.ToString("P0") ?? "prirodno", _intervalMs, _batchSize, _scenarioEndsAtUtc);
+    }
+
+    private void ExpireScenario()
+    {
+        lock (_lock)
+        {
+            if (_scenarioEndsAtUtc == null || DateTime.UtcNow < _scenarioEndsAtUtc)
+                return;
+
+            if (_beforeScenario is var (intervalMs, batchSize))
+            {
+                _intervalMs = intervalMs;
+                _batchSize = batchSize;
+            }
+
+            _logger.LogInformation("Simulator scenarij {Scenario} istekao - nazad na Natural", _scenario);
+            _scenario = SimulatorScenario.Natural;
+            _scenarioEndsAtUtc = null;
+            _beforeScenario = null;
+        }
+    }
+
     public bool IsEnabled => _enabled;
     public int IntervalMs => _intervalMs;
     public int BatchSize => _batchSize;
+
+    public SimulatorScenario Scenario
+    {
+        get { ExpireScenario(); return _scenario; }
+    }
+
+    public DateTime? ScenarioEndsAtUtc => _scenarioEndsAtUtc;
+}
+
+/// <summary>
+/// Scenariji simulatora.
+/// </summary>
+public enum SimulatorScenario
+{
+    /// <summary>Redoslijed validation seta (~13% spam)</summary>
+    Natural = 0,
+
+    /// <summary>Nagli talas spam-a uz veći protok</summary>
+    SpamBurst = 1,
+
+    /// <summary>Skoro sve ham, umjeren protok</summary>
+    HamHeavyDay = 2,
+
+    /// <summary>Pola-pola</summary>
+    Balanced = 3
+}
+
+/// <summary>
+/// Parametri scenarija; null = zadržava trenutnu vrijednost.
+/// </summary>
+public record SimulatorScenarioPreset(
+    SimulatorScenario Scenario,
+    string Description,
+    double? SpamRatio,
+    int? IntervalMs,
+    int? BatchSize);
+
+public static class SimulatorScenarios
+{
+    public static readonly IReadOnlyList<SimulatorScenarioPreset> All = new[]
+    {
+        new SimulatorScenarioPreset(SimulatorScenario.Natural, "Prirodni omjer iz dataseta", null, null, null),
+        new SimulatorScenarioPreset(SimulatorScenario.SpamBurst, "80% spam, 5 poruka svake sekunde", 0.8, 1000, 5),
+        new SimulatorScenarioPreset(SimulatorScenario.HamHeavyDay, "3% spam, 2 poruke svake 3 sekunde", 0.03, 3000, 2),
+        new SimulatorScenarioPreset(SimulatorScenario.Balanced, "50% spam", 0.5, null, null)
+    };
+
+    public static SimulatorScenarioPreset Get(SimulatorScenario scenario) =>
+        All.First(p => p.Scenario == scenario);
 }
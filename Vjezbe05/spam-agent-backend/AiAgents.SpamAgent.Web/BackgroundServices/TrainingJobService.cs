@@ -0,0 +1,294 @@
+/*
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *          SPAM AGENT WEB - TRAINING JOB SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Trening kao asinhroni job: POST /api/admin/train odmah vraća job sa id-em,
+ * a trening radi u pozadini u svom scope-u.
+ *
+ * Svaka promjena koraka (LoadingData → Featurizing → Training → Evaluating →
+ * Saving) i završetak se emituju kao TrainingJobUpdated u "models" grupu.
+ *
+ * NAPOMENA:
+ *   - Istovremeno radi samo jedan job; job pokrenut dok radi auto-retrain
+ *     čeka na TrainingService gate (ostaje u LoadingData koraku)
+ *   - Job-ovi su samo u memoriji; čuva se zadnjih MaxFinishedJobs završenih
+ *   - Cancel se poštuje između koraka, ne usred ML.NET fit-a, i ne od Saving koraka
+ */
+
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging;
+using AiAgents.SpamAgent.Application.Services;
+using AiAgents.SpamAgent.Domain;
+using AiAgents.SpamAgent.Web.Hubs;
+using AiAgents.SpamAgent.Web.Models;
+
+namespace AiAgents.SpamAgent.Web.BackgroundServices;
+
+public class TrainingJobService
+{
+    private const int MaxFinishedJobs = 20;
+
+    // Procenat na početku svakog koraka (fit je najduži dio)
+    private static readonly Dictionary<TrainingStage, int> StageProgress = new()
+    {
+        { TrainingStage.LoadingData, 0 },
+        { TrainingStage.Featurizing, 10 },
+        { TrainingStage.Training, 35 },
+        { TrainingStage.Evaluating, 80 },
+        { TrainingStage.Saving, 95 }
+    };
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly IHubContext<SpamAgentHub> _hubContext;
+    private readonly ILogger<TrainingJobService> _logger;
+
+    private readonly object _lock = new();
+    private readonly List<TrainingJob> _jobs = new();
+
+    public TrainingJobService(
+        IServiceScopeFactory scopeFactory,
+        IHubContext<SpamAgentHub> hubContext,
+        ILogger<TrainingJobService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Pokreće trening u pozadini. Ako već radi neki job, vraća false i taj job.
+    /// </summary>
+    /// <param name="template">Preset; ignoriše se ako je zadan config</param>
+    /// <param name="config">Custom konfiguracija (opciono)</param>
+    public bool TryStart(TrainTemplate template, TrainingConfig? config, bool activate, out TrainingJob job)
+    {
+        lock (_lock)
+        {
+            var running = _jobs.FirstOrDefault(j => j.Status == TrainingJobStatus.Running);
+            if (running != null)
+            {
+                job = running;
+                return false;
+            }
+
+            job = new TrainingJob(config != null ? TrainTemplate.Custom : template, config, activate);
+            _jobs.Insert(0, job);
+            PruneFinished();
+        }
+
+        var started = job;
+        _ = Task.Run(() => RunAsync(started));
+        return true;
+    }
+
+    /// <summary>
+    /// Traži prekid job-a. Vraća false ako job ne postoji ili je već završen.
+    /// </summary>
+    public bool TryCancel(Guid jobId)
+    {
+        var job = Get(jobId);
+        if (job == null || job.Status != TrainingJobStatus.Running || job.Stage == TrainingStage.Saving)
+        {
+            return false;
+        }
+
+        _logger.LogInformation("Training job {JobId} - zatražen prekid", jobId);
+        job.Cancellation.Cancel();
+        return true;
+    }
+
+    public TrainingJob? Get(Guid jobId)
+    {
+        lock (_lock)
+        {
+            return _jobs.FirstOrDefault(j => j.Id == jobId);
+        }
+    }
+
+    /// <summary>
+    /// Svi job-ovi, najnoviji prvi.
+    /// </summary>
+    public List<TrainingJob> GetAll()
+    {
+        lock (_lock)
+        {
+            return _jobs.ToList();
+        }
+    }
+
+    private async Task RunAsync(TrainingJob job)
+    {
+        _logger.LogInformation(
+            "Training job {JobId} pokrenut: {Template}",
+            job.Id, job.Config?.Name ?? job.Template.ToString());
+        await EmitAsync(job);
+
+        try
+        {
+            using var scope = _scopeFactory.CreateScope();
+            var trainingService = scope.ServiceProvider.GetRequiredService<TrainingService>();
+
+            var progress = new StageReporter(stage =>
+            {
+                job.Stage = stage;
+                job.Progress = StageProgress[stage];
+                _ = EmitAsync(job);
+            });
+
+            var model = job.Config != null
+                ? await trainingService.TrainModelAsync(
+                    job.Config, job.Activate, TrainTrigger.Manual, job.Cancellation.Token, progress)
+                : await trainingService.TrainModelAsync(
+                    job.Template, job.Activate, TrainTrigger.Manual, job.Cancellation.Token, progress);
+
+            job.ModelVersion = model.Version;
+            job.Progress = 100;
+            job.Finish(TrainingJobStatus.Succeeded);
+
+            _logger.LogInformation(
+                "Training job {JobId} završen: v{Version}, accuracy {Accuracy:P2}",
+                job.Id, model.Version, model.Accuracy);
+
+            await _hubContext.SendModelRetrained(new ModelRetrainedEvent
+            {
+                NewVersion = model.Version,
+                Template = model.TrainingConfigName ?? model.TrainTemplate.ToString(),
+                Metrics = new MetricsDto
+                {
+                    Accuracy = model.Accuracy,
+                    Precision = model.Precision,
+                    Recall = model.Recall,
+                    F1 = model.F1
+                },
+                IsActivated = model.IsActive,
+                PromotionDecision = model.PromotionDecision.ToString(),
+                PromotionReason = model.PromotionReason,
+                Timestamp = DateTime.UtcNow
+            });
+        }
+        catch (OperationCanceledException)
+        {
+            job.Finish(TrainingJobStatus.Cancelled);
+            _logger.LogInformation("Training job {JobId} prekinut u koraku {Stage}", job.Id, job.Stage);
+        }
+        catch (Exception ex)
+        {
+            job.Error = ex.Message;
+            job.Finish(TrainingJobStatus.Failed);
+            _logger.LogError(ex, "Training job {JobId} nije uspio", job.Id);
+        }
+
+        await EmitAsync(job);
+    }
+
+    private async Task EmitAsync(TrainingJob job)
+    {
+        try
+        {
+            await _hubContext.SendTrainingJobUpdated(job.ToDto());
+        }
+        catch (Exception ex)
+        {
+            // Klijenti će stanje dobiti kroz GET /train/jobs
+            _logger.LogWarning(ex, "Slanje TrainingJobUpdated nije uspjelo");
+        }
+    }
+
+    private void PruneFinished()
+    {
+        var finished = _jobs.Where(j => j.Status != TrainingJobStatus.Running).ToList();
+        foreach (var old in finished.Skip(MaxFinishedJobs))
+        {
+            _jobs.Remove(old);
+            old.Cancellation.Dispose();
+        }
+    }
+
+    /// <summary>
+    /// IProgress koji javlja sinhrono (Progress&lt;T&gt; ide preko thread pool-a pa koraci mogu stići izmiješani).
+    /// </summary>
+    private sealed class StageReporter : IProgress<TrainingStage>
+    {
+        private readonly Action<TrainingStage> _report;
+
+        public StageReporter(Action<TrainingStage> report) => _report = report;
+
+        public void Report(TrainingStage value) => _report(value);
+    }
+}
+
+/// <summary>
+/// Stanje training job-a.
+/// </summary>
+public enum TrainingJobStatus
+{
+    Running = 0,
+    Succeeded = 1,
+    Failed = 2,
+    Cancelled = 3
+}
+
+/// <summary>
+/// Jedan trening pokrenut kroz API.
+/// </summary>
+public class TrainingJob
+{
+    public Guid Id { get; } = Guid.NewGuid();
+    public TrainTemplate Template { get; }
+
+    /// <summary>Snapshot konfiguracije u trenutku pokretanja (izmjene kasnije ne utiču na job)</summary>
+    public TrainingConfig? Config { get; }
+
+    public bool Activate { get; }
+    public TrainingJobStatus Status { get; private set; } = TrainingJobStatus.Running;
+    public TrainingStage Stage { get; set; } = TrainingStage.LoadingData;
+    public int Progress { get; set; }
+    public int? ModelVersion { get; set; }
+    public string? Error { get; set; }
+    public DateTime StartedAtUtc { get; } = DateTime.UtcNow;
+    public DateTime? FinishedAtUtc { get; private set; }
+
+    internal CancellationTokenSource Cancellation { get; } = new();
+
+    public TrainingJob(TrainTemplate template, TrainingConfig? config, bool activate)
+    {
+        Template = template;
+        Config = config;
+        Activate = activate;
+    }
+
+    public void Finish(TrainingJobStatus status)
+    {
+        Status = status;
+        FinishedAtUtc = DateTime.UtcNow;
+    }
+
+    public TrainingJobDto ToDto()
+    {
+        var end = FinishedAtUtc ?? DateTime.UtcNow;
+
+        return new TrainingJobDto
+        {
+            Id = Id,
+            Template = Template.ToString(),
+            ConfigName = Config?.Name,
+            Activate = Activate,
+            Status = Status.ToString(),
+            Stage = Stage.ToString(),
+            Progress = Progress,
+            ModelVersion = ModelVersion,
+            Error = Error,
+            StartedAtUtc = StartedAtUtc,
+            FinishedAtUtc = FinishedAtUtc,
+            DurationMs = (long)(end - StartedAtUtc).TotalMilliseconds,
+            CanCancel = Status == TrainingJobStatus.Running && Stage != TrainingStage.Saving
+        };
+    }
+}
@@ -6,7 +6,7 @@
  * API za administraciju: trening, aktivacija modela, postavke.
  * Kontroler je tanak - koristi servise iz shared library-ja.
  * 
- * NAPOMENA: Ovi endpointi nemaju autentikaciju - nisu za produkciju!
+ * Čitanje je dozvoljeno svim prijavljenim korisnicima, izmjene samo Admin ulozi.
  */
 
 using System;
@@ -14,6 +14,7 @@ using System.Collections.Generic;
 using System.Linq;
 using System.Threading;
 using System.Threading.Tasks;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
@@ -21,7 +22,7 @@ using AiAgents.SpamAgent.Domain;
 using AiAgents.SpamAgent.Infrastructure;
 using AiAgents.SpamAgent.Application.Services;
 using AiAgents.SpamAgent.Application.Queries;
-using AiAgents.SpamAgent.Application.Agents;
+using AiAgents.SpamAgent.Web.Auth;
 using AiAgents.SpamAgent.Web.Hubs;
 using AiAgents.SpamAgent.Web.Models;
 using AiAgents.SpamAgent.Web.BackgroundServices;
@@ -31,33 +32,37 @@ namespace AiAgents.SpamAgent.Web.Controllers;
 [ApiController]
 [Route("api/[controller]")]
 [Produces("application/json")]
+[Authorize]
 public class AdminController : ControllerBase
 {
     private readonly SpamAgentDbContext _context;
     private readonly AdminQueryService _adminQuery;
     private readonly TrainingService _trainingService;
+    private readonly TrainingConfigService _trainingConfigs;
     private readonly DatabaseSeeder _seeder;
-    private readonly RetrainAgent _retrainAgent;
     private readonly IHubContext<SpamAgentHub> _hubContext;
     private readonly SimulatorService? _simulatorService;
+    private readonly TrainingJobService _trainingJobs;
     private readonly SpamAgentOptions _options;
 
     public AdminController(
         SpamAgentDbContext context,
         AdminQueryService adminQuery,
         TrainingService trainingService,
+        TrainingConfigService trainingConfigs,
         DatabaseSeeder seeder,
-        RetrainAgent retrainAgent,
         IHubContext<SpamAgentHub> hubContext,
+        TrainingJobService trainingJobs,
         SpamAgentOptions options,
         IServiceProvider serviceProvider)
     {
         _context = context;
         _adminQuery = adminQuery;
         _trainingService = trainingService;
+        _trainingConfigs = trainingConfigs;
         _seeder = seeder;
-        _retrainAgent = retrainAgent;
         _hubContext = hubContext;
+        _trainingJobs = trainingJobs;
         _options = options;
 
         // SimulatorService je opcioni
@@ -87,6 +92,7 @@ public class AdminController : ControllerBase
     /// Importuje UCI dataset (ako nije već importovan).
     /// </summary>
     [HttpPost("import")]
+    [Authorize(Roles = AuthRoles.Admin)]
     [ProducesResponseType(typeof(object), 200)]
     public async Task<ActionResult> ImportDataset([FromQuery] bool force = false)
     {
@@ -108,86 +114,224 @@ public class AdminController : ControllerBase
     // ═══════════════════════════════════════════════════════════════════════════
 
     /// <summary>
-    /// Trenira novi model.
+    /// Pokreće trening novog modela kao job. Napredak stiže kao TrainingJobUpdated.
+    /// Sa ConfigId trenira po custom konfiguraciji, inače po Template preset-u.
     /// </summary>
     [HttpPost("train")]
-    [ProducesResponseType(typeof(ModelVersionDto), 200)]
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(TrainingJobDto), 202)]
     [ProducesResponseType(400)]
-    public async Task<ActionResult<ModelVersionDto>> TrainModel([FromBody] TrainRequest request)
+    [ProducesResponseType(404)]
+    [ProducesResponseType(409)]
+    public async Task<ActionResult<TrainingJobDto>> TrainModel([FromBody] TrainRequest request)
     {
-        if (!Enum.TryParse<TrainTemplate>(request.Template, true, out var template))
+        if (request.ConfigId.HasValue)
         {
-            return BadRequest("Template mora biti: Light, Medium, Full");
-        }
+            var config = await _context.TrainingConfigs
+                .AsNoTracking()
+                .FirstOrDefaultAsync(c => c.Id == request.ConfigId.Value);
 
-        var result = await _retrainAgent.ForceRetrainAsync(template, request.Activate);
-        
-        if (!result.Success)
-        {
-            return BadRequest(result.Reason);
+            if (config == null)
+            {
+                return NotFound($"Konfiguracija {request.ConfigId} nije pronađena.");
+            }
+
+            return StartTrainingJob(TrainTemplate.Custom, config, request.Activate);
         }
 
-        // Emituj SignalR event
-        var evt = new ModelRetrainedEvent
+        if (!Enum.TryParse<TrainTemplate>(request.Template, true, out var template) ||
+            template == TrainTemplate.Custom)
         {
-            NewVersion = result.NewModelVersion ?? 0,
-            Template = result.Template?.ToString() ?? template.ToString(),
-            Metrics = result.Metrics != null ? new MetricsDto
-            {
-                Accuracy = result.Metrics.Accuracy,
-                Precision = result.Metrics.Precision,
-                Recall = result.Metrics.Recall,
-                F1 = result.Metrics.F1
-            } : new MetricsDto(),
-            IsActivated = request.Activate,
-            Timestamp = DateTime.UtcNow
-        };
-        await _hubContext.SendModelRetrained(evt);
+            return BadRequest("Template mora biti: Light, Medium, Full");
+        }
 
-        var model = await _adminQuery.GetModelByVersionAsync(result.NewModelVersion ?? 0);
-        return Ok(MapModelToDto(model!));
+        return StartTrainingJob(template, null, request.Activate);
     }
 
     /// <summary>
-    /// Forsira retrain (ignorira counter).
+    /// Forsira retrain (ignorira counter) - isti job kao /train.
     /// </summary>
     [HttpPost("retrain")]
-    [ProducesResponseType(typeof(ModelVersionDto), 200)]
-    public async Task<ActionResult<ModelVersionDto>> ForceRetrain(
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(TrainingJobDto), 202)]
+    [ProducesResponseType(409)]
+    public ActionResult<TrainingJobDto> ForceRetrain(
         [FromQuery] string template = "Medium",
         [FromQuery] bool activate = true)
     {
-        if (!Enum.TryParse<TrainTemplate>(template, true, out var tmpl))
+        if (!Enum.TryParse<TrainTemplate>(template, true, out var tmpl) || tmpl == TrainTemplate.Custom)
         {
             tmpl = TrainTemplate.Medium;
         }
 
-        var result = await _retrainAgent.ForceRetrainAsync(tmpl, activate);
+        return StartTrainingJob(tmpl, null, activate);
+    }
+
+    /// <summary>
+    /// Training job-ovi koji rade i zadnji završeni, najnoviji prvi.
+    /// </summary>
+    [HttpGet("train/jobs")]
+    [ProducesResponseType(typeof(List<TrainingJobDto>), 200)]
+    public ActionResult<List<TrainingJobDto>> GetTrainingJobs()
+    {
+        return Ok(_trainingJobs.GetAll().Select(j => j.ToDto()).ToList());
+    }
+
+    /// <summary>
+    /// Jedan training job.
+    /// </summary>
+    [HttpGet("train/jobs/{id}")]
+    [ProducesResponseType(typeof(TrainingJobDto), 200)]
+    [ProducesResponseType(404)]
+    public ActionResult<TrainingJobDto> GetTrainingJob(Guid id)
+    {
+        var job = _trainingJobs.Get(id);
+        if (job == null)
+        {
+            return NotFound($"Job {id} nije pronađen.");
+        }
+
+        return Ok(job.ToDto());
+    }
+
+    /// <summary>
+    /// Prekida training job. Prekid se primjenjuje na kraju trenutnog koraka.
+    /// </summary>
+    [HttpPost("train/jobs/{id}/cancel")]
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(TrainingJobDto), 202)]
+    [ProducesResponseType(404)]
+    [ProducesResponseType(409)]
+    public ActionResult<TrainingJobDto> CancelTrainingJob(Guid id)
+    {
+        var job = _trainingJobs.Get(id);
+        if (job == null)
+        {
+            return NotFound($"Job {id} nije pronađen.");
+        }
 
-        if (!result.Success)
+        if (!_trainingJobs.TryCancel(id))
         {
-            return BadRequest(result.Reason);
+            return Conflict($"Job {id} se više ne može prekinuti ({job.Status}, {job.Stage}).");
         }
 
-        // Emituj SignalR event
-        var evt = new ModelRetrainedEvent
+        return Accepted(job.ToDto());
+    }
+
+    private ActionResult<TrainingJobDto> StartTrainingJob(TrainTemplate template, TrainingConfig? config, bool activate)
+    {
+        if (!_trainingJobs.TryStart(template, config, activate, out var job))
         {
-            NewVersion = result.NewModelVersion ?? 0,
-            Template = result.Template?.ToString() ?? template,
-            Metrics = result.Metrics != null ? new MetricsDto
-            {
-                Accuracy = result.Metrics.Accuracy,
-                Precision = result.Metrics.Precision,
-                Recall = result.Metrics.Recall,
-                F1 = result.Metrics.F1
-            } : new MetricsDto(),
-            IsActivated = activate,
-            Timestamp = DateTime.UtcNow
-        };
-        await _hubContext.SendModelRetrained(evt);
+            return Conflict($"Trening već radi (job {job.Id}, {job.Stage}).");
+        }
 
-        var model = await _adminQuery.GetModelByVersionAsync(result.NewModelVersion ?? 0);
-        return Ok(MapModelToDto(model!));
+        return Accepted(job.ToDto());
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    //                     TRAINING KONFIGURACIJE
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /// <summary>
+    /// Sve custom training konfiguracije.
+    /// </summary>
+    [HttpGet("training-configs")]
+    [ProducesResponseType(typeof(List<TrainingConfigDto>), 200)]
+    public async Task<ActionResult<List<TrainingConfigDto>>> GetTrainingConfigs()
+    {
+        var configs = await _adminQuery.GetTrainingConfigsAsync();
+        return Ok(configs.Select(MapTrainingConfigToDto).ToList());
+    }
+
+    /// <summary>
+    /// Kreira custom training konfiguraciju.
+    /// </summary>
+    [HttpPost("training-configs")]
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(TrainingConfigDto), 200)]
+    [ProducesResponseType(400)]
+    public async Task<ActionResult<TrainingConfigDto>> CreateTrainingConfig([FromBody] TrainingConfigRequest request)
+    {
+        if (!TryMapTrainingConfig(request, out var input, out var error))
+        {
+            return BadRequest(error);
+        }
+
+        var (success, message, config) = await _trainingConfigs.CreateAsync(input);
+        if (!success)
+        {
+            return BadRequest(message);
+        }
+
+        var created = await _adminQuery.GetTrainingConfigAsync(config!.Id);
+        return Ok(MapTrainingConfigToDto(created!));
+    }
+
+    /// <summary>
+    /// Ažurira custom training konfiguraciju.
+    /// </summary>
+    [HttpPut("training-configs/{id}")]
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(TrainingConfigDto), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<ActionResult<TrainingConfigDto>> UpdateTrainingConfig(int id, [FromBody] TrainingConfigRequest request)
+    {
+        if (await _adminQuery.GetTrainingConfigAsync(id) == null)
+        {
+            return NotFound($"Konfiguracija {id} nije pronađena.");
+        }
+
+        if (!TryMapTrainingConfig(request, out var input, out var error))
+        {
+            return BadRequest(error);
+        }
+
+        var (success, message, _) = await _trainingConfigs.UpdateAsync(id, input);
+        if (!success)
+        {
+            return BadRequest(message);
+        }
+
+        var updated = await _adminQuery.GetTrainingConfigAsync(id);
+        return Ok(MapTrainingConfigToDto(updated!));
+    }
+
+    /// <summary>
+    /// Briše custom training konfiguraciju. Modeli trenirani po njoj zadržavaju ime.
+    /// </summary>
+    [HttpDelete("training-configs/{id}")]
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(object), 200)]
+    [ProducesResponseType(404)]
+    public async Task<ActionResult> DeleteTrainingConfig(int id)
+    {
+        var (success, message) = await _trainingConfigs.DeleteAsync(id);
+        if (!success)
+        {
+            return NotFound(message);
+        }
+
+        return Ok(new { message });
+    }
+
+    private static bool TryMapTrainingConfig(TrainingConfigRequest request, out TrainingConfig config, out string error)
+    {
+        config = new TrainingConfig();
+        error = string.Empty;
+
+        if (!Enum.TryParse<ClassBalancing>(request.Balancing, true, out var balancing))
+        {
+            error = "Balancing mora biti: None, Undersample, Oversample, Weighted";
+            return false;
+        }
+
+        config.Name = request.Name;
+        config.TrainSetSize = request.TrainSetSize;
+        config.GoldWeight = request.GoldWeight;
+        config.Balancing = balancing;
+        config.Seed = request.Seed;
+        return true;
     }
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -206,9 +350,33 @@ public class AdminController : ControllerBase
     }
 
     /// <summary>
-    /// Aktivira postojeći model.
+    /// Score-ovi verzije na validacijskom setu - klijent iz njih računa PR/ROC krive i AUC.
+    /// </summary>
+    [HttpGet("models/{version}/validation-scores")]
+    [ProducesResponseType(typeof(ValidationScoresDto), 200)]
+    [ProducesResponseType(404)]
+    public async Task<ActionResult<ValidationScoresDto>> GetValidationScores(int version)
+    {
+        var result = await _adminQuery.GetValidationScoresAsync(version);
+        if (result == null)
+        {
+            return NotFound($"Model v{version} nije pronađen.");
+        }
+
+        return Ok(new ValidationScoresDto
+        {
+            Version = result.Version,
+            Scores = result.Scores
+                .Select(s => new ValidationScoreDto { PSpam = s.PSpam, IsSpam = s.IsSpam })
+                .ToList()
+        });
+    }
+
+    /// <summary>
+    /// Aktivira postojeći model. Ručna aktivacija ne provjerava promotion pravila (override odbijenog kandidata).
     /// </summary>
     [HttpPost("models/{version}/activate")]
+    [Authorize(Roles = AuthRoles.Admin)]
     [ProducesResponseType(typeof(object), 200)]
     [ProducesResponseType(404)]
     public async Task<ActionResult> ActivateModel(int version)
@@ -221,8 +389,15 @@ public class AdminController : ControllerBase
 
         await _trainingService.ActivateModelAsync(model.Id);
 
+        // Ponovo učitaj da event nosi ažuriran IsActive
+        var activated = await _adminQuery.GetModelByVersionAsync(version) ?? model;
+
         // Emituj SignalR event
-        await _hubContext.SendModelActivated(version);
+        await _hubContext.SendModelActivated(new ModelActivatedEvent
+        {
+            Version = version,
+            Model = MapModelToDto(activated)
+        });
 
         return Ok(new { message = $"Model v{version} aktiviran.", version });
     }
@@ -264,6 +439,7 @@ public class AdminController : ControllerBase
     /// Ažurira postavke.
     /// </summary>
     [HttpPut("settings")]
+    [Authorize(Roles = AuthRoles.Admin)]
     [ProducesResponseType(typeof(SettingsDto), 200)]
     public async Task<ActionResult<SettingsDto>> UpdateSettings([FromBody] SettingsRequest request)
     {
@@ -281,6 +457,46 @@ public class AdminController : ControllerBase
         if (request.AutoRetrainEnabled.HasValue)
             settings.AutoRetrainEnabled = request.AutoRetrainEnabled.Value;
 
+        if (request.AutoRetrainConfigId.HasValue)
+        {
+            if (request.AutoRetrainConfigId.Value == 0)
+            {
+                settings.AutoRetrainConfigId = null;
+            }
+            else if (await _context.TrainingConfigs.AnyAsync(c => c.Id == request.AutoRetrainConfigId.Value))
+            {
+                settings.AutoRetrainConfigId = request.AutoRetrainConfigId.Value;
+            }
+            else
+            {
+                return BadRequest($"Konfiguracija {request.AutoRetrainConfigId} nije pronađena.");
+            }
+        }
+
+        if (request.PromotionGuardEnabled.HasValue)
+            settings.PromotionGuardEnabled = request.PromotionGuardEnabled.Value;
+
+        if (request.PromotionMaxF1Drop.HasValue)
+        {
+            if (request.PromotionMaxF1Drop.Value < 0 || request.PromotionMaxF1Drop.Value > 1)
+                return BadRequest("PromotionMaxF1Drop mora biti između 0 i 1.");
+            settings.PromotionMaxF1Drop = request.PromotionMaxF1Drop.Value;
+        }
+
+        if (request.PromotionMinRecall.HasValue)
+        {
+            if (request.PromotionMinRecall.Value < 0 || request.PromotionMinRecall.Value > 1)
+                return BadRequest("PromotionMinRecall mora biti između 0 i 1.");
+            settings.PromotionMinRecall = request.PromotionMinRecall.Value;
+        }
+
+        if (request.PromotionMinPrecision.HasValue)
+        {
+            if (request.PromotionMinPrecision.Value < 0 || request.PromotionMinPrecision.Value > 1)
+                return BadRequest("PromotionMinPrecision mora biti između 0 i 1.");
+            settings.PromotionMinPrecision = request.PromotionMinPrecision.Value;
+        }
+
         await _context.SaveChangesAsync();
 
         // Simulator postavke
@@ -304,6 +520,7 @@ public class AdminController : ControllerBase
     /// Postavlja pragove odlučivanja.
     /// </summary>
     [HttpPut("thresholds")]
+    [Authorize(Roles = AuthRoles.Admin)]
     [ProducesResponseType(typeof(object), 200)]
     public async Task<ActionResult> SetThresholds([FromBody] ThresholdsRequest request)
     {
@@ -319,10 +536,33 @@ public class AdminController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Predikcije aktivnog modela sa poznatom labelom - za preview pragova prije snimanja.
+    /// </summary>
+    [HttpGet("thresholds/samples")]
+    [ProducesResponseType(typeof(ThresholdSamplesDto), 200)]
+    public async Task<ActionResult<ThresholdSamplesDto>> GetThresholdSamples([FromQuery] int limit = 1000)
+    {
+        var result = await _adminQuery.GetThresholdSamplesAsync(Math.Clamp(limit, 1, 5000));
+
+        return Ok(new ThresholdSamplesDto
+        {
+            ModelVersion = result.ModelVersion,
+            Samples = result.Samples
+                .Select(s => new ThresholdSampleDto
+                {
+                    PSpam = s.PSpam,
+                    TrueLabel = s.TrueLabel.ToString()
+                })
+                .ToList()
+        });
+    }
+
     /// <summary>
     /// Uključuje/isključuje auto-retrain.
     /// </summary>
     [HttpPost("auto-retrain/{enabled}")]
+    [Authorize(Roles = AuthRoles.Admin)]
     [ProducesResponseType(typeof(object), 200)]
     public async Task<ActionResult> SetAutoRetrain(bool enabled)
     {
@@ -338,30 +578,60 @@ public class AdminController : ControllerBase
     // ═══════════════════════════════════════════════════════════════════════════
 
     /// <summary>
-    /// Status simulatora.
+    /// Status simulatora sa dostupnim scenarijima.
     /// </summary>
     [HttpGet("simulator")]
-    [ProducesResponseType(typeof(object), 200)]
-    public ActionResult GetSimulatorStatus()
+    [ProducesResponseType(typeof(SimulatorStatusDto), 200)]
+    public ActionResult<SimulatorStatusDto> GetSimulatorStatus()
+    {
+        return Ok(MapSimulatorToDto(_simulatorService));
+    }
+
+    /// <summary>
+    /// Mijenja simulator: uključenost, interval, batch i scenarij.
+    /// </summary>
+    [HttpPut("simulator")]
+    [Authorize(Roles = AuthRoles.Admin)]
+    [ProducesResponseType(typeof(SimulatorStatusDto), 200)]
+    [ProducesResponseType(400)]
+    public ActionResult<SimulatorStatusDto> UpdateSimulator([FromBody] SimulatorRequest request)
     {
         if (_simulatorService == null)
         {
-            return Ok(new { available = false });
+            return BadRequest("Simulator nije dostupan.");
         }
 
-        return Ok(new 
-        { 
-            available = true,
-            enabled = _simulatorService.IsEnabled,
-            intervalMs = _simulatorService.IntervalMs,
-            batchSize = _simulatorService.BatchSize
-        });
+        SimulatorScenario? scenario = null;
+        if (request.Scenario != null)
+        {
+            if (!Enum.TryParse<SimulatorScenario>(request.Scenario, true, out var parsed))
+            {
+                return BadRequest("Scenario mora biti: " + string.Join(", ", Enum.GetNames<SimulatorScenario>()));
+            }
+            scenario = parsed;
+        }
+
+        // Scenarij prvo - eksplicitni interval/batch iz istog request-a ga nadjačavaju
+        if (scenario.HasValue)
+            _simulatorService.SetScenario(scenario.Value, request.DurationSec);
+
+        if (request.IntervalMs.HasValue)
+            _simulatorService.SetInterval(request.IntervalMs.Value);
+
+        if (request.BatchSize.HasValue)
+            _simulatorService.SetBatchSize(request.BatchSize.Value);
+
+        if (request.Enabled.HasValue)
+            _simulatorService.SetEnabled(request.Enabled.Value);
+
+        return Ok(MapSimulatorToDto(_simulatorService));
     }
 
     /// <summary>
     /// Uključuje/isključuje simulator.
     /// </summary>
     [HttpPost("simulator/{enabled}")]
+    [Authorize(Roles = AuthRoles.Admin)]
     [ProducesResponseType(typeof(object), 200)]
     public ActionResult SetSimulatorEnabled(bool enabled)
     {
@@ -414,6 +684,8 @@ public class AdminController : ControllerBase
             Id = m.Id,
             Version = m.Version,
             TrainTemplate = m.TrainTemplate.ToString(),
+            TrainingConfigName = m.TrainingConfigName,
+            Trigger = m.Trigger.ToString(),
             TrainSetSize = m.TrainSetSize,
             GoldIncludedCount = m.GoldIncludedCount,
             ValidationSetSize = m.ValidationSetSize,
@@ -427,6 +699,18 @@ public class AdminController : ControllerBase
             ThresholdAllow = m.ThresholdAllow,
             ThresholdBlock = m.ThresholdBlock,
             IsActive = m.IsActive,
+            PromotionDecision = m.PromotionDecision.ToString(),
+            PromotionReason = m.PromotionReason,
+            PromotionChecks = m.PromotionChecks
+                .Select(c => new PromotionCheckDto
+                {
+                    Metric = c.Metric,
+                    Actual = c.Actual,
+                    Required = c.Required,
+                    Baseline = c.Baseline,
+                    Passed = c.Passed
+                })
+                .ToList(),
             CreatedAtUtc = m.CreatedAtUtc
         };
     }
@@ -440,7 +724,59 @@ public class AdminController : ControllerBase
             RetrainGoldThreshold = s.RetrainGoldThreshold,
             NewGoldSinceLastTrain = s.NewGoldSinceLastTrain,
             AutoRetrainEnabled = s.AutoRetrainEnabled,
+            AutoRetrainConfigId = s.AutoRetrainConfigId,
+            AutoRetrainConfigName = s.AutoRetrainConfigName,
+            PromotionGuardEnabled = s.PromotionGuardEnabled,
+            PromotionMaxF1Drop = s.PromotionMaxF1Drop,
+            PromotionMinRecall = s.PromotionMinRecall,
+            PromotionMinPrecision = s.PromotionMinPrecision,
             LastRetrainAtUtc = s.LastRetrainAtUtc
         };
     }
+
+    private static SimulatorStatusDto MapSimulatorToDto(SimulatorService? simulator)
+    {
+        if (simulator == null)
+        {
+            return new SimulatorStatusDto { Available = false };
+        }
+
+        var scenario = simulator.Scenario;
+
+        return new SimulatorStatusDto
+        {
+            Available = true,
+            Enabled = simulator.IsEnabled,
+            IntervalMs = simulator.IntervalMs,
+            BatchSize = simulator.BatchSize,
+            Scenario = scenario.ToString(),
+            SpamRatio = SimulatorScenarios.Get(scenario).SpamRatio,
+            ScenarioEndsAtUtc = simulator.ScenarioEndsAtUtc,
+            Scenarios = SimulatorScenarios.All
+                .Select(p => new SimulatorScenarioDto
+                {
+                    Name = p.Scenario.ToString(),
+                    Description = p.Description,
+                    SpamRatio = p.SpamRatio,
+                    IntervalMs = p.IntervalMs,
+                    BatchSize = p.BatchSize
+                })
+                .ToList()
+        };
+    }
+
+    private static TrainingConfigDto MapTrainingConfigToDto(TrainingConfigInfo c)
+    {
+        return new TrainingConfigDto
+        {
+            Id = c.Id,
+            Name = c.Name,
+            TrainSetSize = c.TrainSetSize,
+            GoldWeight = c.GoldWeight,
+            Balancing = c.Balancing.ToString(),
+            Seed = c.Seed,
+            CreatedAtUtc = c.CreatedAtUtc,
+            UpdatedAtUtc = c.UpdatedAtUtc
+        };
+    }
 }
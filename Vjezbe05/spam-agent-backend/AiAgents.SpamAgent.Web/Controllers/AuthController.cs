@@ -0,0 +1,93 @@
+/*
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *          SPAM AGENT WEB - AUTH CONTROLLER
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Prijava (JWT) i podaci o prijavljenom korisniku.
+ * Uloge: Viewer (pregled), Moderator (+ review, slanje poruka), Admin (+ sve).
+ */
+
+using System.Threading.Tasks;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using AiAgents.SpamAgent.Domain;
+using AiAgents.SpamAgent.Application.Services;
+using AiAgents.SpamAgent.Web.Auth;
+using AiAgents.SpamAgent.Web.Models;
+
+namespace AiAgents.SpamAgent.Web.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Produces("application/json")]
+[Authorize]
+public class AuthController : ControllerBase
+{
+    private readonly UserService _userService;
+    private readonly JwtTokenService _tokenService;
+
+    public AuthController(UserService userService, JwtTokenService tokenService)
+    {
+        _userService = userService;
+        _tokenService = tokenService;
+    }
+
+    /// <summary>
+    /// Prijava korisničkim imenom i lozinkom.
+    /// </summary>
+    [HttpPost("login")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(LoginResponseDto), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(401)]
+    public async Task<ActionResult<LoginResponseDto>> Login([FromBody] LoginRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Username) || string.IsNullOrEmpty(request.Password))
+        {
+            return BadRequest("Korisničko ime i lozinka su obavezni.");
+        }
+
+        var (success, message, user) = await _userService.ValidateCredentialsAsync(request.Username, request.Password);
+        if (!success)
+        {
+            return Unauthorized(message);
+        }
+
+        var (token, expiresAtUtc) = _tokenService.CreateToken(user!);
+
+        return Ok(new LoginResponseDto
+        {
+            Token = token,
+            ExpiresAtUtc = expiresAtUtc,
+            User = MapToDto(user!)
+        });
+    }
+
+    /// <summary>
+    /// Trenutno prijavljeni korisnik (provjera tokena).
+    /// </summary>
+    [HttpGet("me")]
+    [ProducesResponseType(typeof(UserDto), 200)]
+    [ProducesResponseType(401)]
+    public async Task<ActionResult<UserDto>> GetCurrentUser()
+    {
+        var user = await _userService.GetByUsernameAsync(User.Identity!.Name!);
+        if (user == null)
+        {
+            // Token je validan, ali korisnik više ne postoji (npr. obrisana baza)
+            return Unauthorized("Korisnik ne postoji.");
+        }
+
+        return Ok(MapToDto(user));
+    }
+
+    private static UserDto MapToDto(User user)
+    {
+        return new UserDto
+        {
+            Username = user.Username,
+            DisplayName = user.DisplayName,
+            Role = user.Role.ToString()
+        };
+    }
+}
@@ -5,17 +5,21 @@
  * 
  * Public API za slanje i praćenje poruka.
  * Kontroler je tanak - koristi servise iz shared library-ja.
+ *
+ * Čitanje je dozvoljeno svim prijavljenim korisnicima; slanje poruka traži Moderator ili Admin ulogu.
  */
 
 using System;
 using System.Collections.Generic;
 using System.Linq;
 using System.Threading.Tasks;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.SignalR;
 using AiAgents.SpamAgent.Domain;
 using AiAgents.SpamAgent.Application.Services;
 using AiAgents.SpamAgent.Application.Queries;
+using AiAgents.SpamAgent.Web.Auth;
 using AiAgents.SpamAgent.Web.Hubs;
 using AiAgents.SpamAgent.Web.Models;
 
@@ -24,26 +28,34 @@ namespace AiAgents.SpamAgent.Web.Controllers;
 [ApiController]
 [Route("api/[controller]")]
 [Produces("application/json")]
+[Authorize]
 public class MessagesController : ControllerBase
 {
     private readonly QueueService _queueService;
+    private readonly ScoringService _scoringService;
     private readonly MessageQueryService _queryService;
     private readonly IHubContext<SpamAgentHub> _hubContext;
+    private readonly HubEventLog _eventLog;
 
     public MessagesController(
         QueueService queueService,
+        ScoringService scoringService,
         MessageQueryService queryService,
-        IHubContext<SpamAgentHub> hubContext)
+        IHubContext<SpamAgentHub> hubContext,
+        HubEventLog eventLog)
     {
         _queueService = queueService;
+        _scoringService = scoringService;
         _queryService = queryService;
         _hubContext = hubContext;
+        _eventLog = eventLog;
     }
 
     /// <summary>
     /// Šalje novu poruku u queue za procesiranje.
     /// </summary>
     [HttpPost]
+    [Authorize(Roles = AuthRoles.Reviewers)]
     [ProducesResponseType(typeof(MessageDto), 201)]
     [ProducesResponseType(400)]
     public async Task<ActionResult<MessageDto>> SendMessage([FromBody] SendMessageRequest request)
@@ -53,7 +65,12 @@ public class MessagesController : ControllerBase
             return BadRequest("Text je obavezan.");
         }
 
-        var message = await _queueService.AddMessageAsync(request.Text);
+        if (!TryParseOptional<MessageSource>(request.Source, out var source))
+        {
+            return BadRequest($"Nepoznat source: {request.Source}");
+        }
+
+        var message = await _queueService.AddMessageAsync(request.Text, source ?? MessageSource.Runtime);
 
         // Emituj SignalR event
         var evt = new MessageQueuedEvent
@@ -64,7 +81,7 @@ public class MessagesController : ControllerBase
                 : message.Text,
             Timestamp = DateTime.UtcNow
         };
-        await _hubContext.SendMessageQueued(evt);
+        await _hubContext.SendMessageQueued(_eventLog, evt);
 
         // Dohvati puni DTO
         var details = await _queryService.GetByIdAsync(message.Id);
@@ -73,6 +90,105 @@ public class MessagesController : ControllerBase
         return CreatedAtAction(nameof(GetMessage), new { id = message.Id }, dto);
     }
 
+    /// <summary>
+    /// Bulk upload: dodaje chunk poruka u queue. Cijeli chunk se odbija ako ijedan red nije validan.
+    /// Vraćene poruke su istim redoslijedom kao u requestu.
+    /// </summary>
+    [HttpPost("batch")]
+    [Authorize(Roles = AuthRoles.Reviewers)]
+    [ProducesResponseType(typeof(List<MessageDto>), 200)]
+    [ProducesResponseType(400)]
+    public async Task<ActionResult<List<MessageDto>>> SendMessagesBatch([FromBody] SendMessagesBatchRequest request)
+    {
+        if (request.Messages.Count == 0)
+        {
+            return BadRequest("Batch je prazan.");
+        }
+
+        if (request.Messages.Count > QueueService.MaxBatchSize)
+        {
+            return BadRequest($"Najviše {QueueService.MaxBatchSize} poruka po zahtjevu.");
+        }
+
+        var items = new List<NewMessage>(request.Messages.Count);
+        for (var i = 0; i < request.Messages.Count; i++)
+        {
+            var row = request.Messages[i];
+
+            if (string.IsNullOrWhiteSpace(row.Text))
+                return BadRequest($"Red {i + 1}: text je obavezan.");
+            if (!TryParseOptional<MessageSource>(row.Source, out var source))
+                return BadRequest($"Red {i + 1}: nepoznat source: {row.Source}");
+            if (!TryParseOptional<Label>(row.TrueLabel, out var trueLabel))
+                return BadRequest($"Red {i + 1}: nepoznata labela: {row.TrueLabel}");
+
+            items.Add(new NewMessage(row.Text, source ?? MessageSource.Runtime, trueLabel));
+        }
+
+        var messages = await _queueService.AddMessagesAsync(items, HttpContext.RequestAborted);
+
+        foreach (var message in messages)
+        {
+            await _hubContext.SendMessageQueued(_eventLog, new MessageQueuedEvent
+            {
+                MessageId = message.Id,
+                Text = message.Text.Length > 50
+                    ? message.Text.Substring(0, 50) + "..."
+                    : message.Text,
+                Timestamp = message.CreatedAtUtc
+            });
+        }
+
+        return Ok(messages.Select(m => new MessageDto
+        {
+            Id = m.Id,
+            Text = m.Text,
+            Source = m.Source.ToString(),
+            Status = m.Status.ToString(),
+            TrueLabel = m.TrueLabel?.ToString(),
+            CreatedAtUtc = m.CreatedAtUtc
+        }).ToList());
+    }
+
+    /// <summary>
+    /// Scoruje tekst zadanim verzijama modela bez dodavanja u queue (playground).
+    /// Odluka koristi trenutne pragove; ništa se ne snima.
+    /// </summary>
+    [HttpPost("preview")]
+    [Authorize(Roles = AuthRoles.Reviewers)]
+    [ProducesResponseType(typeof(List<ScorePreviewDto>), 200)]
+    [ProducesResponseType(400)]
+    public async Task<ActionResult<List<ScorePreviewDto>>> PreviewScore([FromBody] ScorePreviewRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Text))
+        {
+            return BadRequest("Text je obavezan.");
+        }
+
+        if (request.ModelVersions.Count == 0)
+        {
+            return BadRequest("Izaberite barem jednu verziju modela.");
+        }
+
+        var (success, message, previews) = await _scoringService.PreviewAsync(
+            request.Text,
+            request.ModelVersions.Distinct().ToList(),
+            HttpContext.RequestAborted);
+
+        if (!success)
+        {
+            return BadRequest(message);
+        }
+
+        return Ok(previews.Select(p => new ScorePreviewDto
+        {
+            ModelVersion = p.ModelVersion,
+            IsActive = p.IsActive,
+            PSpam = p.PSpam,
+            Decision = p.Decision.ToString()
+        }).ToList());
+    }
+
     /// <summary>
     /// Dohvata poruku po ID-u sa zadnjom predikcijom.
     /// </summary>
@@ -91,6 +207,37 @@ public class MessagesController : ControllerBase
         return Ok(MapToDto(details));
     }
 
+    /// <summary>
+    /// Dohvata poruku sa svim predikcijama kroz verzije modela i review-om.
+    /// </summary>
+    [HttpGet("{id}/history")]
+    [ProducesResponseType(typeof(MessageHistoryDto), 200)]
+    [ProducesResponseType(404)]
+    public async Task<ActionResult<MessageHistoryDto>> GetMessageHistory(long id)
+    {
+        var history = await _queryService.GetHistoryAsync(id);
+
+        if (history == null)
+        {
+            return NotFound("Poruka nije pronađena.");
+        }
+
+        return Ok(new MessageHistoryDto
+        {
+            Message = MapToDto(history.Message),
+            Predictions = history.Predictions.Select(MapPredictionToDto).ToList(),
+            Review = history.Review != null ? new ReviewDto
+            {
+                MessageId = history.Review.MessageId,
+                Text = history.Review.Text,
+                Label = history.Review.Label.ToString(),
+                Note = history.Review.Note,
+                ReviewedBy = history.Review.ReviewedBy,
+                ReviewedAtUtc = history.Review.ReviewedAtUtc
+            } : null
+        });
+    }
+
     /// <summary>
     /// Dohvata nedavno procesirane poruke.
     /// </summary>
@@ -110,6 +257,79 @@ public class MessagesController : ControllerBase
         return Ok(messages.Select(MapToDto).ToList());
     }
 
+    /// <summary>
+    /// Pretraga poruka: full-text po tekstu, filteri, sortiranje i paginacija.
+    /// </summary>
+    [HttpGet("search")]
+    [ProducesResponseType(typeof(PagedResultDto<MessageDto>), 200)]
+    [ProducesResponseType(400)]
+    public async Task<ActionResult<PagedResultDto<MessageDto>>> SearchMessages([FromQuery] MessageSearchRequest request)
+    {
+        var criteria = new MessageSearchCriteria
+        {
+            Search = request.Q,
+            MinPSpam = request.MinPSpam,
+            MaxPSpam = request.MaxPSpam,
+            ModelVersion = request.ModelVersion,
+            FromUtc = request.From?.ToUniversalTime(),
+            ToUtc = request.To?.ToUniversalTime(),
+            Descending = !string.Equals(request.SortDir, "asc", StringComparison.OrdinalIgnoreCase),
+            Page = request.Page,
+            PageSize = request.PageSize
+        };
+
+        if (!TryParseOptional<MessageStatus>(request.Status, out var status))
+            return BadRequest($"Nepoznat status: {request.Status}");
+        if (!TryParseOptional<MessageSource>(request.Source, out var source))
+            return BadRequest($"Nepoznat source: {request.Source}");
+        if (!TryParseOptional<Label>(request.TrueLabel, out var trueLabel))
+            return BadRequest($"Nepoznata labela: {request.TrueLabel}");
+        if (!TryParseOptional<SpamDecision>(request.Decision, out var decision))
+            return BadRequest($"Nepoznata odluka: {request.Decision}");
+        if (!TryParseOptional<MessageSortField>(request.SortBy, out var sortBy))
+            return BadRequest($"Nepoznata kolona za sortiranje: {request.SortBy}");
+
+        criteria.Status = status;
+        criteria.Source = source;
+        criteria.TrueLabel = trueLabel;
+        criteria.Decision = decision;
+        criteria.SortBy = sortBy ?? MessageSortField.CreatedAt;
+
+        var result = await _queryService.SearchAsync(criteria);
+
+        return Ok(new PagedResultDto<MessageDto>
+        {
+            Items = result.Items.Select(MapToDto).ToList(),
+            TotalCount = result.TotalCount,
+            Page = result.Page,
+            PageSize = result.PageSize
+        });
+    }
+
+    /// <summary>
+    /// Confusion matrix za poruke sa poznatom labelom (opciono samo za jednu verziju modela).
+    /// Ćelije se otvaraju kroz search sa trueLabel + decision + modelVersion.
+    /// </summary>
+    [HttpGet("confusion")]
+    [ProducesResponseType(typeof(ConfusionMatrixDto), 200)]
+    public async Task<ActionResult<ConfusionMatrixDto>> GetConfusionMatrix([FromQuery] int? modelVersion = null)
+    {
+        var matrix = await _queryService.GetConfusionMatrixAsync(modelVersion);
+
+        return Ok(new ConfusionMatrixDto
+        {
+            ModelVersion = matrix.ModelVersion,
+            Cells = matrix.Cells
+                .Select(c => new ConfusionCellDto
+                {
+                    TrueLabel = c.TrueLabel.ToString(),
+                    Decision = c.Decision.ToString(),
+                    Count = c.Count
+                })
+                .ToList()
+        });
+    }
+
     /// <summary>
     /// Dohvata poruke u queue-u (čekaju procesiranje).
     /// </summary>
@@ -125,6 +345,7 @@ public class MessagesController : ControllerBase
     /// Dodaje batch poruka iz validation seta (za demo).
     /// </summary>
     [HttpPost("enqueue")]
+    [Authorize(Roles = AuthRoles.Reviewers)]
     [ProducesResponseType(typeof(object), 200)]
     public async Task<ActionResult> EnqueueFromValidation([FromQuery] int count = 10)
     {
@@ -151,6 +372,26 @@ public class MessagesController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Prazna vrijednost znači "bez filtera"; nepoznata vrijednost je greška.
+    /// </summary>
+    private static bool TryParseOptional<TEnum>(string? value, out TEnum? result) where TEnum : struct, Enum
+    {
+        result = null;
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            return true;
+        }
+
+        if (Enum.TryParse<TEnum>(value, true, out var parsed))
+        {
+            result = parsed;
+            return true;
+        }
+
+        return false;
+    }
+
     private static MessageDto MapToDto(MessageDetails m)
     {
         return new MessageDto
@@ -161,13 +402,18 @@ public class MessagesController : ControllerBase
             Status = m.Status.ToString(),
             TrueLabel = m.TrueLabel?.ToString(),
             CreatedAtUtc = m.CreatedAtUtc,
-            LastPrediction = m.LastPrediction != null ? new PredictionDto
-            {
-                PSpam = m.LastPrediction.PSpam,
-                Decision = m.LastPrediction.Decision.ToString(),
-                ModelVersion = m.LastPrediction.ModelVersion,
-                CreatedAtUtc = m.LastPrediction.CreatedAtUtc
-            } : null
+            LastPrediction = m.LastPrediction != null ? MapPredictionToDto(m.LastPrediction) : null
+        };
+    }
+
+    private static PredictionDto MapPredictionToDto(PredictionDetails p)
+    {
+        return new PredictionDto
+        {
+            PSpam = p.PSpam,
+            Decision = p.Decision.ToString(),
+            ModelVersion = p.ModelVersion,
+            CreatedAtUtc = p.CreatedAtUtc
         };
     }
 }
@@ -5,17 +5,21 @@
  * 
  * API za moderatorske review-e (gold labels).
  * Kontroler je tanak - koristi servise iz shared library-ja.
+ *
+ * Labeliranje traži Moderator ili Admin ulogu; ReviewedBy je korisničko ime iz tokena.
  */
 
 using System;
 using System.Collections.Generic;
 using System.Linq;
 using System.Threading.Tasks;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.SignalR;
 using AiAgents.SpamAgent.Domain;
 using AiAgents.SpamAgent.Application.Services;
 using AiAgents.SpamAgent.Application.Queries;
+using AiAgents.SpamAgent.Web.Auth;
 using AiAgents.SpamAgent.Web.Hubs;
 using AiAgents.SpamAgent.Web.Models;
 
@@ -24,23 +28,27 @@ namespace AiAgents.SpamAgent.Web.Controllers;
 [ApiController]
 [Route("api/[controller]")]
 [Produces("application/json")]
+[Authorize]
 public class ReviewController : ControllerBase
 {
     private readonly ReviewService _reviewService;
     private readonly MessageQueryService _messageQuery;
     private readonly AdminQueryService _adminQuery;
     private readonly IHubContext<SpamAgentHub> _hubContext;
+    private readonly HubEventLog _eventLog;
 
     public ReviewController(
         ReviewService reviewService,
         MessageQueryService messageQuery,
         AdminQueryService adminQuery,
-        IHubContext<SpamAgentHub> hubContext)
+        IHubContext<SpamAgentHub> hubContext,
+        HubEventLog eventLog)
     {
         _reviewService = reviewService;
         _messageQuery = messageQuery;
         _adminQuery = adminQuery;
         _hubContext = hubContext;
+        _eventLog = eventLog;
     }
 
     /// <summary>
@@ -69,6 +77,7 @@ public class ReviewController : ControllerBase
     /// Dodaje moderatorski review (gold label).
     /// </summary>
     [HttpPost("{messageId}")]
+    [Authorize(Roles = AuthRoles.Reviewers)]
     [ProducesResponseType(typeof(object), 200)]
     [ProducesResponseType(400)]
     [ProducesResponseType(404)]
@@ -93,7 +102,7 @@ public class ReviewController : ControllerBase
         var (success, resultMessage) = await _reviewService.AddReviewAsync(
             messageId, 
             label, 
-            request.ReviewedBy ?? "web-moderator",
+            User.Identity!.Name!,
             request.Note);
 
         if (!success)
@@ -113,33 +122,143 @@ public class ReviewController : ControllerBase
             Label = label.ToString(),
             Timestamp = DateTime.UtcNow
         };
-        await _hubContext.SendMessageMoved(movedEvt);
+        await _hubContext.SendMessageMoved(_eventLog, movedEvt);
 
         // Emituj stats update
-        var counts = await _messageQuery.GetCountsAsync();
-        var goldStats = await _adminQuery.GetGoldStatsAsync();
-        
-        var statsEvt = new StatsUpdatedEvent
+        var goldStats = await SendStatsUpdateAsync();
+
+        return Ok(new 
+        { 
+            success = true, 
+            message = resultMessage,
+            newStatus = messageAfter.Status.ToString(),
+            goldProgress = new 
+            { 
+                current = goldStats.NewGoldSinceLastTrain, 
+                threshold = goldStats.RetrainGoldThreshold,
+                willRetrain = goldStats.WillTriggerRetrain
+            }
+        });
+    }
+
+    /// <summary>
+    /// Zadnji moderatorski review-i (za reviziju gold labela).
+    /// </summary>
+    [HttpGet("recent")]
+    [ProducesResponseType(typeof(List<ReviewDto>), 200)]
+    public async Task<ActionResult<List<ReviewDto>>> GetRecentReviews([FromQuery] int take = 20)
+    {
+        var reviews = await _messageQuery.GetRecentReviewsAsync(take);
+        return Ok(reviews.Select(MapReviewToDto).ToList());
+    }
+
+    /// <summary>
+    /// Revidira postojeći review (mijenja gold label).
+    /// </summary>
+    [HttpPut("{messageId}")]
+    [Authorize(Roles = AuthRoles.Reviewers)]
+    [ProducesResponseType(typeof(object), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<ActionResult> ReviseReview(long messageId, [FromBody] ReviewRequest request)
+    {
+        if (!Enum.TryParse<Label>(request.Label, true, out var label))
         {
-            QueueStats = new QueueStatsDto
+            return BadRequest("Label mora biti 'ham' ili 'spam'.");
+        }
+
+        var messageBefore = await _messageQuery.GetByIdAsync(messageId);
+        if (messageBefore == null)
+        {
+            return NotFound("Poruka nije pronađena.");
+        }
+
+        var oldStatus = messageBefore.Status;
+
+        var (success, resultMessage) = await _reviewService.ReviseReviewAsync(
+            messageId,
+            label,
+            User.Identity!.Name!,
+            request.Note);
+
+        if (!success)
+        {
+            return BadRequest(resultMessage);
+        }
+
+        var messageAfter = await _messageQuery.GetByIdAsync(messageId);
+
+        // Emituj MessageMoved samo ako se folder promijenio
+        if (messageAfter!.Status != oldStatus)
+        {
+            var movedEvt = new MessageMovedEvent
             {
-                Queued = counts.Queued,
-                InInbox = counts.InInbox,
-                InSpam = counts.InSpam,
-                PendingReview = counts.PendingReview,
-                TotalProcessed = counts.TotalProcessed
-            },
-            NewGoldSinceLastTrain = goldStats.NewGoldSinceLastTrain,
-            RetrainGoldThreshold = goldStats.RetrainGoldThreshold,
+                MessageId = messageId,
+                OldStatus = oldStatus.ToString(),
+                NewStatus = messageAfter.Status.ToString(),
+                Label = label.ToString(),
+                Timestamp = DateTime.UtcNow
+            };
+            await _hubContext.SendMessageMoved(_eventLog, movedEvt);
+        }
+
+        var goldStats = await SendStatsUpdateAsync();
+
+        return Ok(new 
+        { 
+            success = true, 
+            message = resultMessage,
+            newStatus = messageAfter.Status.ToString(),
+            goldProgress = new 
+            { 
+                current = goldStats.NewGoldSinceLastTrain, 
+                threshold = goldStats.RetrainGoldThreshold,
+                willRetrain = goldStats.WillTriggerRetrain
+            }
+        });
+    }
+
+    /// <summary>
+    /// Poništava moderatorski review i vraća poruku u review queue.
+    /// </summary>
+    [HttpDelete("{messageId}")]
+    [Authorize(Roles = AuthRoles.Reviewers)]
+    [ProducesResponseType(typeof(object), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<ActionResult> RemoveReview(long messageId)
+    {
+        var messageBefore = await _messageQuery.GetByIdAsync(messageId);
+        if (messageBefore == null)
+        {
+            return NotFound("Poruka nije pronađena.");
+        }
+
+        var oldStatus = messageBefore.Status;
+
+        var (success, resultMessage) = await _reviewService.RemoveReviewAsync(messageId);
+        if (!success)
+        {
+            return BadRequest(resultMessage);
+        }
+
+        // Emituj MessageMoved event (nazad u review)
+        var movedEvt = new MessageMovedEvent
+        {
+            MessageId = messageId,
+            OldStatus = oldStatus.ToString(),
+            NewStatus = MessageStatus.PendingReview.ToString(),
             Timestamp = DateTime.UtcNow
         };
-        await _hubContext.SendStatsUpdated(statsEvt);
+        await _hubContext.SendMessageMoved(_eventLog, movedEvt);
+
+        var goldStats = await SendStatsUpdateAsync();
 
         return Ok(new 
         { 
             success = true, 
             message = resultMessage,
-            newStatus = messageAfter.Status.ToString(),
+            newStatus = MessageStatus.PendingReview.ToString(),
             goldProgress = new 
             { 
                 current = goldStats.NewGoldSinceLastTrain, 
@@ -172,6 +291,33 @@ public class ReviewController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Emituje StatsUpdated event i vraća trenutnu gold statistiku.
+    /// </summary>
+    private async Task<GoldStats> SendStatsUpdateAsync()
+    {
+        var counts = await _messageQuery.GetCountsAsync();
+        var goldStats = await _adminQuery.GetGoldStatsAsync();
+        
+        var statsEvt = new StatsUpdatedEvent
+        {
+            QueueStats = new QueueStatsDto
+            {
+                Queued = counts.Queued,
+                InInbox = counts.InInbox,
+                InSpam = counts.InSpam,
+                PendingReview = counts.PendingReview,
+                TotalProcessed = counts.TotalProcessed
+            },
+            NewGoldSinceLastTrain = goldStats.NewGoldSinceLastTrain,
+            RetrainGoldThreshold = goldStats.RetrainGoldThreshold,
+            Timestamp = DateTime.UtcNow
+        };
+        await _hubContext.SendStatsUpdated(statsEvt);
+
+        return goldStats;
+    }
+
     private static MessageDto MapToDto(MessageDetails m)
     {
         return new MessageDto
@@ -191,4 +337,17 @@ public class ReviewController : ControllerBase
             } : null
         };
     }
+
+    private static ReviewDto MapReviewToDto(ReviewDetails r)
+    {
+        return new ReviewDto
+        {
+            MessageId = r.MessageId,
+            Text = r.Text,
+            Label = r.Label.ToString(),
+            Note = r.Note,
+            ReviewedBy = r.ReviewedBy,
+            ReviewedAtUtc = r.ReviewedAtUtc
+        };
+    }
 }
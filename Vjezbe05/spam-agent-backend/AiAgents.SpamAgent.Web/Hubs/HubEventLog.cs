@@ -0,0 +1,114 @@
+/*
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *          SPAM AGENT WEB - HUB EVENT LOG
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * In-memory ring buffer zadnjih event-a iz "messages" grupe.
+ *
+ * Svaki event dobije rastući sequence broj (Seq). Klijent pamti zadnji
+ * primljeni Seq i nakon reconnect-a traži sve što je propustio
+ * (SpamAgentHub.GetEventsSince). Ako je rupa veća od buffera (ili je
+ * server restartovan), klijent mora ponovo učitati snapshot preko API-ja.
+ *
+ * Dodjela Seq-a i slanje idu pod istim gate-om (AppendAndSendAsync), inače
+ * bi dva paralelna pošiljaoca mogla poslati Seq N+1 prije N - klijent bi
+ * N odbacio kao već viđen.
+ */
+
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using AiAgents.SpamAgent.Web.Models;
+
+namespace AiAgents.SpamAgent.Web.Hubs;
+
+/// <summary>
+/// Singleton log sekvenciranih hub event-a za replay nakon reconnect-a.
+/// </summary>
+public class HubEventLog
+{
+    /// <summary>Koliko zadnjih event-a se čuva za replay</summary>
+    public const int Capacity = 1000;
+
+    private readonly LinkedList<HubEventEnvelope> _events = new();
+    private readonly object _lock = new();
+    private readonly SemaphoreSlim _sendGate = new(1, 1);
+    private long _lastSeq;
+
+    /// <summary>
+    /// Upisuje event i šalje ga klijentima; sljedeći event čeka da ovaj ode,
+    /// pa klijenti dobijaju event-e redom po Seq-u.
+    /// </summary>
+    public async Task AppendAndSendAsync(string eventName, ISequencedEvent evt, Func<Task> send)
+    {
+        await _sendGate.WaitAsync();
+        try
+        {
+            Append(eventName, evt);
+            await send();
+        }
+        finally
+        {
+            _sendGate.Release();
+        }
+    }
+
+    /// <summary>
+    /// Dodjeljuje sljedeći Seq event-u i upisuje ga u log.
+    /// </summary>
+    public HubEventEnvelope Append(string eventName, ISequencedEvent evt)
+    {
+        lock (_lock)
+        {
+            evt.Seq = ++_lastSeq;
+
+            var envelope = new HubEventEnvelope
+            {
+                Seq = evt.Seq,
+                EventName = eventName,
+                Payload = evt
+            };
+
+            _events.AddLast(envelope);
+            if (_events.Count > Capacity)
+            {
+                _events.RemoveFirst();
+            }
+
+            return envelope;
+        }
+    }
+
+    /// <summary>
+    /// Zadnji dodijeljeni Seq (0 ako još nije bilo event-a).
+    /// </summary>
+    public long LatestSeq
+    {
+        get { lock (_lock) return _lastSeq; }
+    }
+
+    /// <summary>
+    /// Vraća event-e sa Seq većim od afterSeq, ili GapTooLarge ako ih log više nema.
+    /// </summary>
+    public HubReplayResult GetSince(long afterSeq)
+    {
+        lock (_lock)
+        {
+            var oldestSeq = _events.First?.Value.Seq ?? _lastSeq + 1;
+
+            // afterSeq > _lastSeq znači da je server restartovan i Seq krenuo ispočetka
+            var gapTooLarge = afterSeq > _lastSeq || afterSeq + 1 < oldestSeq;
+
+            return new HubReplayResult
+            {
+                Events = gapTooLarge
+                    ? new List<HubEventEnvelope>()
+                    : _events.Where(e => e.Seq > afterSeq).ToList(),
+                LatestSeq = _lastSeq,
+                GapTooLarge = gapTooLarge
+            };
+        }
+    }
+}
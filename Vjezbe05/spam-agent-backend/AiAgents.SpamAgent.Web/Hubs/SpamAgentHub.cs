@@ -7,28 +7,56 @@
  * 
  * GRUPE:
  *   - "messages": MessageQueued, MessageScored, MessageMoved
- *   - "models": ModelRetrained, ModelActivated
+ *   - "review": MessageScored (samo PendingReview), MessageMoved
+ *   - "models": ModelRetrained, ModelActivated, TrainingJobUpdated
  *   - "stats": StatsUpdated (periodično)
  * 
- * Klijent se može subscribati na grupe pozivom:
+ * Klijent ne dobija ništa dok se ne pridruži grupama koje mu trebaju:
  *   - JoinGroup("messages")
  *   - LeaveGroup("messages")
+ * Grupe se gube pri reconnect-u - klijent ih mora ponovo pridružiti.
+ *
+ * Event-i iz "messages" grupe imaju Seq i čuvaju se u HubEventLog-u.
+ * Nakon reconnect-a klijent poziva GetEventsSince(lastSeq) za replay.
+ *
+ * Konekcija traži JWT (query parametar access_token, jer WebSocket ne šalje
+ * Authorization header); sve uloge primaju iste event-e.
  */
 
 using System;
+using System.Collections.Generic;
 using System.Threading.Tasks;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.SignalR;
+using AiAgents.SpamAgent.Domain;
 using AiAgents.SpamAgent.Web.Models;
 
 namespace AiAgents.SpamAgent.Web.Hubs;
 
+[Authorize]
 public class SpamAgentHub : Hub
 {
+    /// <summary>Grupe kojima se klijent može pridružiti</summary>
+    public static readonly IReadOnlySet<string> KnownGroups =
+        new HashSet<string> { "messages", "review", "models", "stats" };
+
+    private readonly HubEventLog _eventLog;
+
+    public SpamAgentHub(HubEventLog eventLog)
+    {
+        _eventLog = eventLog;
+    }
+
     /// <summary>
     /// Klijent se pridružuje grupi za primanje određenih event-a.
     /// </summary>
     public async Task JoinGroup(string groupName)
     {
+        if (!KnownGroups.Contains(groupName))
+        {
+            throw new HubException($"Nepoznata grupa: {groupName}");
+        }
+
         await Groups.AddToGroupAsync(Context.ConnectionId, groupName);
         await Clients.Caller.SendAsync("Joined", groupName);
     }
@@ -50,14 +78,20 @@ public class SpamAgentHub : Hub
         await Clients.Caller.SendAsync("Pong", DateTime.UtcNow);
     }
 
-    public override async Task OnConnectedAsync()
+    /// <summary>
+    /// Zadnji Seq - klijent ga uzima pri prvom spajanju kao početnu tačku.
+    /// </summary>
+    public long GetLatestSeq()
+    {
+        return _eventLog.LatestSeq;
+    }
+
+    /// <summary>
+    /// Vraća event-e propuštene nakon afterSeq (replay nakon reconnect-a).
+    /// </summary>
+    public HubReplayResult GetEventsSince(long afterSeq)
     {
-        // Automatski pridruži svim grupama (za jednostavnost)
-        await Groups.AddToGroupAsync(Context.ConnectionId, "messages");
-        await Groups.AddToGroupAsync(Context.ConnectionId, "models");
-        await Groups.AddToGroupAsync(Context.ConnectionId, "stats");
-        
-        await base.OnConnectedAsync();
+        return _eventLog.GetSince(afterSeq);
     }
 }
 
@@ -68,23 +102,40 @@ public static class SpamAgentHubExtensions
 {
     public static async Task SendMessageQueued(
         this IHubContext<SpamAgentHub> hub, 
+        HubEventLog eventLog,
         MessageQueuedEvent evt)
     {
-        await hub.Clients.Group("messages").SendAsync("MessageQueued", evt);
+        await eventLog.AppendAndSendAsync("MessageQueued", evt, () =>
+            hub.Clients.Group("messages").SendAsync("MessageQueued", evt));
     }
 
     public static async Task SendMessageScored(
         this IHubContext<SpamAgentHub> hub, 
+        HubEventLog eventLog,
         MessageScoredEvent evt)
     {
-        await hub.Clients.Group("messages").SendAsync("MessageScored", evt);
+        await eventLog.AppendAndSendAsync("MessageScored", evt, async () =>
+        {
+            await hub.Clients.Group("messages").SendAsync("MessageScored", evt);
+
+            // Review ekran zanimaju samo poruke koje čekaju moderatora
+            if (evt.NewStatus == nameof(MessageStatus.PendingReview))
+            {
+                await hub.Clients.Group("review").SendAsync("MessageScored", evt);
+            }
+        });
     }
 
     public static async Task SendMessageMoved(
         this IHubContext<SpamAgentHub> hub, 
+        HubEventLog eventLog,
         MessageMovedEvent evt)
     {
-        await hub.Clients.Group("messages").SendAsync("MessageMoved", evt);
+        await eventLog.AppendAndSendAsync("MessageMoved", evt, async () =>
+        {
+            await hub.Clients.Group("messages").SendAsync("MessageMoved", evt);
+            await hub.Clients.Group("review").SendAsync("MessageMoved", evt);
+        });
     }
 
     public static async Task SendModelRetrained(
@@ -96,9 +147,16 @@ public static class SpamAgentHubExtensions
 
     public static async Task SendModelActivated(
         this IHubContext<SpamAgentHub> hub, 
-        int modelVersion)
+        ModelActivatedEvent evt)
+    {
+        await hub.Clients.Group("models").SendAsync("ModelActivated", evt);
+    }
+
+    public static async Task SendTrainingJobUpdated(
+        this IHubContext<SpamAgentHub> hub, 
+        TrainingJobDto job)
     {
-        await hub.Clients.Group("models").SendAsync("ModelActivated", new { Version = modelVersion, Timestamp = DateTime.UtcNow });
+        await hub.Clients.Group("models").SendAsync("TrainingJobUpdated", job);
     }
 
     public static async Task SendStatsUpdated(
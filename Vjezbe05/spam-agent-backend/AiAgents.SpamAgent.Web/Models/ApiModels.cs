@@ -20,17 +20,52 @@ namespace AiAgents.SpamAgent.Web.Models;
 public class SendMessageRequest
 {
     public string Text { get; set; } = string.Empty;
-    public string? Source { get; set; }
+    public string? Source { get; set; }     // Runtime (default) ili Uci
+}
+
+/// <summary>
+/// Request za bulk upload - jedan chunk poruka iz CSV/JSON fajla.
+/// </summary>
+public class SendMessagesBatchRequest
+{
+    public List<BatchMessageItem> Messages { get; set; } = new();
 }
 
 /// <summary>
-/// Request za moderatorski review.
+/// Jedan red bulk upload-a.
+/// </summary>
+public class BatchMessageItem
+{
+    public string Text { get; set; } = string.Empty;
+    public string? Source { get; set; }     // Runtime (default) ili Uci
+    public string? TrueLabel { get; set; }  // ham, spam ili prazno
+}
+
+/// <summary>
+/// Request za scorovanje teksta zadanim verzijama modela (bez snimanja).
+/// </summary>
+public class ScorePreviewRequest
+{
+    public string Text { get; set; } = string.Empty;
+    public List<int> ModelVersions { get; set; } = new();
+}
+
+/// <summary>
+/// Request za moderatorski review. Reviewer se uzima iz tokena prijavljenog korisnika.
 /// </summary>
 public class ReviewRequest
 {
     public string Label { get; set; } = string.Empty; // "ham" ili "spam"
     public string? Note { get; set; }
-    public string? ReviewedBy { get; set; }
+}
+
+/// <summary>
+/// Request za prijavu.
+/// </summary>
+public class LoginRequest
+{
+    public string Username { get; set; } = string.Empty;
+    public string Password { get; set; } = string.Empty;
 }
 
 /// <summary>
@@ -39,9 +74,22 @@ public class ReviewRequest
 public class TrainRequest
 {
     public string Template { get; set; } = "Medium"; // Light, Medium, Full
+    public int? ConfigId { get; set; }               // custom konfiguracija (ima prednost nad Template)
     public bool Activate { get; set; } = true;
 }
 
+/// <summary>
+/// Request za kreiranje/izmjenu custom training konfiguracije.
+/// </summary>
+public class TrainingConfigRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public int? TrainSetSize { get; set; }           // null = cijeli train pool
+    public double GoldWeight { get; set; } = 1.0;
+    public string Balancing { get; set; } = "None";  // None, Undersample, Oversample, Weighted
+    public int Seed { get; set; } = 42;
+}
+
 /// <summary>
 /// Request za postavljanje pragova.
 /// </summary>
@@ -60,11 +108,49 @@ public class SettingsRequest
     public double? ThresholdBlock { get; set; }
     public int? RetrainGoldThreshold { get; set; }
     public bool? AutoRetrainEnabled { get; set; }
+    public int? AutoRetrainConfigId { get; set; }    // 0 = nazad na default preset
+    public bool? PromotionGuardEnabled { get; set; }
+    public double? PromotionMaxF1Drop { get; set; }
+    public double? PromotionMinRecall { get; set; }    // 0 = bez pravila
+    public double? PromotionMinPrecision { get; set; } // 0 = bez pravila
     public bool? SimulatorEnabled { get; set; }
     public int? SimulatorIntervalMs { get; set; }
     public int? SimulatorBatchSize { get; set; }
 }
 
+/// <summary>
+/// Request za simulator - sva polja opciona, mijenja se samo ono što je poslano.
+/// </summary>
+public class SimulatorRequest
+{
+    public bool? Enabled { get; set; }
+    public int? IntervalMs { get; set; }     // 500 - 60000
+    public int? BatchSize { get; set; }      // 1 - 10
+    public string? Scenario { get; set; }    // Natural, SpamBurst, HamHeavyDay, Balanced
+    public int? DurationSec { get; set; }    // scenarij se po isteku vraća na Natural
+}
+
+/// <summary>
+/// Query parametri za pretragu poruka (message explorer).
+/// </summary>
+public class MessageSearchRequest
+{
+    public string? Q { get; set; }
+    public string? Status { get; set; }
+    public string? Source { get; set; }
+    public string? TrueLabel { get; set; }
+    public double? MinPSpam { get; set; }
+    public double? MaxPSpam { get; set; }
+    public string? Decision { get; set; }
+    public int? ModelVersion { get; set; }
+    public DateTime? From { get; set; }
+    public DateTime? To { get; set; }
+    public string? SortBy { get; set; }       // createdAt, id, status, source, pSpam
+    public string? SortDir { get; set; }      // asc, desc
+    public int Page { get; set; } = 1;
+    public int PageSize { get; set; } = 25;
+}
+
 // ════════════════════════════════════════════════════════════════════════════════
 //                     RESPONSE MODELI
 // ════════════════════════════════════════════════════════════════════════════════
@@ -94,6 +180,40 @@ public class PredictionDto
     public DateTime CreatedAtUtc { get; set; }
 }
 
+/// <summary>
+/// Jedna stranica rezultata pretrage.
+/// </summary>
+public class PagedResultDto<T>
+{
+    public List<T> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+}
+
+/// <summary>
+/// Poruka sa svim predikcijama i review-om (detaljni prikaz).
+/// </summary>
+public class MessageHistoryDto
+{
+    public MessageDto Message { get; set; } = new();
+    public List<PredictionDto> Predictions { get; set; } = new();
+    public ReviewDto? Review { get; set; }
+}
+
+/// <summary>
+/// Moderatorski review (gold label).
+/// </summary>
+public class ReviewDto
+{
+    public long MessageId { get; set; }
+    public string Text { get; set; } = string.Empty;
+    public string Label { get; set; } = string.Empty;
+    public string? Note { get; set; }
+    public string ReviewedBy { get; set; } = string.Empty;
+    public DateTime ReviewedAtUtc { get; set; }
+}
+
 /// <summary>
 /// Informacija o verziji modela.
 /// </summary>
@@ -102,6 +222,8 @@ public class ModelVersionDto
     public int Id { get; set; }
     public int Version { get; set; }
     public string TrainTemplate { get; set; } = string.Empty;
+    public string? TrainingConfigName { get; set; }
+    public string Trigger { get; set; } = string.Empty;
     public int TrainSetSize { get; set; }
     public int GoldIncludedCount { get; set; }
     public int ValidationSetSize { get; set; }
@@ -109,9 +231,24 @@ public class ModelVersionDto
     public double ThresholdAllow { get; set; }
     public double ThresholdBlock { get; set; }
     public bool IsActive { get; set; }
+    public string PromotionDecision { get; set; } = string.Empty;
+    public string? PromotionReason { get; set; }
+    public List<PromotionCheckDto> PromotionChecks { get; set; } = new();
     public DateTime CreatedAtUtc { get; set; }
 }
 
+/// <summary>
+/// Evaluirano promotion pravilo (Actual ≥ Required).
+/// </summary>
+public class PromotionCheckDto
+{
+    public string Metric { get; set; } = string.Empty;
+    public double Actual { get; set; }
+    public double Required { get; set; }
+    public double? Baseline { get; set; }
+    public bool Passed { get; set; }
+}
+
 /// <summary>
 /// Metrike modela.
 /// </summary>
@@ -123,6 +260,134 @@ public class MetricsDto
     public double F1 { get; set; }
 }
 
+/// <summary>
+/// Training job (trening koji radi u pozadini).
+/// </summary>
+public class TrainingJobDto
+{
+    public Guid Id { get; set; }
+    public string Template { get; set; } = string.Empty;
+    public string? ConfigName { get; set; }
+    public bool Activate { get; set; }
+    public string Status { get; set; } = string.Empty;
+    public string Stage { get; set; } = string.Empty;
+    public int Progress { get; set; }
+    public int? ModelVersion { get; set; }
+    public string? Error { get; set; }
+    public DateTime StartedAtUtc { get; set; }
+    public DateTime? FinishedAtUtc { get; set; }
+    public long DurationMs { get; set; }
+    public bool CanCancel { get; set; }
+}
+
+/// <summary>
+/// Custom training konfiguracija.
+/// </summary>
+public class TrainingConfigDto
+{
+    public int Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public int? TrainSetSize { get; set; }
+    public double GoldWeight { get; set; }
+    public string Balancing { get; set; } = string.Empty;
+    public int Seed { get; set; }
+    public DateTime CreatedAtUtc { get; set; }
+    public DateTime UpdatedAtUtc { get; set; }
+}
+
+/// <summary>
+/// Status simulatora.
+/// </summary>
+public class SimulatorStatusDto
+{
+    public bool Available { get; set; }
+    public bool Enabled { get; set; }
+    public int IntervalMs { get; set; }
+    public int BatchSize { get; set; }
+    public string Scenario { get; set; } = string.Empty;
+    public double? SpamRatio { get; set; }             // null = prirodni omjer dataseta
+    public DateTime? ScenarioEndsAtUtc { get; set; }
+    public List<SimulatorScenarioDto> Scenarios { get; set; } = new();
+}
+
+/// <summary>
+/// Preset scenarija simulatora.
+/// </summary>
+public class SimulatorScenarioDto
+{
+    public string Name { get; set; } = string.Empty;
+    public string Description { get; set; } = string.Empty;
+    public double? SpamRatio { get; set; }
+    public int? IntervalMs { get; set; }
+    public int? BatchSize { get; set; }
+}
+
+/// <summary>
+/// Confusion matrix (prava labela × odluka).
+/// </summary>
+public class ConfusionMatrixDto
+{
+    public int? ModelVersion { get; set; }
+    public List<ConfusionCellDto> Cells { get; set; } = new();
+}
+
+/// <summary>
+/// Jedna ćelija confusion matrice.
+/// </summary>
+public class ConfusionCellDto
+{
+    public string TrueLabel { get; set; } = string.Empty;
+    public string Decision { get; set; } = string.Empty;
+    public int Count { get; set; }
+}
+
+/// <summary>
+/// pSpam i odluka jedne verzije modela za playground tekst.
+/// </summary>
+public class ScorePreviewDto
+{
+    public int ModelVersion { get; set; }
+    public bool IsActive { get; set; }
+    public double PSpam { get; set; }
+    public string Decision { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Validacijski score-ovi verzije modela (za PR/ROC krive).
+/// </summary>
+public class ValidationScoresDto
+{
+    public int Version { get; set; }
+    public List<ValidationScoreDto> Scores { get; set; } = new();
+}
+
+/// <summary>
+/// pSpam i prava labela jedne validacijske poruke.
+/// </summary>
+public class ValidationScoreDto
+{
+    public double PSpam { get; set; }
+    public bool IsSpam { get; set; }
+}
+
+/// <summary>
+/// Uzorak predikcija za preview pragova.
+/// </summary>
+public class ThresholdSamplesDto
+{
+    public int? ModelVersion { get; set; }
+    public List<ThresholdSampleDto> Samples { get; set; } = new();
+}
+
+/// <summary>
+/// Predikcija sa pravom labelom.
+/// </summary>
+public class ThresholdSampleDto
+{
+    public double PSpam { get; set; }
+    public string TrueLabel { get; set; } = string.Empty;
+}
+
 /// <summary>
 /// Status sistema.
 /// </summary>
@@ -144,6 +409,12 @@ public class SettingsDto
     public int RetrainGoldThreshold { get; set; }
     public int NewGoldSinceLastTrain { get; set; }
     public bool AutoRetrainEnabled { get; set; }
+    public int? AutoRetrainConfigId { get; set; }
+    public string? AutoRetrainConfigName { get; set; }
+    public bool PromotionGuardEnabled { get; set; }
+    public double PromotionMaxF1Drop { get; set; }
+    public double PromotionMinRecall { get; set; }
+    public double PromotionMinPrecision { get; set; }
     public DateTime? LastRetrainAtUtc { get; set; }
 }
 
@@ -174,15 +445,44 @@ public class DatasetStatsDto
     public int TotalGoldLabels { get; set; }
 }
 
+/// <summary>
+/// Prijavljeni korisnik.
+/// </summary>
+public class UserDto
+{
+    public string Username { get; set; } = string.Empty;
+    public string DisplayName { get; set; } = string.Empty;
+    public string Role { get; set; } = string.Empty; // Viewer, Moderator, Admin
+}
+
+/// <summary>
+/// Rezultat prijave: bearer token i korisnik.
+/// </summary>
+public class LoginResponseDto
+{
+    public string Token { get; set; } = string.Empty;
+    public DateTime ExpiresAtUtc { get; set; }
+    public UserDto User { get; set; } = new();
+}
+
 // ════════════════════════════════════════════════════════════════════════════════
 //                     SIGNALR EVENT MODELI
 // ════════════════════════════════════════════════════════════════════════════════
 
+/// <summary>
+/// Event sa sequence brojem (vidi HubEventLog) - može se replay-ati nakon reconnect-a.
+/// </summary>
+public interface ISequencedEvent
+{
+    long Seq { get; set; }
+}
+
 /// <summary>
 /// Event kad se poruka doda u queue.
 /// </summary>
-public class MessageQueuedEvent
+public class MessageQueuedEvent : ISequencedEvent
 {
+    public long Seq { get; set; }
     public long MessageId { get; set; }
     public string Text { get; set; } = string.Empty;
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
@@ -191,8 +491,9 @@ public class MessageQueuedEvent
 /// <summary>
 /// Event kad se poruka scoruje.
 /// </summary>
-public class MessageScoredEvent
+public class MessageScoredEvent : ISequencedEvent
 {
+    public long Seq { get; set; }
     public long MessageId { get; set; }
     public string TextPreview { get; set; } = string.Empty;
     public double PSpam { get; set; }
@@ -200,14 +501,16 @@ public class MessageScoredEvent
     public string NewStatus { get; set; } = string.Empty;
     public string? TrueLabel { get; set; }
     public bool? IsCorrect { get; set; }
+    public int ModelVersion { get; set; }
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
 }
 
 /// <summary>
 /// Event kad se poruka premjesti (review).
 /// </summary>
-public class MessageMovedEvent
+public class MessageMovedEvent : ISequencedEvent
 {
+    public long Seq { get; set; }
     public long MessageId { get; set; }
     public string OldStatus { get; set; } = string.Empty;
     public string NewStatus { get; set; } = string.Empty;
@@ -224,6 +527,18 @@ public class ModelRetrainedEvent
     public string Template { get; set; } = string.Empty;
     public MetricsDto Metrics { get; set; } = new();
     public bool IsActivated { get; set; }
+    public string PromotionDecision { get; set; } = string.Empty;
+    public string? PromotionReason { get; set; }
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Event kada je postojeći model ručno aktiviran.
+/// </summary>
+public class ModelActivatedEvent
+{
+    public int Version { get; set; }
+    public ModelVersionDto Model { get; set; } = new();
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
 }
 
@@ -237,3 +552,25 @@ public class StatsUpdatedEvent
     public int RetrainGoldThreshold { get; set; }
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
 }
+
+/// <summary>
+/// Sačuvani hub event: ime event-a + payload kakav je poslan klijentima.
+/// </summary>
+public class HubEventEnvelope
+{
+    public long Seq { get; set; }
+    public string EventName { get; set; } = string.Empty;
+    public object Payload { get; set; } = null!;
+}
+
+/// <summary>
+/// Rezultat replay-a propuštenih event-a.
+/// </summary>
+public class HubReplayResult
+{
+    public List<HubEventEnvelope> Events { get; set; } = new();
+    public long LatestSeq { get; set; }
+
+    /// <summary>Log više nema sve tražene event-e - klijent treba novi snapshot</summary>
+    public bool GapTooLarge { get; set; }
+}
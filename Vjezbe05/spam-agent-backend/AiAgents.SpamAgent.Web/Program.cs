@@ -9,19 +9,26 @@
  *   - ScoringAgentRunner (Background): Sense → Think → Act
  *   - RetrainAgentRunner (Background): Sense → Think → Act → Learn
  *   - Simulator (Background, opciono): generira poruke za demo
+ *   - TrainingJobService: ručni trening kao asinhroni job sa progresom
+ *
+ * Autentikacija: JWT (POST /api/auth/login), uloge Viewer / Moderator / Admin.
  *
  * Svi servisi su registrovani kroz AddSpamAgentServices() extension metodu.
  */
 
 using System;
 using System.IO;
+using System.Threading.Tasks;
+using Microsoft.AspNetCore.Authentication.JwtBearer;
 using Microsoft.AspNetCore.Builder;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Hosting;
 using Microsoft.OpenApi.Models;
 using AiAgents.SpamAgent;
 using AiAgents.SpamAgent.ML;
+using AiAgents.SpamAgent.Web.Auth;
 using AiAgents.SpamAgent.Web.Hubs;
 using AiAgents.SpamAgent.Web.BackgroundServices;
 
@@ -58,6 +65,38 @@ builder.Services.AddSpamAgentServices(
 //                     WEB SERVICES
 // ═══════════════════════════════════════════════════════════════════════════════
 
+// Autentikacija (JWT) - REST šalje Authorization header, SignalR access_token u query-ju
+var authOptions = builder.Configuration.GetSection(AuthOptions.SectionName).Get<AuthOptions>() ?? new AuthOptions();
+if (authOptions.SigningKey.Length < 32)
+{
+    throw new InvalidOperationException("Auth:SigningKey mora imati najmanje 32 znaka (appsettings.json).");
+}
+
+builder.Services.AddSingleton(authOptions);
+builder.Services.AddSingleton<JwtTokenService>();
+
+builder.Services
+    .AddAuthentication(JwtBearerDefaults.AuthenticationScheme)
+    .AddJwtBearer(options =>
+    {
+        options.MapInboundClaims = false;
+        options.TokenValidationParameters = JwtTokenService.CreateValidationParameters(authOptions);
+        options.Events = new JwtBearerEvents
+        {
+            OnMessageReceived = context =>
+            {
+                var accessToken = context.Request.Query["access_token"];
+                if (!string.IsNullOrEmpty(accessToken) && context.HttpContext.Request.Path.StartsWithSegments("/hubs"))
+                {
+                    context.Token = accessToken;
+                }
+                return Task.CompletedTask;
+            }
+        };
+    });
+
+builder.Services.AddAuthorization();
+
 // SignalR
 builder.Services.AddSignalR();
 
@@ -87,6 +126,19 @@ SMS Spam Classification Agent API
             Name = "AI Agents Demo"
         }
     });
+
+    // "Authorize" dugme u Swagger UI-u - token iz POST /api/auth/login
+    var bearerScheme = new OpenApiSecurityScheme
+    {
+        Name = "Authorization",
+        Type = SecuritySchemeType.Http,
+        Scheme = "bearer",
+        BearerFormat = "JWT",
+        In = ParameterLocation.Header,
+        Reference = new OpenApiReference { Type = ReferenceType.SecurityScheme, Id = "Bearer" }
+    };
+    c.AddSecurityDefinition("Bearer", bearerScheme);
+    c.AddSecurityRequirement(new OpenApiSecurityRequirement { [bearerScheme] = Array.Empty<string>() });
 });
 
 // CORS
@@ -102,11 +154,15 @@ builder.Services.AddCors(options =>
     });
 });
 
+// Log hub event-a za replay nakon reconnect-a
+builder.Services.AddSingleton<HubEventLog>();
+
 // Background Services
 builder.Services.AddHostedService<ScoringWorkerService>();
 builder.Services.AddHostedService<RetrainWorkerService>();
 builder.Services.AddSingleton<SimulatorService>();
 builder.Services.AddHostedService(sp => sp.GetRequiredService<SimulatorService>());
+builder.Services.AddSingleton<TrainingJobService>();
 
 // ═══════════════════════════════════════════════════════════════════════════════
 //                     BUILD APP
@@ -133,6 +189,9 @@ app.UseRouting();
 // CORS
 app.UseCors("OpenCors");
 
+// Autentikacija i uloge
+app.UseAuthentication();
+app.UseAuthorization();
 
 // Endpoints
 app.MapControllers();
@@ -147,7 +206,10 @@ Console.WriteLine();
 Console.WriteLine("  Swagger UI:    http://localhost:5000");
 Console.WriteLine("  SignalR Hub:   http://localhost:5000/hubs/spamAgent");
 Console.WriteLine();
+Console.WriteLine("  Demo nalozi:   admin / admin123, moderator / moderator123, viewer / viewer123");
+Console.WriteLine();
 Console.WriteLine("  Quick Start:");
+Console.WriteLine("    0. POST /api/auth/login       → token (Swagger: Authorize)");
 Console.WriteLine("    1. POST /api/admin/import     → importuj dataset");
 Console.WriteLine("    2. POST /api/admin/train      → treniraj model");
 Console.WriteLine("    3. POST /api/messages/enqueue → dodaj poruke u queue");
@@ -9,12 +9,13 @@
  *
  *   SENSE:  Provjeri NewGoldSinceLastTrain counter
  *   THINK:  Odluči da li treba retrenirati (counter >= threshold)
- *   ACT:    Pokreni trening novog modela i aktiviraj ga
+ *   ACT:    Pokreni trening novog modela i aktiviraj ga ako prođe promotion pravila
  *   LEARN:  Reset counter, logiraj rezultat
  *
  * NAPOMENA:
  *   - Koristi scoped DbContext (worker radi scope-per-iteration)
  *   - Sva logika je async, bez .Wait() ili .Result
+ *   - Dok radi drugi trening (npr. ručni job), tick se preskače
  *
  * RAZLIKA OD DEMO VERZIJE:
  *   - Demo verzija (DemoAgents/RetrainAgentDemo.cs) koristi SoftwareAgent<T> baznu klasu
@@ -65,6 +66,7 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
 
         var settings = await _context.SystemSettings
             .AsNoTracking()
+            .Include(s => s.AutoRetrainConfig)
             .FirstAsync(ct);
 
         var state = new RetrainState
@@ -88,10 +90,13 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
         if (state.NewGoldCount < state.Threshold)
             return null; // Još nedovoljno gold labela
 
+        if (TrainingService.IsTraining)
+            return null; // Ručni trening u toku - counter ostaje, pokušaj u sljedećem tick-u
+
         ct.ThrowIfCancellationRequested();
 
         // ═══════════════════════════════════════════════════════════════════
-        // ACT: Treniraj novi model i aktiviraj ga
+        // ACT: Treniraj novi model i aktiviraj ga (ako prođe promotion pravila)
         // ═══════════════════════════════════════════════════════════════════
 
         try
@@ -101,7 +106,10 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
             // - upis ModelVersion u bazu
             // - aktivaciju modela
             // - reset counter-a NewGoldSinceLastTrain
-            var model = await _trainingService.TrainModelAsync(_defaultTemplate, activate: true, ct);
+            // Izabrana custom konfiguracija ima prednost nad default preset-om
+            var model = settings.AutoRetrainConfig != null
+                ? await _trainingService.TrainModelAsync(settings.AutoRetrainConfig, activate: true, TrainTrigger.AutoRetrain, ct)
+                : await _trainingService.TrainModelAsync(_defaultTemplate, activate: true, TrainTrigger.AutoRetrain, ct);
 
             // ═══════════════════════════════════════════════════════════════════
             // LEARN: Rezultat (counter je već resetovan u TrainingService)
@@ -112,6 +120,7 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
                 Success = true,
                 NewModelVersion = model.Version,
                 Template = model.TrainTemplate,
+                TrainingConfigName = model.TrainingConfigName,
                 Metrics = new RetrainMetrics
                 {
                     Accuracy = model.Accuracy,
@@ -121,7 +130,9 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
                 },
                 TrainSetSize = model.TrainSetSize,
                 GoldIncludedCount = model.GoldIncludedCount,
-                Activated = true,
+                Activated = model.IsActive,
+                PromotionDecision = model.PromotionDecision,
+                PromotionReason = model.PromotionReason,
                 Reason = $"Auto-retrain: {state.NewGoldCount} gold labela (threshold: {state.Threshold})",
                 Timestamp = DateTime.UtcNow
             };
@@ -153,13 +164,14 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
 
         try
         {
-            var model = await _trainingService.TrainModelAsync(tmpl, activate, ct);
+            var model = await _trainingService.TrainModelAsync(tmpl, activate, TrainTrigger.Manual, ct);
 
             return new RetrainTickResult
             {
                 Success = true,
                 NewModelVersion = model.Version,
                 Template = model.TrainTemplate,
+                TrainingConfigName = model.TrainingConfigName,
                 Metrics = new RetrainMetrics
                 {
                     Accuracy = model.Accuracy,
@@ -169,7 +181,9 @@ public sealed class RetrainAgent : ITickAgent<RetrainTickResult>
                 },
                 TrainSetSize = model.TrainSetSize,
                 GoldIncludedCount = model.GoldIncludedCount,
-                Activated = activate,
+                Activated = model.IsActive,
+                PromotionDecision = model.PromotionDecision,
+                PromotionReason = model.PromotionReason,
                 Reason = "Forsirani retrain",
                 Timestamp = DateTime.UtcNow
             };
@@ -235,10 +249,15 @@ public class RetrainTickResult
     public bool Success { get; set; }
     public int? NewModelVersion { get; set; }
     public TrainTemplate? Template { get; set; }
+    public string? TrainingConfigName { get; set; }
     public RetrainMetrics? Metrics { get; set; }
     public int TrainSetSize { get; set; }
     public int GoldIncludedCount { get; set; }
     public bool Activated { get; set; }
+    public PromotionDecision PromotionDecision { get; set; }
+
+    /// <summary>Pala promotion pravila ako kandidat nije aktiviran</summary>
+    public string? PromotionReason { get; set; }
     public string Reason { get; set; } = string.Empty;
     public DateTime Timestamp { get; set; }
 }
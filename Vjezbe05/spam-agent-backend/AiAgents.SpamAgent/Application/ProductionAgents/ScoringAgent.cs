@@ -98,6 +98,7 @@ public sealed class ScoringAgent : IProductionAgent<ScoringTickResult>
             NewStatus = scoringResult.NewStatus,
             TrueLabel = scoringResult.TrueLabel,
             IsCorrect = scoringResult.IsCorrect,
+            ModelVersion = scoringResult.ModelVersion,
             Timestamp = DateTime.UtcNow
         };
     }
@@ -126,6 +127,7 @@ public class ScoringTickResult
     public MessageStatus NewStatus { get; set; }
     public Label? TrueLabel { get; set; }
     public bool? IsCorrect { get; set; }
+    public int ModelVersion { get; set; }
     public DateTime Timestamp { get; set; }
 
     /// <summary>
@@ -39,6 +39,7 @@ public class AdminQueryService
         var settings = await _context.SystemSettings
             .AsNoTracking()
             .Include(s => s.ActiveModelVersion)
+            .Include(s => s.AutoRetrainConfig)
             .FirstAsync(ct);
 
         // Dataset statistika se računa direktno iz baze (ne koristimo DatabaseSeeder u query layer-u).
@@ -63,6 +64,12 @@ public class AdminQueryService
                 RetrainGoldThreshold = settings.RetrainGoldThreshold,
                 NewGoldSinceLastTrain = settings.NewGoldSinceLastTrain,
                 AutoRetrainEnabled = settings.AutoRetrainEnabled,
+                AutoRetrainConfigId = settings.AutoRetrainConfigId,
+                AutoRetrainConfigName = settings.AutoRetrainConfig?.Name,
+                PromotionGuardEnabled = settings.PromotionGuardEnabled,
+                PromotionMaxF1Drop = settings.PromotionMaxF1Drop,
+                PromotionMinRecall = settings.PromotionMinRecall,
+                PromotionMinPrecision = settings.PromotionMinPrecision,
                 LastRetrainAtUtc = settings.LastRetrainAtUtc
             },
 
@@ -90,6 +97,7 @@ public class AdminQueryService
         // Ako se desi greška i postoji više "active", uzmi najnoviji po verziji.
         var model = await _context.ModelVersions
             .AsNoTracking()
+            .Include(m => m.PromotionChecks)
             .Where(m => m.IsActive)
             .OrderByDescending(m => m.Version)
             .FirstOrDefaultAsync(ct);
@@ -104,6 +112,7 @@ public class AdminQueryService
     {
         var models = await _context.ModelVersions
             .AsNoTracking()
+            .Include(m => m.PromotionChecks)
             .OrderByDescending(m => m.Version)
             .ToListAsync(ct);
 
@@ -117,11 +126,40 @@ public class AdminQueryService
     {
         var model = await _context.ModelVersions
             .AsNoTracking()
+            .Include(m => m.PromotionChecks)
             .FirstOrDefaultAsync(m => m.Version == version, ct);
 
         return model != null ? MapModelVersion(model) : null;
     }
 
+    /// <summary>
+    /// Validacijski score-ovi verzije (null ako verzija ne postoji).
+    /// </summary>
+    public async Task<ValidationScores?> GetValidationScoresAsync(int version, CancellationToken ct = default)
+    {
+        var model = await _context.ModelVersions
+            .AsNoTracking()
+            .FirstOrDefaultAsync(m => m.Version == version, ct);
+
+        if (model == null) return null;
+
+        var scores = await _context.ValidationScores
+            .AsNoTracking()
+            .Where(vs => vs.ModelVersionId == model.Id)
+            .Select(vs => new ValidationScoreInfo
+            {
+                PSpam = vs.PSpam,
+                IsSpam = vs.IsSpam
+            })
+            .ToListAsync(ct);
+
+        return new ValidationScores
+        {
+            Version = model.Version,
+            Scores = scores
+        };
+    }
+
     /// <summary>
     /// Trenutne postavke.
     /// </summary>
@@ -129,6 +167,7 @@ public class AdminQueryService
     {
         var settings = await _context.SystemSettings
             .AsNoTracking()
+            .Include(s => s.AutoRetrainConfig)
             .FirstAsync(ct);
 
         return new SettingsInfo
@@ -138,10 +177,41 @@ public class AdminQueryService
             RetrainGoldThreshold = settings.RetrainGoldThreshold,
             NewGoldSinceLastTrain = settings.NewGoldSinceLastTrain,
             AutoRetrainEnabled = settings.AutoRetrainEnabled,
+            AutoRetrainConfigId = settings.AutoRetrainConfigId,
+            AutoRetrainConfigName = settings.AutoRetrainConfig?.Name,
+            PromotionGuardEnabled = settings.PromotionGuardEnabled,
+            PromotionMaxF1Drop = settings.PromotionMaxF1Drop,
+            PromotionMinRecall = settings.PromotionMinRecall,
+            PromotionMinPrecision = settings.PromotionMinPrecision,
             LastRetrainAtUtc = settings.LastRetrainAtUtc
         };
     }
 
+    /// <summary>
+    /// Custom training konfiguracije, po imenu.
+    /// </summary>
+    public async Task<List<TrainingConfigInfo>> GetTrainingConfigsAsync(CancellationToken ct = default)
+    {
+        var configs = await _context.TrainingConfigs
+            .AsNoTracking()
+            .OrderBy(c => c.Name)
+            .ToListAsync(ct);
+
+        return configs.Select(MapTrainingConfig).ToList();
+    }
+
+    /// <summary>
+    /// Jedna custom training konfiguracija.
+    /// </summary>
+    public async Task<TrainingConfigInfo?> GetTrainingConfigAsync(int id, CancellationToken ct = default)
+    {
+        var config = await _context.TrainingConfigs
+            .AsNoTracking()
+            .FirstOrDefaultAsync(c => c.Id == id, ct);
+
+        return config != null ? MapTrainingConfig(config) : null;
+    }
+
     /// <summary>
     /// Statistika gold labela.
     /// </summary>
@@ -172,6 +242,45 @@ public class AdminQueryService
         };
     }
 
+    /// <summary>
+    /// Zadnje predikcije aktivnog modela za poruke sa poznatom labelom (za podešavanje pragova).
+    /// </summary>
+    public async Task<ThresholdSamples> GetThresholdSamplesAsync(int limit, CancellationToken ct = default)
+    {
+        var activeModel = await _context.ModelVersions
+            .AsNoTracking()
+            .Where(m => m.IsActive)
+            .OrderByDescending(m => m.Version)
+            .FirstOrDefaultAsync(ct);
+
+        if (activeModel == null)
+        {
+            return new ThresholdSamples();
+        }
+
+        // Po jedna (zadnja) predikcija po poruci, da rescore ne broji poruku dvaput
+        var samples = await _context.Predictions
+            .AsNoTracking()
+            .Where(p => p.ModelVersionId == activeModel.Id && p.Message.TrueLabel != null)
+            .Where(p => p.Id == _context.Predictions
+                .Where(q => q.MessageId == p.MessageId && q.ModelVersionId == activeModel.Id)
+                .Max(q => q.Id))
+            .OrderByDescending(p => p.CreatedAtUtc)
+            .Take(limit)
+            .Select(p => new ThresholdSample
+            {
+                PSpam = p.PSpam,
+                TrueLabel = p.Message.TrueLabel!.Value
+            })
+            .ToListAsync(ct);
+
+        return new ThresholdSamples
+        {
+            ModelVersion = activeModel.Version,
+            Samples = samples
+        };
+    }
+
     private async Task<QueueCounts> GetQueueCountsInternalAsync(CancellationToken ct)
     {
         var counts = await _context.Messages
@@ -249,6 +358,8 @@ public class AdminQueryService
             Id = m.Id,
             Version = m.Version,
             TrainTemplate = m.TrainTemplate,
+            TrainingConfigName = m.TrainingConfigName,
+            Trigger = m.Trigger,
             TrainSetSize = m.TrainSetSize,
             GoldIncludedCount = m.GoldIncludedCount,
             ValidationSetSize = m.ValidationSetSize,
@@ -262,10 +373,38 @@ public class AdminQueryService
             ThresholdAllow = m.ThresholdAllow,
             ThresholdBlock = m.ThresholdBlock,
             IsActive = m.IsActive,
+            PromotionDecision = m.PromotionDecision,
+            PromotionReason = m.PromotionReason,
+            PromotionChecks = m.PromotionChecks
+                .OrderBy(c => c.Id)
+                .Select(c => new PromotionCheckInfo
+                {
+                    Metric = c.Metric,
+                    Actual = c.Actual,
+                    Required = c.Required,
+                    Baseline = c.Baseline,
+                    Passed = c.Passed
+                })
+                .ToList(),
             CreatedAtUtc = m.CreatedAtUtc
         };
     }
 
+    private static TrainingConfigInfo MapTrainingConfig(TrainingConfig c)
+    {
+        return new TrainingConfigInfo
+        {
+            Id = c.Id,
+            Name = c.Name,
+            TrainSetSize = c.TrainSetSize,
+            GoldWeight = c.GoldWeight,
+            Balancing = c.Balancing,
+            Seed = c.Seed,
+            CreatedAtUtc = c.CreatedAtUtc,
+            UpdatedAtUtc = c.UpdatedAtUtc
+        };
+    }
+
     private sealed class DatasetStatsInternal
     {
         public int TotalMessages { get; set; }
@@ -301,6 +440,8 @@ public class ModelVersionInfo
     public int Id { get; set; }
     public int Version { get; set; }
     public TrainTemplate TrainTemplate { get; set; }
+    public string? TrainingConfigName { get; set; }
+    public TrainTrigger Trigger { get; set; }
     public int TrainSetSize { get; set; }
     public int GoldIncludedCount { get; set; }
     public int ValidationSetSize { get; set; }
@@ -308,9 +449,24 @@ public class ModelVersionInfo
     public double ThresholdAllow { get; set; }
     public double ThresholdBlock { get; set; }
     public bool IsActive { get; set; }
+    public PromotionDecision PromotionDecision { get; set; }
+    public string? PromotionReason { get; set; }
+    public List<PromotionCheckInfo> PromotionChecks { get; set; } = new();
     public DateTime CreatedAtUtc { get; set; }
 }
 
+/// <summary>
+/// Evaluirano promotion pravilo.
+/// </summary>
+public class PromotionCheckInfo
+{
+    public string Metric { get; set; } = string.Empty;
+    public double Actual { get; set; }
+    public double Required { get; set; }
+    public double? Baseline { get; set; }
+    public bool Passed { get; set; }
+}
+
 /// <summary>
 /// Metrike modela.
 /// </summary>
@@ -332,9 +488,30 @@ public class SettingsInfo
     public int RetrainGoldThreshold { get; set; }
     public int NewGoldSinceLastTrain { get; set; }
     public bool AutoRetrainEnabled { get; set; }
+    public int? AutoRetrainConfigId { get; set; }
+    public string? AutoRetrainConfigName { get; set; }
+    public bool PromotionGuardEnabled { get; set; }
+    public double PromotionMaxF1Drop { get; set; }
+    public double PromotionMinRecall { get; set; }
+    public double PromotionMinPrecision { get; set; }
     public DateTime? LastRetrainAtUtc { get; set; }
 }
 
+/// <summary>
+/// Custom training konfiguracija.
+/// </summary>
+public class TrainingConfigInfo
+{
+    public int Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public int? TrainSetSize { get; set; }
+    public double GoldWeight { get; set; }
+    public ClassBalancing Balancing { get; set; }
+    public int Seed { get; set; }
+    public DateTime CreatedAtUtc { get; set; }
+    public DateTime UpdatedAtUtc { get; set; }
+}
+
 /// <summary>
 /// Statistika dataseta.
 /// </summary>
@@ -350,6 +527,45 @@ public class DatasetInfo
     public int TotalGoldLabels { get; set; }
 }
 
+/// <summary>
+/// Score-ovi verzije modela na validacijskom setu.
+/// </summary>
+public class ValidationScores
+{
+    public int Version { get; set; }
+
+    /// <summary>Prazno za verzije trenirane prije nego što su se score-ovi snimali</summary>
+    public List<ValidationScoreInfo> Scores { get; set; } = new();
+}
+
+/// <summary>
+/// Score jedne validacijske poruke.
+/// </summary>
+public class ValidationScoreInfo
+{
+    public double PSpam { get; set; }
+    public bool IsSpam { get; set; }
+}
+
+/// <summary>
+/// Predikcije aktivnog modela sa poznatom labelom.
+/// </summary>
+public class ThresholdSamples
+{
+    /// <summary>Null ako nema aktivnog modela</summary>
+    public int? ModelVersion { get; set; }
+    public List<ThresholdSample> Samples { get; set; } = new();
+}
+
+/// <summary>
+/// Jedna predikcija: pSpam i prava labela.
+/// </summary>
+public class ThresholdSample
+{
+    public double PSpam { get; set; }
+    public Label TrueLabel { get; set; }
+}
+
 /// <summary>
 /// Statistika gold labela.
 /// </summary>
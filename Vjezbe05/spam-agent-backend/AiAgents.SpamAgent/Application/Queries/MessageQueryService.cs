@@ -59,6 +59,173 @@ public class MessageQueryService
             .FirstOrDefaultAsync(ct);
     }
 
+    /// <summary>
+    /// Dohvata poruku sa svim predikcijama (kroz sve verzije modela) i review-om.
+    /// </summary>
+    public async Task<MessageHistory?> GetHistoryAsync(long id, CancellationToken ct = default)
+    {
+        var message = await GetByIdAsync(id, ct);
+        if (message == null)
+        {
+            return null;
+        }
+
+        var predictions = await _context.Predictions
+            .AsNoTracking()
+            .Where(p => p.MessageId == id)
+            .OrderBy(p => p.CreatedAtUtc)
+            .Select(p => new PredictionDetails
+            {
+                PSpam = p.PSpam,
+                Decision = p.Decision,
+                ModelVersion = p.ModelVersion != null ? p.ModelVersion.Version : 0,
+                CreatedAtUtc = p.CreatedAtUtc
+            })
+            .ToListAsync(ct);
+
+        var review = await _context.Reviews
+            .AsNoTracking()
+            .Where(r => r.MessageId == id)
+            .Select(r => new ReviewDetails
+            {
+                MessageId = r.MessageId,
+                Text = r.Message.Text,
+                Label = r.Label,
+                Note = r.Note,
+                ReviewedBy = r.ReviewedBy,
+                ReviewedAtUtc = r.ReviewedAtUtc
+            })
+            .FirstOrDefaultAsync(ct);
+
+        return new MessageHistory
+        {
+            Message = message,
+            Predictions = predictions,
+            Review = review
+        };
+    }
+
+    /// <summary>
+    /// Pretraga poruka sa filterima, sortiranjem i paginacijom (message explorer).
+    /// Filteri po pSpam/decision/verziji se odnose na zadnju predikciju poruke.
+    /// </summary>
+    public async Task<PagedResult<MessageDetails>> SearchAsync(
+        MessageSearchCriteria criteria,
+        CancellationToken ct = default)
+    {
+        var query = _context.Messages.AsQueryable();
+
+        if (!string.IsNullOrWhiteSpace(criteria.Search))
+        {
+            var pattern = $"%{criteria.Search.Trim()}%";
+            query = query.Where(m => EF.Functions.Like(m.Text, pattern));
+        }
+
+        if (criteria.Status.HasValue)
+            query = query.Where(m => m.Status == criteria.Status.Value);
+
+        if (criteria.Source.HasValue)
+            query = query.Where(m => m.Source == criteria.Source.Value);
+
+        if (criteria.TrueLabel.HasValue)
+            query = query.Where(m => m.TrueLabel == criteria.TrueLabel.Value);
+
+        if (criteria.FromUtc.HasValue)
+            query = query.Where(m => m.CreatedAtUtc >= criteria.FromUtc.Value);
+
+        if (criteria.ToUtc.HasValue)
+            query = query.Where(m => m.CreatedAtUtc <= criteria.ToUtc.Value);
+
+        if (criteria.MinPSpam.HasValue)
+            query = query.Where(m => m.Predictions
+                .OrderByDescending(p => p.CreatedAtUtc)
+                .Select(p => (double?)p.PSpam)
+                .FirstOrDefault() >= criteria.MinPSpam.Value);
+
+        if (criteria.MaxPSpam.HasValue)
+            query = query.Where(m => m.Predictions
+                .OrderByDescending(p => p.CreatedAtUtc)
+                .Select(p => (double?)p.PSpam)
+                .FirstOrDefault() <= criteria.MaxPSpam.Value);
+
+        if (criteria.Decision.HasValue)
+            query = query.Where(m => m.Predictions
+                .OrderByDescending(p => p.CreatedAtUtc)
+                .Select(p => (SpamDecision?)p.Decision)
+                .FirstOrDefault() == criteria.Decision.Value);
+
+        if (criteria.ModelVersion.HasValue)
+            query = query.Where(m => m.Predictions
+                .OrderByDescending(p => p.CreatedAtUtc)
+                .Select(p => (int?)p.ModelVersion.Version)
+                .FirstOrDefault() == criteria.ModelVersion.Value);
+
+        var totalCount = await query.CountAsync(ct);
+
+        var page = Math.Max(1, criteria.Page);
+        var pageSize = Math.Clamp(criteria.PageSize, 1, MessageSearchCriteria.MaxPageSize);
+
+        var items = await ProjectToDetails(ApplySort(query, criteria.SortBy, criteria.Descending))
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(ct);
+
+        return new PagedResult<MessageDetails>
+        {
+            Items = items,
+            TotalCount = totalCount,
+            Page = page,
+            PageSize = pageSize
+        };
+    }
+
+    /// <summary>
+    /// Confusion matrix: prava labela × odluka zadnje predikcije, za poruke sa poznatom labelom.
+    /// Ista semantika kao SearchAsync (TrueLabel + Decision + ModelVersion), pa se ćelija
+    /// može "otvoriti" pretragom.
+    /// </summary>
+    public async Task<ConfusionMatrix> GetConfusionMatrixAsync(int? modelVersion, CancellationToken ct = default)
+    {
+        var query = _context.Messages
+            .AsNoTracking()
+            .Where(m => m.TrueLabel != null)
+            .Select(m => new
+            {
+                TrueLabel = m.TrueLabel!.Value,
+                Decision = m.Predictions
+                    .OrderByDescending(p => p.CreatedAtUtc)
+                    .Select(p => (SpamDecision?)p.Decision)
+                    .FirstOrDefault(),
+                Version = m.Predictions
+                    .OrderByDescending(p => p.CreatedAtUtc)
+                    .Select(p => (int?)p.ModelVersion.Version)
+                    .FirstOrDefault()
+            })
+            .Where(x => x.Decision != null);
+
+        if (modelVersion.HasValue)
+            query = query.Where(x => x.Version == modelVersion.Value);
+
+        var rows = await query.ToListAsync(ct);
+
+        // Najviše 2 × 3 grupe - grupisanje u memoriji je jeftinije od prevođenja u SQL
+        var cells = rows
+            .GroupBy(x => new { x.TrueLabel, Decision = x.Decision!.Value })
+            .Select(g => new ConfusionCell
+            {
+                TrueLabel = g.Key.TrueLabel,
+                Decision = g.Key.Decision,
+                Count = g.Count()
+            })
+            .ToList();
+
+        return new ConfusionMatrix
+        {
+            ModelVersion = modelVersion,
+            Cells = cells
+        };
+    }
+
     /// <summary>
     /// Dohvata poruke u queue-u.
     /// </summary>
@@ -113,6 +280,60 @@ public class MessageQueryService
             .CountAsync(ct);
     }
 
+    /// <summary>
+    /// Dohvata zadnje moderatorske review-e (najnoviji prvi).
+    /// </summary>
+    public async Task<List<ReviewDetails>> GetRecentReviewsAsync(int take = 20, CancellationToken ct = default)
+    {
+        return await _context.Reviews
+            .AsNoTracking()
+            .OrderByDescending(r => r.ReviewedAtUtc)
+            .Take(take)
+            .Select(r => new ReviewDetails
+            {
+                MessageId = r.MessageId,
+                Text = r.Message.Text,
+                Label = r.Label,
+                Note = r.Note,
+                ReviewedBy = r.ReviewedBy,
+                ReviewedAtUtc = r.ReviewedAtUtc
+            })
+            .ToListAsync(ct);
+    }
+
+    private static IQueryable<Message> ApplySort(
+        IQueryable<Message> query,
+        MessageSortField sortBy,
+        bool descending)
+    {
+        return sortBy switch
+        {
+            MessageSortField.Id => descending
+                ? query.OrderByDescending(m => m.Id)
+                : query.OrderBy(m => m.Id),
+            MessageSortField.Status => descending
+                ? query.OrderByDescending(m => m.Status).ThenByDescending(m => m.Id)
+                : query.OrderBy(m => m.Status).ThenBy(m => m.Id),
+            MessageSortField.Source => descending
+                ? query.OrderByDescending(m => m.Source).ThenByDescending(m => m.Id)
+                : query.OrderBy(m => m.Source).ThenBy(m => m.Id),
+            MessageSortField.PSpam => descending
+                ? query.OrderByDescending(m => m.Predictions
+                        .OrderByDescending(p => p.CreatedAtUtc)
+                        .Select(p => (double?)p.PSpam)
+                        .FirstOrDefault())
+                    .ThenByDescending(m => m.Id)
+                : query.OrderBy(m => m.Predictions
+                        .OrderByDescending(p => p.CreatedAtUtc)
+                        .Select(p => (double?)p.PSpam)
+                        .FirstOrDefault())
+                    .ThenBy(m => m.Id),
+            _ => descending
+                ? query.OrderByDescending(m => m.CreatedAtUtc).ThenByDescending(m => m.Id)
+                : query.OrderBy(m => m.CreatedAtUtc).ThenBy(m => m.Id)
+        };
+    }
+
     private IQueryable<MessageDetails> ProjectToDetails(IQueryable<Message> query)
     {
         return query
@@ -169,6 +390,96 @@ public class PredictionDetails
     public DateTime CreatedAtUtc { get; set; }
 }
 
+/// <summary>
+/// Poruka sa kompletnom historijom predikcija i review-om.
+/// </summary>
+public class MessageHistory
+{
+    public MessageDetails Message { get; set; } = null!;
+    public List<PredictionDetails> Predictions { get; set; } = new();
+    public ReviewDetails? Review { get; set; }
+}
+
+/// <summary>
+/// Detalji moderatorskog review-a.
+/// </summary>
+public class ReviewDetails
+{
+    public long MessageId { get; set; }
+    public string Text { get; set; } = string.Empty;
+    public Label Label { get; set; }
+    public string? Note { get; set; }
+    public string ReviewedBy { get; set; } = string.Empty;
+    public DateTime ReviewedAtUtc { get; set; }
+}
+
+/// <summary>
+/// Kriteriji pretrage poruka. Null vrijednosti znače "bez filtera".
+/// </summary>
+public class MessageSearchCriteria
+{
+    public const int MaxPageSize = 200;
+
+    public string? Search { get; set; }
+    public MessageStatus? Status { get; set; }
+    public MessageSource? Source { get; set; }
+    public Label? TrueLabel { get; set; }
+    public double? MinPSpam { get; set; }
+    public double? MaxPSpam { get; set; }
+    public SpamDecision? Decision { get; set; }
+    public int? ModelVersion { get; set; }
+    public DateTime? FromUtc { get; set; }
+    public DateTime? ToUtc { get; set; }
+
+    public MessageSortField SortBy { get; set; } = MessageSortField.CreatedAt;
+    public bool Descending { get; set; } = true;
+    public int Page { get; set; } = 1;
+    public int PageSize { get; set; } = 25;
+}
+
+/// <summary>
+/// Kolone po kojima se može sortirati pretraga poruka.
+/// </summary>
+public enum MessageSortField
+{
+    CreatedAt,
+    Id,
+    Status,
+    Source,
+    PSpam
+}
+
+/// <summary>
+/// Jedna stranica rezultata sa ukupnim brojem.
+/// </summary>
+public class PagedResult<T>
+{
+    public List<T> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+}
+
+/// <summary>
+/// Confusion matrix; ćelije sa 0 poruka se izostavljaju.
+/// </summary>
+public class ConfusionMatrix
+{
+    /// <summary>Null = sve verzije</summary>
+    public int? ModelVersion { get; set; }
+    public List<ConfusionCell> Cells { get; set; } = new();
+}
+
+/// <summary>
+/// Broj poruka za par (prava labela, odluka).
+/// </summary>
+public class ConfusionCell
+{
+    public Label TrueLabel { get; set; }
+    public SpamDecision Decision { get; set; }
+    public int Count { get; set; }
+}
+
 /// <summary>
 /// Brojači po statusima.
 /// </summary>
@@ -24,6 +24,11 @@ namespace AiAgents.SpamAgent.Application.Services;
 /// </summary>
 public record QueuedMessageDto(long Id, string TextPreview, DateTime CreatedAtUtc);
 
+/// <summary>
+/// Poruka za bulk upload - labela je opciona (poznata labela ulazi u online tačnost).
+/// </summary>
+public record NewMessage(string Text, MessageSource Source, Label? TrueLabel);
+
 // ════════════════════════════════════════════════════════════════════════════════
 //                     QUEUE SERVICE
 // ════════════════════════════════════════════════════════════════════════════════
@@ -35,6 +40,9 @@ public class QueueService
 {
     private readonly SpamAgentDbContext _context;
 
+    /// <summary>Najviše poruka po jednom bulk upload zahtjevu (klijent šalje u chunk-ovima)</summary>
+    public const int MaxBatchSize = 200;
+
     public QueueService(SpamAgentDbContext context)
     {
         _context = context;
@@ -120,42 +128,30 @@ public class QueueService
     /// <param name="count">Broj poruka za enqueue</param>
     /// <param name="copyAsTrueLabel">Ako true, kopira TrueLabel (za evaluaciju)</param>
     /// <param name="ct">Cancellation token</param>
+    /// <param name="spamRatio">Udio spam-a (0-1); null = redoslijed dataseta (prirodni omjer)</param>
     /// <returns>Lista DTO-a sa ID-evima i preview-ima dodanih poruka</returns>
     public async Task<IReadOnlyList<QueuedMessageDto>> EnqueueFromValidationWithResultAsync(
         int count, 
         bool copyAsTrueLabel = true,
-        CancellationToken ct = default)
+        CancellationToken ct = default,
+        double? spamRatio = null)
     {
         ct.ThrowIfCancellationRequested();
 
-        // Uzmi poruke iz ValidationHoldout koje još nisu enqueue-ane
-        var candidates = await _context.Messages
-            .Where(m => m.Source == MessageSource.Uci && 
-                       m.Split == DataSplit.ValidationHoldout &&
-                       m.Status == MessageStatus.Dataset)
-            .OrderBy(m => m.Id)
-            .Take(count)
-            .ToListAsync(ct);
-
-        if (candidates.Count == 0)
+        List<Message> candidates;
+        if (spamRatio.HasValue)
         {
-            // Ako nema više, resetuj validation set (za ponovljeni demo)
-            await _context.Messages
-                .Where(m => m.Source == MessageSource.Uci && 
-                           m.Split == DataSplit.ValidationHoldout &&
-                           m.Status != MessageStatus.Dataset)
-                .ExecuteUpdateAsync(
-                    s => s.SetProperty(m => m.Status, MessageStatus.Dataset), 
-                    ct);
+            // Svaka poruka se posebno izvlači, pa i batch od 1 prati omjer kroz vrijeme
+            var spamCount = Enumerable.Range(0, count).Count(_ => Random.Shared.NextDouble() < spamRatio.Value);
 
-            // Pokušaj ponovo
-            candidates = await _context.Messages
-                .Where(m => m.Source == MessageSource.Uci && 
-                           m.Split == DataSplit.ValidationHoldout &&
-                           m.Status == MessageStatus.Dataset)
-                .OrderBy(m => m.Id)
-                .Take(count)
-                .ToListAsync(ct);
+            candidates = (await TakeValidationCandidatesAsync(Label.Spam, spamCount, ct))
+                .Concat(await TakeValidationCandidatesAsync(Label.Ham, count - spamCount, ct))
+                .OrderBy(_ => Random.Shared.Next())
+                .ToList();
+        }
+        else
+        {
+            candidates = await TakeValidationCandidatesAsync(null, count, ct);
         }
 
         if (candidates.Count == 0)
@@ -195,6 +191,49 @@ public class QueueService
             .ToList();
     }
 
+    /// <summary>
+    /// Uzima neiskorištene ValidationHoldout poruke (opciono samo jedne labele).
+    /// Kad ih nestane, resetuje iskorištene (za ponovljeni demo). Iskorištena je
+    /// samo poruka sa Scored markerom - ako je original negdje drugdje u toku
+    /// (Queued, PendingReview, Inbox/Spam), reset ga ne dira.
+    /// </summary>
+    private async Task<List<Message>> TakeValidationCandidatesAsync(Label? label, int count, CancellationToken ct)
+    {
+        if (count <= 0)
+            return new List<Message>();
+
+        var validation = _context.Messages
+            .Where(m => m.Source == MessageSource.Uci && 
+                       m.Split == DataSplit.ValidationHoldout &&
+                       (label == null || m.TrueLabel == label));
+
+        // Uzmi poruke iz ValidationHoldout koje još nisu enqueue-ane
+        var candidates = await validation
+            .Where(m => m.Status == MessageStatus.Dataset)
+            .OrderBy(m => m.Id)
+            .Take(count)
+            .ToListAsync(ct);
+
+        if (candidates.Count == 0)
+        {
+            // Ako nema više, resetuj iskorištene (za ponovljeni demo)
+            await validation
+                .Where(m => m.Status == MessageStatus.Scored)
+                .ExecuteUpdateAsync(
+                    s => s.SetProperty(m => m.Status, MessageStatus.Dataset), 
+                    ct);
+
+            // Pokušaj ponovo
+            candidates = await validation
+                .Where(m => m.Status == MessageStatus.Dataset)
+                .OrderBy(m => m.Id)
+                .Take(count)
+                .ToListAsync(ct);
+        }
+
+        return candidates;
+    }
+
     /// <summary>
     /// Dodaje poruke iz validation seta u queue za procesiranje.
     /// </summary>
@@ -238,13 +277,16 @@ public class QueueService
     }
 
     /// <summary>
-    /// Dodaje novu runtime poruku u queue.
+    /// Dodaje novu poruku u queue (podrazumijevano kao runtime poruku).
     /// </summary>
-    public async Task<Message> AddMessageAsync(string text, CancellationToken ct = default)
+    public async Task<Message> AddMessageAsync(
+        string text,
+        MessageSource source = MessageSource.Runtime,
+        CancellationToken ct = default)
     {
         var message = new Message
         {
-            Source = MessageSource.Runtime,
+            Source = source,
             Text = text,
             Status = MessageStatus.Queued,
             CreatedAtUtc = DateTime.UtcNow
@@ -255,4 +297,30 @@ public class QueueService
 
         return message;
     }
+
+    /// <summary>
+    /// Dodaje batch poruka u queue jednim SaveChanges-om.
+    /// Redoslijed rezultata odgovara redoslijedu ulaza (klijent po njemu mapira ID-eve na redove).
+    /// </summary>
+    public async Task<IReadOnlyList<Message>> AddMessagesAsync(
+        IReadOnlyList<NewMessage> items,
+        CancellationToken ct = default)
+    {
+        var now = DateTime.UtcNow;
+        var messages = items
+            .Select(i => new Message
+            {
+                Source = i.Source,
+                Text = i.Text,
+                TrueLabel = i.TrueLabel,
+                Status = MessageStatus.Queued,
+                CreatedAtUtc = now
+            })
+            .ToList();
+
+        _context.Messages.AddRange(messages);
+        await _context.SaveChangesAsync(ct);
+
+        return messages;
+    }
 }
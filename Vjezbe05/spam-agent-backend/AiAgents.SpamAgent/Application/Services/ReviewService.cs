@@ -85,7 +85,8 @@ public class ReviewService
             Label = label,
             ReviewedBy = reviewedBy,
             ReviewedAtUtc = DateTime.UtcNow,
-            Note = note
+            Note = note,
+            PreviousTrueLabel = msg.TrueLabel
         };
 
         _context.Reviews.Add(review);
@@ -105,6 +106,87 @@ public class ReviewService
         return (true, $"Review dodan. Novi gold count: {settings.NewGoldSinceLastTrain}");
     }
 
+    /// <summary>
+    /// Mijenja labelu (i napomenu) postojećeg review-a.
+    /// Gold counter se ne mijenja jer broj gold labela ostaje isti.
+    /// </summary>
+    /// <param name="messageId">ID poruke</param>
+    /// <param name="label">Nova labela</param>
+    /// <param name="reviewedBy">Ko je revidirao review</param>
+    /// <param name="note">Nova napomena (null zadržava staru)</param>
+    /// <returns>False ako poruka nije pronađena ili nema review</returns>
+    public async Task<(bool success, string message)> ReviseReviewAsync(
+        long messageId,
+        Label label,
+        string reviewedBy = "console-admin",
+        string? note = null)
+    {
+        var msg = await _context.Messages
+            .Include(m => m.Review)
+            .FirstOrDefaultAsync(m => m.Id == messageId);
+
+        if (msg == null)
+        {
+            return (false, "Poruka nije pronađena.");
+        }
+
+        if (msg.Review == null)
+        {
+            return (false, "Poruka nema review.");
+        }
+
+        msg.Review.Label = label;
+        msg.Review.ReviewedBy = reviewedBy;
+        msg.Review.ReviewedAtUtc = DateTime.UtcNow;
+        if (note != null)
+        {
+            msg.Review.Note = note;
+        }
+
+        msg.TrueLabel = label;
+        msg.Status = label == Label.Ham ? MessageStatus.InInbox : MessageStatus.InSpam;
+
+        await _context.SaveChangesAsync();
+
+        return (true, $"Review revidiran na {label}.");
+    }
+
+    /// <summary>
+    /// Poništava review i vraća poruku u review queue.
+    /// </summary>
+    /// <param name="messageId">ID poruke</param>
+    /// <returns>False ako poruka nije pronađena ili nema review</returns>
+    public async Task<(bool success, string message)> RemoveReviewAsync(long messageId)
+    {
+        var msg = await _context.Messages
+            .Include(m => m.Review)
+            .FirstOrDefaultAsync(m => m.Id == messageId);
+
+        if (msg == null)
+        {
+            return (false, "Poruka nije pronađena.");
+        }
+
+        if (msg.Review == null)
+        {
+            return (false, "Poruka nema review.");
+        }
+
+        // Vrati stanje poruke kakvo je bilo prije review-a
+        msg.TrueLabel = msg.Review.PreviousTrueLabel;
+        msg.Status = MessageStatus.PendingReview;
+
+        _context.Reviews.Remove(msg.Review);
+
+        // Dekrementiraj gold counter (ne ispod nule ako je u međuvremenu bio retrain)
+        var settings = await _context.SystemSettings.FirstAsync();
+        settings.NewGoldSinceLastTrain = Math.Max(0, settings.NewGoldSinceLastTrain - 1);
+
+        await _context.SaveChangesAsync();
+
+        return (true, $"Review poništen. Novi gold count: {settings.NewGoldSinceLastTrain}");
+    }
+
     /// <summary>
     /// Provjerava da li treba pokrenuti auto-retrain.
     /// </summary>
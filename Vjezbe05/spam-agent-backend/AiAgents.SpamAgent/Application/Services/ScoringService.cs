@@ -5,6 +5,9 @@
  */
 
 using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Linq;
 using System.Threading;
 using System.Threading.Tasks;
 using Microsoft.EntityFrameworkCore;
@@ -19,6 +22,9 @@ namespace AiAgents.SpamAgent.Application.Services;
 /// </summary>
 public class ScoringService
 {
+    /// <summary>Svaka verzija u preview-u učitava svoj model sa diska</summary>
+    public const int MaxPreviewVersions = 5;
+
     private readonly SpamAgentDbContext _context;
     private readonly ISpamClassifier _classifier;
 
@@ -59,24 +65,7 @@ public class ScoringService
         var pSpam = await _classifier.PredictAsync(message.Text);
 
         // Odredi odluku na osnovu pragova
-        SpamDecision decision;
-        MessageStatus newStatus;
-
-        if (pSpam < settings.ThresholdAllow)
-        {
-            decision = SpamDecision.Allow;
-            newStatus = MessageStatus.InInbox;
-        }
-        else if (pSpam >= settings.ThresholdBlock)
-        {
-            decision = SpamDecision.Block;
-            newStatus = MessageStatus.InSpam;
-        }
-        else
-        {
-            decision = SpamDecision.PendingReview;
-            newStatus = MessageStatus.PendingReview;
-        }
+        var (decision, newStatus) = Decide(pSpam, settings);
 
         ct.ThrowIfCancellationRequested();
 
@@ -105,10 +94,68 @@ public class ScoringService
             PSpam = pSpam,
             Decision = decision,
             NewStatus = newStatus,
-            TrueLabel = message.TrueLabel
+            TrueLabel = message.TrueLabel,
+            ModelVersion = settings.ActiveModelVersion!.Version
         };
     }
 
+    /// <summary>
+    /// Scoruje tekst zadanim verzijama modela bez snimanja poruke i predikcije (playground).
+    /// Svaka verzija se učitava u poseban classifier, pa aktivni model i worker ostaju netaknuti.
+    /// Odluka se računa po trenutnim pragovima iz postavki.
+    /// </summary>
+    public async Task<(bool success, string message, List<ScoringPreview> previews)> PreviewAsync(
+        string text,
+        IReadOnlyCollection<int> versions,
+        CancellationToken ct = default)
+    {
+        var previews = new List<ScoringPreview>();
+
+        if (versions.Count > MaxPreviewVersions)
+        {
+            return (false, $"Najviše {MaxPreviewVersions} verzija modela po zahtjevu.", previews);
+        }
+
+        var settings = await _context.SystemSettings.FirstAsync(ct);
+        var models = await _context.ModelVersions
+            .AsNoTracking()
+            .Where(m => versions.Contains(m.Version))
+            .ToListAsync(ct);
+
+        var missing = versions.Except(models.Select(m => m.Version)).ToList();
+        if (missing.Count > 0)
+        {
+            return (false, $"Verzija modela nije pronađena: v{string.Join(", v", missing)}.", previews);
+        }
+
+        foreach (var model in models.OrderByDescending(m => m.Version))
+        {
+            ct.ThrowIfCancellationRequested();
+
+            var classifier = new MlNetSpamClassifier();
+            try
+            {
+                await classifier.LoadModelAsync(model.ModelFilePath);
+            }
+            catch (FileNotFoundException)
+            {
+                return (false, $"Model fajl za v{model.Version} nije pronađen.", new List<ScoringPreview>());
+            }
+
+            var pSpam = await classifier.PredictAsync(text);
+
+            previews.Add(new ScoringPreview
+            {
+                ModelVersion = model.Version,
+                IsActive = model.Id == settings.ActiveModelVersionId,
+                PSpam = pSpam,
+                Decision = Decide(pSpam, settings).decision
+            });
+        }
+
+        return (true, $"Scorovano sa {previews.Count} verzija modela.", previews);
+    }
+
     /// <summary>
     /// Provjerava da li je model spreman za scorovanje.
     /// </summary>
@@ -117,6 +164,21 @@ public class ScoringService
         var settings = await _context.SystemSettings.FirstAsync(ct);
         return settings.ActiveModelVersionId != null;
     }
+
+    private static (SpamDecision decision, MessageStatus newStatus) Decide(double pSpam, SystemSettings settings)
+    {
+        if (pSpam < settings.ThresholdAllow)
+        {
+            return (SpamDecision.Allow, MessageStatus.InInbox);
+        }
+
+        if (pSpam >= settings.ThresholdBlock)
+        {
+            return (SpamDecision.Block, MessageStatus.InSpam);
+        }
+
+        return (SpamDecision.PendingReview, MessageStatus.PendingReview);
+    }
 }
 
 /// <summary>
@@ -131,6 +193,9 @@ public class ScoringResult
     public MessageStatus NewStatus { get; set; }
     public Label? TrueLabel { get; set; }
 
+    /// <summary>Verzija modela koja je scorovala poruku</summary>
+    public int ModelVersion { get; set; }
+
     /// <summary>
     /// Da li je odluka bila tačna (ako znamo TrueLabel).
     /// </summary>
@@ -151,3 +216,14 @@ public class ScoringResult
         }
     }
 }
+
+/// <summary>
+/// Rezultat scorovanja teksta jednom verzijom modela (ništa se ne snima).
+/// </summary>
+public class ScoringPreview
+{
+    public int ModelVersion { get; set; }
+    public bool IsActive { get; set; }
+    public double PSpam { get; set; }
+    public SpamDecision Decision { get; set; }
+}
@@ -0,0 +1,140 @@
+/*
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *          SPAM AGENT - TRAINING CONFIG SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════════
+ */
+
+using System;
+using System.Linq;
+using System.Threading.Tasks;
+using Microsoft.EntityFrameworkCore;
+using AiAgents.SpamAgent.Domain;
+using AiAgents.SpamAgent.Infrastructure;
+
+namespace AiAgents.SpamAgent.Application.Services;
+
+/// <summary>
+/// Servis za imenovane custom training konfiguracije.
+/// </summary>
+public class TrainingConfigService
+{
+    public const int MinTrainSetSize = 50;
+    public const double MinGoldWeight = 0.1;
+    public const double MaxGoldWeight = 10.0;
+
+    private readonly SpamAgentDbContext _context;
+
+    public TrainingConfigService(SpamAgentDbContext context)
+    {
+        _context = context;
+    }
+
+    /// <summary>
+    /// Kreira novu konfiguraciju.
+    /// </summary>
+    public async Task<(bool success, string message, TrainingConfig? config)> CreateAsync(TrainingConfig input)
+    {
+        var error = await ValidateAsync(input, null);
+        if (error != null)
+        {
+            return (false, error, null);
+        }
+
+        var config = new TrainingConfig
+        {
+            Name = input.Name.Trim(),
+            TrainSetSize = input.TrainSetSize,
+            GoldWeight = input.GoldWeight,
+            Balancing = input.Balancing,
+            Seed = input.Seed
+        };
+
+        _context.TrainingConfigs.Add(config);
+        await _context.SaveChangesAsync();
+
+        return (true, $"Konfiguracija '{config.Name}' kreirana.", config);
+    }
+
+    /// <summary>
+    /// Ažurira postojeću konfiguraciju. Već trenirani modeli zadržavaju staro ime.
+    /// </summary>
+    public async Task<(bool success, string message, TrainingConfig? config)> UpdateAsync(int id, TrainingConfig input)
+    {
+        var config = await _context.TrainingConfigs.FindAsync(id);
+        if (config == null)
+        {
+            return (false, "Konfiguracija nije pronađena.", null);
+        }
+
+        var error = await ValidateAsync(input, id);
+        if (error != null)
+        {
+            return (false, error, null);
+        }
+
+        config.Name = input.Name.Trim();
+        config.TrainSetSize = input.TrainSetSize;
+        config.GoldWeight = input.GoldWeight;
+        config.Balancing = input.Balancing;
+        config.Seed = input.Seed;
+        config.UpdatedAtUtc = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        return (true, $"Konfiguracija '{config.Name}' ažurirana.", config);
+    }
+
+    /// <summary>
+    /// Briše konfiguraciju. Ako je bila izabrana za auto-retrain, auto-retrain se vraća na preset.
+    /// </summary>
+    public async Task<(bool success, string message)> DeleteAsync(int id)
+    {
+        var config = await _context.TrainingConfigs.FindAsync(id);
+        if (config == null)
+        {
+            return (false, "Konfiguracija nije pronađena.");
+        }
+
+        var settings = await _context.SystemSettings.FirstAsync();
+        if (settings.AutoRetrainConfigId == id)
+        {
+            settings.AutoRetrainConfigId = null;
+        }
+
+        _context.TrainingConfigs.Remove(config);
+        await _context.SaveChangesAsync();
+
+        return (true, $"Konfiguracija '{config.Name}' obrisana.");
+    }
+
+    private async Task<string?> ValidateAsync(TrainingConfig input, int? id)
+    {
+        var name = input.Name?.Trim() ?? string.Empty;
+        if (name.Length == 0)
+        {
+            return "Ime je obavezno.";
+        }
+
+        if (name.Length > 100)
+        {
+            return "Ime može imati najviše 100 znakova.";
+        }
+
+        if (await _context.TrainingConfigs.AnyAsync(c => c.Name == name && c.Id != id))
+        {
+            return $"Konfiguracija '{name}' već postoji.";
+        }
+
+        if (input.TrainSetSize.HasValue && input.TrainSetSize.Value < MinTrainSetSize)
+        {
+            return $"TrainSetSize mora biti najmanje {MinTrainSetSize} (ili prazno za sve).";
+        }
+
+        if (input.GoldWeight < MinGoldWeight || input.GoldWeight > MaxGoldWeight)
+        {
+            return $"GoldWeight mora biti između {MinGoldWeight} i {MaxGoldWeight}.";
+        }
+
+        return null;
+    }
+}
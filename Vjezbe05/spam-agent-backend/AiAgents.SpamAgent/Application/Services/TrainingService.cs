@@ -22,18 +22,16 @@ namespace AiAgents.SpamAgent.Application.Services;
 /// </summary>
 public class TrainingService
 {
+    /// <summary>
+    /// Jedan trening u procesu - dijele ga ručni job-ovi, auto-retrain i CLI
+    /// (TrainingService je scoped, pa gate mora biti statički).
+    /// </summary>
+    private static readonly SemaphoreSlim TrainingGate = new(1, 1);
+
     private readonly SpamAgentDbContext _context;
     private readonly ISpamClassifier _classifier;
     private readonly string _modelsDirectory;
 
-    // Veličine template-a
-    private static readonly Dictionary<TrainTemplate, int> TemplateSizes = new()
-    {
-        { TrainTemplate.Light, 500 },
-        { TrainTemplate.Medium, 2000 },
-        { TrainTemplate.Full, int.MaxValue }
-    };
-
     public TrainingService(
         SpamAgentDbContext context, 
         ISpamClassifier classifier,
@@ -54,29 +52,85 @@ public class TrainingService
     /// </summary>
     /// <param name="template">Light/Medium/Full</param>
     /// <param name="activate">Ako true, aktivira model nakon treninga</param>
-    /// <param name="ct">Cancellation token</param>
+    /// <param name="trigger">Ko je pokrenuo trening (ručno ili auto-retrain)</param>
+    /// <param name="ct">Cancellation token (poštuje se do koraka Saving)</param>
+    /// <param name="progress">Javlja trenutni korak treninga (opciono)</param>
     /// <returns>Nova verzija modela sa metrikama</returns>
-    public async Task<ModelVersion> TrainModelAsync(
+    public Task<ModelVersion> TrainModelAsync(
         TrainTemplate template, 
         bool activate = false,
-        CancellationToken ct = default)
+        TrainTrigger trigger = TrainTrigger.Manual,
+        CancellationToken ct = default,
+        IProgress<TrainingStage>? progress = null)
+    {
+        return TrainModelAsync(TrainingOptions.FromTemplate(template), activate, trigger, ct, progress);
+    }
+
+    /// <summary>
+    /// Trenira novi model sa custom konfiguracijom.
+    /// </summary>
+    public Task<ModelVersion> TrainModelAsync(
+        TrainingConfig config,
+        bool activate = false,
+        TrainTrigger trigger = TrainTrigger.Manual,
+        CancellationToken ct = default,
+        IProgress<TrainingStage>? progress = null)
+    {
+        return TrainModelAsync(TrainingOptions.FromConfig(config), activate, trigger, ct, progress);
+    }
+
+    /// <summary>
+    /// True dok neki trening drži gate (auto-retrain tada preskače tick).
+    /// </summary>
+    public static bool IsTraining => TrainingGate.CurrentCount == 0;
+
+    /// <summary>
+    /// Čeka da prethodni trening završi pa trenira - inače bi dva treninga
+    /// dobila istu verziju i aktivirala se jedan preko drugog.
+    /// </summary>
+    private async Task<ModelVersion> TrainModelAsync(
+        TrainingOptions options,
+        bool activate,
+        TrainTrigger trigger,
+        CancellationToken ct,
+        IProgress<TrainingStage>? progress)
+    {
+        await TrainingGate.WaitAsync(ct);
+        try
+        {
+            return await TrainModelCoreAsync(options, activate, trigger, ct, progress);
+        }
+        finally
+        {
+            TrainingGate.Release();
+        }
+    }
+
+    private async Task<ModelVersion> TrainModelCoreAsync(
+        TrainingOptions options,
+        bool activate,
+        TrainTrigger trigger,
+        CancellationToken ct,
+        IProgress<TrainingStage>? progress)
     {
         ct.ThrowIfCancellationRequested();
+        progress?.Report(TrainingStage.LoadingData);
 
         var settings = await _context.SystemSettings.FirstAsync(ct);
 
         // 1. Pripremi training set
-        var maxSamples = TemplateSizes[template];
-        
         // UCI TrainPool poruke
-        var uciTrainData = await _context.Messages
+        var uciQuery = _context.Messages
             .Where(m => m.Source == MessageSource.Uci && 
                        m.Split == DataSplit.TrainPool &&
                        m.TrueLabel != null)
             .OrderBy(m => m.Id)
-            .Take(maxSamples)
-            .Select(m => new { m.Text, m.TrueLabel })
-            .ToListAsync(ct);
+            .Select(m => new { m.Text, m.TrueLabel });
+
+        // Preseti uzimaju prvih N po Id-u; sa seed-om se uzorkuje nasumično
+        var uciTrainData = options.Seed.HasValue
+            ? Sample(await uciQuery.ToListAsync(ct), options.MaxSamples, new Random(options.Seed.Value))
+            : await uciQuery.Take(options.MaxSamples).ToListAsync(ct);
 
         ct.ThrowIfCancellationRequested();
 
@@ -86,13 +140,17 @@ public class TrainingService
             .Select(r => new { r.Message.Text, TrueLabel = (Label?)r.Label })
             .ToListAsync(ct);
 
-        // Kombiniraj
+        // Kombiniraj (gold labele nose svoju težinu)
         var trainingSamples = uciTrainData
-            .Concat(goldData)
             .Where(x => x.TrueLabel != null)
             .Select(x => new TrainingSample(x.Text, x.TrueLabel == Label.Spam))
+            .Concat(goldData
+                .Where(x => x.TrueLabel != null)
+                .Select(x => new TrainingSample(x.Text, x.TrueLabel == Label.Spam, (float)options.GoldWeight)))
             .ToList();
 
+        trainingSamples = Balance(trainingSamples, options.Balancing, new Random(options.Seed ?? 0));
+
         ct.ThrowIfCancellationRequested();
 
         // 2. Pripremi validation set (fiksno)
@@ -100,11 +158,14 @@ public class TrainingService
             .Where(m => m.Source == MessageSource.Uci && 
                        m.Split == DataSplit.ValidationHoldout &&
                        m.TrueLabel != null)
-            .Select(m => new { m.Text, m.TrueLabel })
+            .Select(m => new { m.Id, m.Text, m.TrueLabel })
             .ToListAsync(ct);
 
-        var validationSamples = validationData
+        validationData = validationData
             .Where(x => x.TrueLabel != null)
+            .ToList();
+
+        var validationSamples = validationData
             .Select(x => new TrainingSample(x.Text, x.TrueLabel == Label.Spam))
             .ToList();
 
@@ -116,15 +177,38 @@ public class TrainingService
         var modelFileName = $"model_v{newVersion:D3}.zip";
         var modelPath = Path.Combine(_modelsDirectory, modelFileName);
 
-        // 4. Treniraj
-        await _classifier.TrainAsync(trainingSamples, modelPath);
+        // Kandidat se trenira u zasebnom classifier-u - dijeljeni (live scoring)
+        // mijenja samo ActivateModelAsync, pa odbijen model nikad ne dođe u produkciju
+        var candidate = new MlNetSpamClassifier();
 
-        ct.ThrowIfCancellationRequested();
+        EvaluationMetrics metrics;
+        IList<double> validationScores;
+        try
+        {
+            // 4. Treniraj (classifier javlja Featurizing i Training)
+            await candidate.TrainAsync(trainingSamples, modelPath, progress, ct, options.Seed);
 
-        // 5. Evaluiraj
-        var metrics = await _classifier.EvaluateAsync(validationSamples);
+            ct.ThrowIfCancellationRequested();
 
-        ct.ThrowIfCancellationRequested();
+            // 5. Evaluiraj
+            progress?.Report(TrainingStage.Evaluating);
+            metrics = await candidate.EvaluateAsync(validationSamples);
+
+            // Sirovi score-ovi za PR/ROC krive (metrike iznad su samo na jednom pragu)
+            validationScores = await candidate.PredictBatchAsync(validationSamples.Select(s => s.Text));
+
+            ct.ThrowIfCancellationRequested();
+        }
+        catch (OperationCanceledException)
+        {
+            DiscardCancelledModel(modelPath);
+            throw;
+        }
+
+        // Od ovdje se ne prekida - ModelVersion bez score-ova ili
+        // napola aktiviran model bio bi gori od završenog treninga
+        progress?.Report(TrainingStage.Saving);
+        ct = CancellationToken.None;
 
         // 6. Kreiraj ModelVersion zapis
         var modelVersion = new ModelVersion
@@ -132,7 +216,9 @@ public class TrainingService
             Version = newVersion,
             TrainerType = "SDCA Logistic Regression",
             Featurizer = "FeaturizeText TF-IDF",
-            TrainTemplate = template,
+            TrainTemplate = options.Template,
+            TrainingConfigName = options.ConfigName,
+            Trigger = trigger,
             TrainSetSize = trainingSamples.Count,
             GoldIncludedCount = goldData.Count,
             ValidationSetSize = validationSamples.Count,
@@ -150,10 +236,35 @@ public class TrainingService
         _context.ModelVersions.Add(modelVersion);
         await _context.SaveChangesAsync(ct);
 
-        // 7. Aktiviraj ako je zatraženo
+        _context.ValidationScores.AddRange(validationData.Select((x, i) => new ValidationScore
+        {
+            ModelVersionId = modelVersion.Id,
+            MessageId = x.Id,
+            PSpam = validationScores[i],
+            IsSpam = validationSamples[i].IsSpam
+        }));
+        await _context.SaveChangesAsync(ct);
+
+        // 7. Aktiviraj ako je zatraženo i kandidat prođe promotion pravila
         if (activate)
         {
-            await ActivateModelAsync(modelVersion.Id, ct);
+            var checks = await EvaluatePromotionAsync(modelVersion, settings, ct);
+            var failed = checks.Where(c => !c.Passed).ToList();
+
+            _context.PromotionChecks.AddRange(checks);
+
+            if (failed.Count == 0)
+            {
+                modelVersion.PromotionDecision = PromotionDecision.Activated;
+                await _context.SaveChangesAsync(ct);
+                await ActivateModelAsync(modelVersion.Id, ct);
+            }
+            else
+            {
+                modelVersion.PromotionDecision = PromotionDecision.Rejected;
+                modelVersion.PromotionReason = "Nije aktiviran: " + string.Join("; ", failed.Select(DescribeCheck));
+                await _context.SaveChangesAsync(ct);
+            }
         }
 
         // 8. Resetuj gold counter
@@ -164,6 +275,120 @@ public class TrainingService
         return modelVersion;
     }
 
+    /// <summary>
+    /// Evaluira promotion pravila za kandidata. Prazna lista = guardrails isključeni.
+    /// F1 pravilo se preskače kad nema aktivnog modela (prvi model).
+    /// </summary>
+    private async Task<List<PromotionCheck>> EvaluatePromotionAsync(
+        ModelVersion candidate,
+        SystemSettings settings,
+        CancellationToken ct)
+    {
+        var checks = new List<PromotionCheck>();
+        if (!settings.PromotionGuardEnabled)
+        {
+            return checks;
+        }
+
+        var active = settings.ActiveModelVersionId.HasValue
+            ? await _context.ModelVersions
+                .AsNoTracking()
+                .FirstOrDefaultAsync(mv => mv.Id == settings.ActiveModelVersionId.Value, ct)
+            : null;
+
+        if (active != null)
+        {
+            var required = active.F1 - settings.PromotionMaxF1Drop;
+            checks.Add(NewCheck(candidate, "F1", candidate.F1, required, active.F1));
+        }
+
+        if (settings.PromotionMinRecall > 0)
+        {
+            checks.Add(NewCheck(candidate, "Recall", candidate.Recall, settings.PromotionMinRecall, null));
+        }
+
+        if (settings.PromotionMinPrecision > 0)
+        {
+            checks.Add(NewCheck(candidate, "Precision", candidate.Precision, settings.PromotionMinPrecision, null));
+        }
+
+        return checks;
+    }
+
+    private static PromotionCheck NewCheck(ModelVersion candidate, string metric, double actual, double required, double? baseline)
+    {
+        return new PromotionCheck
+        {
+            ModelVersionId = candidate.Id,
+            Metric = metric,
+            Actual = actual,
+            Required = required,
+            Baseline = baseline,
+            Passed = actual >= required
+        };
+    }
+
+    private static string DescribeCheck(PromotionCheck check)
+    {
+        var rule = $"{check.Metric} {check.Actual:F3} < {check.Required:F3}";
+        return check.Baseline.HasValue ? $"{rule} (aktivni {check.Baseline:F3})" : rule;
+    }
+
+    private static List<T> Sample<T>(List<T> items, int count, Random random)
+    {
+        return items.Count <= count
+            ? items
+            : items.OrderBy(_ => random.Next()).Take(count).ToList();
+    }
+
+    /// <summary>
+    /// Izjednačava broj ham i spam primjera prema strategiji.
+    /// </summary>
+    private static List<TrainingSample> Balance(List<TrainingSample> samples, ClassBalancing balancing, Random random)
+    {
+        var spam = samples.Where(s => s.IsSpam).ToList();
+        var ham = samples.Where(s => !s.IsSpam).ToList();
+        if (balancing == ClassBalancing.None || spam.Count == 0 || ham.Count == 0)
+        {
+            return samples;
+        }
+
+        var (majority, minority) = spam.Count >= ham.Count ? (spam, ham) : (ham, spam);
+
+        switch (balancing)
+        {
+            case ClassBalancing.Undersample:
+                return Sample(majority, minority.Count, random).Concat(minority).ToList();
+
+            case ClassBalancing.Oversample:
+                var extra = Enumerable.Range(0, majority.Count - minority.Count)
+                    .Select(_ => minority[random.Next(minority.Count)]);
+                return majority.Concat(minority).Concat(extra).ToList();
+
+            case ClassBalancing.Weighted:
+                var ratio = (float)majority.Count / minority.Count;
+                foreach (var s in minority)
+                {
+                    s.Weight *= ratio;
+                }
+                return samples;
+
+            default:
+                return samples;
+        }
+    }
+
+    /// <summary>
+    /// Briše fajl prekinutog treninga.
+    /// </summary>
+    private static void DiscardCancelledModel(string modelPath)
+    {
+        if (File.Exists(modelPath))
+        {
+            File.Delete(modelPath);
+        }
+    }
+
     /// <summary>
     /// Aktivira postojeći model.
     /// </summary>
@@ -226,3 +451,49 @@ public class TrainingService
         return true;
     }
 }
+
+/// <summary>
+/// Parametri jednog treninga - iz preseta ili iz TrainingConfig-a.
+/// </summary>
+public class TrainingOptions
+{
+    // Veličine preset template-a
+    private static readonly Dictionary<TrainTemplate, int> TemplateSizes = new()
+    {
+        { TrainTemplate.Light, 500 },
+        { TrainTemplate.Medium, 2000 },
+        { TrainTemplate.Full, int.MaxValue }
+    };
+
+    public TrainTemplate Template { get; set; }
+    public string? ConfigName { get; set; }
+    public int MaxSamples { get; set; } = int.MaxValue;
+    public double GoldWeight { get; set; } = 1.0;
+    public ClassBalancing Balancing { get; set; } = ClassBalancing.None;
+
+    /// <summary>null = deterministički prvih N po Id-u (ponašanje preseta)</summary>
+    public int? Seed { get; set; }
+
+    public static TrainingOptions FromTemplate(TrainTemplate template)
+    {
+        if (!TemplateSizes.TryGetValue(template, out var size))
+        {
+            throw new ArgumentException("Custom trening treba TrainingConfig.", nameof(template));
+        }
+
+        return new TrainingOptions { Template = template, MaxSamples = size };
+    }
+
+    public static TrainingOptions FromConfig(TrainingConfig config)
+    {
+        return new TrainingOptions
+        {
+            Template = TrainTemplate.Custom,
+            ConfigName = config.Name,
+            MaxSamples = config.TrainSetSize ?? int.MaxValue,
+            GoldWeight = config.GoldWeight,
+            Balancing = config.Balancing,
+            Seed = config.Seed
+        };
+    }
+}
@@ -0,0 +1,122 @@
+/*
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *          SPAM AGENT - USER SERVICE
+ * ═══════════════════════════════════════════════════════════════════════════════
+ *
+ * Korisnici i provjera lozinki. Token (JWT) izdaje web sloj - ovaj servis
+ * samo potvrđuje ko je korisnik i koju ulogu ima.
+ */
+
+using System;
+using System.Security.Cryptography;
+using System.Threading.Tasks;
+using Microsoft.EntityFrameworkCore;
+using AiAgents.SpamAgent.Domain;
+using AiAgents.SpamAgent.Infrastructure;
+
+namespace AiAgents.SpamAgent.Application.Services;
+
+/// <summary>
+/// Servis za korisnike: prijava i demo nalozi.
+/// </summary>
+public class UserService
+{
+    private const int HashIterations = 100_000;
+    private const int SaltSize = 16;
+    private const int HashSize = 32;
+
+    /// <summary>
+    /// Demo nalozi koji se kreiraju u praznoj bazi - po jedan za svaku ulogu.
+    /// </summary>
+    public static readonly (string Username, string Password, string DisplayName, UserRole Role)[] DemoUsers =
+    {
+        ("admin", "admin123", "Administrator", UserRole.Admin),
+        ("moderator", "moderator123", "Moderator", UserRole.Moderator),
+        ("viewer", "viewer123", "Viewer", UserRole.Viewer)
+    };
+
+    private readonly SpamAgentDbContext _context;
+
+    public UserService(SpamAgentDbContext context)
+    {
+        _context = context;
+    }
+
+    /// <summary>
+    /// Provjerava korisničko ime i lozinku. Poruka greške je ista za oba slučaja
+    /// da se ne otkriva koja korisnička imena postoje.
+    /// </summary>
+    public async Task<(bool success, string message, User? user)> ValidateCredentialsAsync(string username, string password)
+    {
+        var normalized = username.Trim().ToLowerInvariant();
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Username == normalized);
+
+        if (user == null || !VerifyPassword(password, user.PasswordHash))
+        {
+            return (false, "Pogrešno korisničko ime ili lozinka.", null);
+        }
+
+        user.LastLoginAtUtc = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return (true, $"Prijavljen {user.Username}.", user);
+    }
+
+    public async Task<User?> GetByUsernameAsync(string username)
+    {
+        var normalized = username.Trim().ToLowerInvariant();
+        return await _context.Users.AsNoTracking().FirstOrDefaultAsync(u => u.Username == normalized);
+    }
+
+    /// <summary>
+    /// Kreira demo naloge ako još nema nijednog korisnika.
+    /// </summary>
+    /// <returns>Broj kreiranih korisnika</returns>
+    public async Task<int> EnsureDemoUsersAsync()
+    {
+        if (await _context.Users.AnyAsync())
+        {
+            return 0;
+        }
+
+        foreach (var (username, password, displayName, role) in DemoUsers)
+        {
+            _context.Users.Add(new User
+            {
+                Username = username,
+                DisplayName = displayName,
+                PasswordHash = HashPassword(password),
+                Role = role
+            });
+        }
+
+        await _context.SaveChangesAsync();
+        return DemoUsers.Length;
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    //                     PASSWORD HASHING (PBKDF2-SHA256)
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    public static string HashPassword(string password)
+    {
+        var salt = RandomNumberGenerator.GetBytes(SaltSize);
+        var hash = Rfc2898DeriveBytes.Pbkdf2(password, salt, HashIterations, HashAlgorithmName.SHA256, HashSize);
+        return $"{HashIterations}.{Convert.ToBase64String(salt)}.{Convert.ToBase64String(hash)}";
+    }
+
+    private static bool VerifyPassword(string password, string storedHash)
+    {
+        var parts = storedHash.Split('.');
+        if (parts.Length != 3 || !int.TryParse(parts[0], out var iterations))
+        {
+            return false;
+        }
+
+        var salt = Convert.FromBase64String(parts[1]);
+        var expected = Convert.FromBase64String(parts[2]);
+        var actual = Rfc2898DeriveBytes.Pbkdf2(password, salt, iterations, HashAlgorithmName.SHA256, expected.Length);
+
+        return CryptographicOperations.FixedTimeEquals(actual, expected);
+    }
+}
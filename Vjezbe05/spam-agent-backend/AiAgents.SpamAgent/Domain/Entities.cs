@@ -105,6 +105,9 @@ public class Review
     
     /// <summary>Opcionalna napomena</summary>
     public string? Note { get; set; }
+    
+    /// <summary>TrueLabel poruke prije review-a (vraća se ako se review poništi)</summary>
+    public Label? PreviousTrueLabel { get; set; }
 }
 
 /// <summary>
@@ -129,6 +132,13 @@ public class ModelVersion
     /// <summary>Template korišten za trening</summary>
     public TrainTemplate TrainTemplate { get; set; }
     
+    /// <summary>Ime custom konfiguracije u trenutku treninga (samo za TrainTemplate.Custom)</summary>
+    [MaxLength(100)]
+    public string? TrainingConfigName { get; set; }
+    
+    /// <summary>Da li je trening pokrenut ručno ili kroz auto-retrain</summary>
+    public TrainTrigger Trigger { get; set; } = TrainTrigger.Manual;
+    
     /// <summary>Broj primjera u training setu</summary>
     public int TrainSetSize { get; set; }
     
@@ -158,8 +168,71 @@ public class ModelVersion
     /// <summary>Da li je ovo aktivni model</summary>
     public bool IsActive { get; set; }
     
+    /// <summary>Ishod auto-aktivacije nakon treninga</summary>
+    public PromotionDecision PromotionDecision { get; set; } = PromotionDecision.NotRequested;
+    
+    /// <summary>Zašto je kandidat odbijen (null ako nije)</summary>
+    [MaxLength(500)]
+    public string? PromotionReason { get; set; }
+    
     // Navigacijska svojstva
     public ICollection<Prediction> Predictions { get; set; } = new List<Prediction>();
+    public ICollection<ValidationScore> ValidationScores { get; set; } = new List<ValidationScore>();
+    public ICollection<PromotionCheck> PromotionChecks { get; set; } = new List<PromotionCheck>();
+}
+
+/// <summary>
+/// Jedno promotion pravilo evaluirano za kandidata pri auto-aktivaciji
+/// </summary>
+public class PromotionCheck
+{
+    [Key]
+    public int Id { get; set; }
+    
+    /// <summary>FK na verziju modela (kandidat)</summary>
+    public int ModelVersionId { get; set; }
+    
+    [ForeignKey(nameof(ModelVersionId))]
+    public ModelVersion ModelVersion { get; set; } = null!;
+    
+    /// <summary>Metrika koja se provjerava (F1, Recall, Precision)</summary>
+    [MaxLength(50)]
+    public string Metric { get; set; } = string.Empty;
+    
+    /// <summary>Vrijednost kandidata</summary>
+    public double Actual { get; set; }
+    
+    /// <summary>Minimum koji je kandidat morao dostići</summary>
+    public double Required { get; set; }
+    
+    /// <summary>Vrijednost aktivnog modela za relativna pravila (F1 pad)</summary>
+    public double? Baseline { get; set; }
+    
+    public bool Passed { get; set; }
+}
+
+/// <summary>
+/// Score modela za jednu validacijsku poruku (snima se pri treningu, za PR/ROC krive)
+/// </summary>
+public class ValidationScore
+{
+    [Key]
+    public long Id { get; set; }
+    
+    /// <summary>FK na verziju modela</summary>
+    public int ModelVersionId { get; set; }
+    
+    [ForeignKey(nameof(ModelVersionId))]
+    public ModelVersion ModelVersion { get; set; } = null!;
+    
+    /// <summary>FK na validacijsku poruku</summary>
+    public long MessageId { get; set; }
+    
+    /// <summary>Vjerovatnoća spam-a (0.0 - 1.0)</summary>
+    public double PSpam { get; set; }
+    
+    /// <summary>Prava labela u trenutku treninga</summary>
+    public bool IsSpam { get; set; }
 }
 
 /// <summary>
@@ -193,4 +266,78 @@ public class SystemSettings
     
     /// <summary>Vrijeme zadnjeg treninga</summary>
     public DateTime? LastRetrainAtUtc { get; set; }
+    
+    /// <summary>Konfiguracija za auto-retrain (null = Medium preset)</summary>
+    public int? AutoRetrainConfigId { get; set; }
+    
+    [ForeignKey(nameof(AutoRetrainConfigId))]
+    public TrainingConfig? AutoRetrainConfig { get; set; }
+    
+    /// <summary>Da li auto-aktivacija provjerava promotion pravila</summary>
+    public bool PromotionGuardEnabled { get; set; }
+    
+    /// <summary>Dozvoljeni pad F1 u odnosu na aktivni model (0.01 = F1 ≥ aktivni − 0.01)</summary>
+    public double PromotionMaxF1Drop { get; set; } = 0.01;
+    
+    /// <summary>Minimalni recall kandidata (0 = bez pravila)</summary>
+    public double PromotionMinRecall { get; set; }
+    
+    /// <summary>Minimalni precision kandidata (0 = bez pravila)</summary>
+    public double PromotionMinPrecision { get; set; }
+}
+
+/// <summary>
+/// Imenovana konfiguracija treninga (custom template)
+/// </summary>
+public class TrainingConfig
+{
+    [Key]
+    public int Id { get; set; }
+    
+    /// <summary>Jedinstveno ime koje se bira u UI-u</summary>
+    [MaxLength(100)]
+    public string Name { get; set; } = string.Empty;
+    
+    /// <summary>Broj UCI train-pool poruka (null = sve); gold labele se uvijek uključuju</summary>
+    public int? TrainSetSize { get; set; }
+    
+    /// <summary>Težina gold labela u odnosu na UCI poruke (1 = jednako)</summary>
+    public double GoldWeight { get; set; } = 1.0;
+    
+    /// <summary>Izjednačavanje klasa</summary>
+    public ClassBalancing Balancing { get; set; } = ClassBalancing.None;
+    
+    /// <summary>Seed za uzorkovanje i trener</summary>
+    public int Seed { get; set; } = 42;
+    
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAtUtc { get; set; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Korisnik web aplikacije (login + uloga)
+/// </summary>
+public class User
+{
+    [Key]
+    public int Id { get; set; }
+    
+    /// <summary>Jedinstveno korisničko ime; upisuje se kao ReviewedBy</summary>
+    [MaxLength(50)]
+    public string Username { get; set; } = string.Empty;
+    
+    /// <summary>Ime za prikaz u UI-u</summary>
+    [MaxLength(100)]
+    public string DisplayName { get; set; } = string.Empty;
+    
+    /// <summary>PBKDF2 hash u formatu iteracije.salt.hash (Base64)</summary>
+    [Required]
+    public string PasswordHash { get; set; } = string.Empty;
+    
+    public UserRole Role { get; set; } = UserRole.Viewer;
+    
+    public DateTime CreatedAtUtc { get; set; } = DateTime.UtcNow;
+    
+    /// <summary>Zadnja uspješna prijava</summary>
+    public DateTime? LastLoginAtUtc { get; set; }
 }
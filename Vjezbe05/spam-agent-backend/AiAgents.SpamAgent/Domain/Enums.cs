@@ -93,5 +93,89 @@ public enum TrainTemplate
     Medium = 1,
     
     /// <summary>Puni dataset</summary>
-    Full = 2
+    Full = 2,
+    
+    /// <summary>Imenovana konfiguracija (TrainingConfig)</summary>
+    Custom = 3
+}
+
+/// <summary>
+/// Kako se izjednačavaju klase u training setu
+/// </summary>
+public enum ClassBalancing
+{
+    /// <summary>Training set ostaje kakav jeste</summary>
+    None = 0,
+    
+    /// <summary>Većinska klasa se nasumično smanjuje na veličinu manjinske</summary>
+    Undersample = 1,
+    
+    /// <summary>Manjinska klasa se ponavlja do veličine većinske</summary>
+    Oversample = 2,
+    
+    /// <summary>Manjinska klasa dobija veću težinu (omjer većinska/manjinska)</summary>
+    Weighted = 3
+}
+
+/// <summary>
+/// Šta je pokrenulo trening modela
+/// </summary>
+public enum TrainTrigger
+{
+    /// <summary>Ručno pokrenut trening (Admin / CLI)</summary>
+    Manual = 0,
+    
+    /// <summary>Auto-retrain nakon dovoljno gold labela</summary>
+    AutoRetrain = 1
+}
+
+/// <summary>
+/// Korak treninga, za praćenje napretka training job-a
+/// </summary>
+public enum TrainingStage
+{
+    /// <summary>Učitavanje training i validation seta iz baze</summary>
+    LoadingData = 0,
+    
+    /// <summary>FeaturizeText - izgradnja rječnika i TF-IDF</summary>
+    Featurizing = 1,
+    
+    /// <summary>SDCA Logistic Regression</summary>
+    Training = 2,
+    
+    /// <summary>Metrike i score-ovi na validation setu</summary>
+    Evaluating = 3,
+    
+    /// <summary>Upis ModelVersion-a i aktivacija; od ovog koraka se ne prekida</summary>
+    Saving = 4
+}
+
+/// <summary>
+/// Ishod auto-aktivacije novog modela (promotion guardrails)
+/// </summary>
+public enum PromotionDecision
+{
+    /// <summary>Trening bez auto-aktivacije - model čeka ručnu aktivaciju</summary>
+    NotRequested = 0,
+    
+    /// <summary>Sva pravila prošla (ili su guardrails isključeni) - model aktiviran</summary>
+    Activated = 1,
+    
+    /// <summary>Bar jedno pravilo palo - model ostaje neaktivan</summary>
+    Rejected = 2
+}
+
+/// <summary>
+/// Uloga korisnika; svaka viša uloga uključuje prava nižih
+/// </summary>
+public enum UserRole
+{
+    /// <summary>Samo pregled (dashboard, poruke, analiza, historija modela)</summary>
+    Viewer = 0,
+    
+    /// <summary>Review (gold labele) i slanje poruka</summary>
+    Moderator = 1,
+    
+    /// <summary>Trening, aktivacija modela, postavke i simulator</summary>
+    Admin = 2
 }
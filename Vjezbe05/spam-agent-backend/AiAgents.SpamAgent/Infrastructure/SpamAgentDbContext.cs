@@ -21,6 +21,10 @@ public class SpamAgentDbContext : DbContext
     public DbSet<Review> Reviews => Set<Review>();
     public DbSet<ModelVersion> ModelVersions => Set<ModelVersion>();
     public DbSet<SystemSettings> SystemSettings => Set<SystemSettings>();
+    public DbSet<ValidationScore> ValidationScores => Set<ValidationScore>();
+    public DbSet<TrainingConfig> TrainingConfigs => Set<TrainingConfig>();
+    public DbSet<PromotionCheck> PromotionChecks => Set<PromotionCheck>();
+    public DbSet<User> Users => Set<User>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -46,6 +50,31 @@ public class SpamAgentDbContext : DbContext
             .HasIndex(mv => mv.Version)
             .IsUnique();
 
+        // ValidationScore - uvijek se čita po verziji
+        modelBuilder.Entity<ValidationScore>()
+            .HasIndex(vs => vs.ModelVersionId);
+
+        // PromotionCheck - čita se uz verziju modela
+        modelBuilder.Entity<PromotionCheck>()
+            .HasIndex(pc => pc.ModelVersionId);
+
+        // TrainingConfig - ime se bira u UI-u
+        modelBuilder.Entity<TrainingConfig>()
+            .HasIndex(tc => tc.Name)
+            .IsUnique();
+
+        // User - prijava po korisničkom imenu
+        modelBuilder.Entity<User>()
+            .HasIndex(u => u.Username)
+            .IsUnique();
+
+        // Brisanje konfiguracije vraća auto-retrain na preset
+        modelBuilder.Entity<SystemSettings>()
+            .HasOne(s => s.AutoRetrainConfig)
+            .WithMany()
+            .HasForeignKey(s => s.AutoRetrainConfigId)
+            .OnDelete(DeleteBehavior.SetNull);
+
         // SystemSettings - singleton seed
         modelBuilder.Entity<SystemSettings>()
             .HasData(new SystemSettings
@@ -83,8 +112,28 @@ public class SpamAgentDbContext : DbContext
             .Property(r => r.Label)
             .HasConversion<string>();
 
+        modelBuilder.Entity<Review>()
+            .Property(r => r.PreviousTrueLabel)
+            .HasConversion<string>();
+
         modelBuilder.Entity<ModelVersion>()
             .Property(mv => mv.TrainTemplate)
             .HasConversion<string>();
+
+        modelBuilder.Entity<ModelVersion>()
+            .Property(mv => mv.Trigger)
+            .HasConversion<string>();
+
+        modelBuilder.Entity<ModelVersion>()
+            .Property(mv => mv.PromotionDecision)
+            .HasConversion<string>();
+
+        modelBuilder.Entity<TrainingConfig>()
+            .Property(tc => tc.Balancing)
+            .HasConversion<string>();
+
+        modelBuilder.Entity<User>()
+            .Property(u => u.Role)
+            .HasConversion<string>();
     }
 }
@@ -4,8 +4,11 @@
  * ═══════════════════════════════════════════════════════════════════════════════
  */
 
+using System;
 using System.Collections.Generic;
+using System.Threading;
 using System.Threading.Tasks;
+using AiAgents.SpamAgent.Domain;
 
 namespace AiAgents.SpamAgent.ML;
 
@@ -19,8 +22,16 @@ public interface ISpamClassifier
     /// </summary>
     /// <param name="trainingData">Lista (text, isSpam) parova</param>
     /// <param name="modelPath">Putanja gdje će se sačuvati model</param>
+    /// <param name="progress">Javlja Featurizing i Training korake (opciono)</param>
+    /// <param name="ct">Provjerava se između koraka, ne usred fit-a</param>
+    /// <param name="seed">Seed trenera (null = seed classifier-a)</param>
     /// <returns>Putanja do sačuvanog modela</returns>
-    Task<string> TrainAsync(IEnumerable<TrainingSample> trainingData, string modelPath);
+    Task<string> TrainAsync(
+        IEnumerable<TrainingSample> trainingData,
+        string modelPath,
+        IProgress<TrainingStage>? progress = null,
+        CancellationToken ct = default,
+        int? seed = null);
 
     /// <summary>
     /// Evaluira model na zadanim podacima.
@@ -61,12 +72,16 @@ public class TrainingSample
     public string Text { get; set; } = string.Empty;
     public bool IsSpam { get; set; }
 
+    /// <summary>Težina primjera pri treningu (gold labele, balansiranje klasa)</summary>
+    public float Weight { get; set; } = 1f;
+
     public TrainingSample() { }
     
-    public TrainingSample(string text, bool isSpam)
+    public TrainingSample(string text, bool isSpam, float weight = 1f)
     {
         Text = text;
         IsSpam = isSpam;
+        Weight = weight;
     }
 }
 
@@ -8,9 +8,11 @@ using System;
 using System.Collections.Generic;
 using System.IO;
 using System.Linq;
+using System.Threading;
 using System.Threading.Tasks;
 using Microsoft.ML;
 using Microsoft.ML.Data;
+using AiAgents.SpamAgent.Domain;
 
 namespace AiAgents.SpamAgent.ML;
 
@@ -31,26 +33,48 @@ public class MlNetSpamClassifier : ISpamClassifier
         _mlContext = new MLContext(seed);
     }
 
-    public Task<string> TrainAsync(IEnumerable<TrainingSample> trainingData, string modelPath)
+    public Task<string> TrainAsync(
+        IEnumerable<TrainingSample> trainingData,
+        string modelPath,
+        IProgress<TrainingStage>? progress = null,
+        CancellationToken ct = default,
+        int? seed = null)
     {
+        // Poseban context da seed konfiguracije ne mijenja context za predikcije
+        var mlContext = seed.HasValue ? new MLContext(seed) : _mlContext;
+
         // Konvertuj u ML.NET format
         var data = trainingData.Select(s => new SmsInput
         {
             Text = s.Text,
-            Label = s.IsSpam
+            Label = s.IsSpam,
+            Weight = s.Weight
         }).ToList();
 
-        var trainData = _mlContext.Data.LoadFromEnumerable(data);
+        var trainData = mlContext.Data.LoadFromEnumerable(data);
 
         // Pipeline: Text → Features → SDCA Logistic Regression
-        var pipeline = _mlContext.Transforms.Text
+        // Dva fit-a umjesto jednog da bi se napredak mogao javiti po koraku
+        progress?.Report(TrainingStage.Featurizing);
+        var featurizer = mlContext.Transforms.Text
             .FeaturizeText("Features", nameof(SmsInput.Text))
-            .Append(_mlContext.BinaryClassification.Trainers.SdcaLogisticRegression(
-                labelColumnName: nameof(SmsInput.Label),
-                featureColumnName: "Features"));
+            .Fit(trainData);
+        var featurized = featurizer.Transform(trainData);
+
+        ct.ThrowIfCancellationRequested();
 
         // Treniraj
-        _model = pipeline.Fit(trainData);
+        progress?.Report(TrainingStage.Training);
+        var trainer = mlContext.BinaryClassification.Trainers
+            .SdcaLogisticRegression(
+                labelColumnName: nameof(SmsInput.Label),
+                featureColumnName: "Features",
+                exampleWeightColumnName: nameof(SmsInput.Weight))
+            .Fit(featurized);
+
+        ct.ThrowIfCancellationRequested();
+
+        _model = new TransformerChain<ITransformer>(featurizer, trainer);
         _predictionEngine = _mlContext.Model.CreatePredictionEngine<SmsInput, SmsPrediction>(_model);
 
         // Sačuvaj model
@@ -165,6 +189,9 @@ public class MlNetSpamClassifier : ISpamClassifier
     {
         public string Text { get; set; } = string.Empty;
         public bool Label { get; set; }
+
+        // Koristi se samo pri treningu; za predikcije ostaje 1
+        public float Weight { get; set; } = 1f;
     }
 
     private class SmsPrediction
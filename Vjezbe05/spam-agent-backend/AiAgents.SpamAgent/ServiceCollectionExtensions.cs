@@ -56,6 +56,8 @@ public static class ServiceCollectionExtensions
         services.AddScoped<QueueService>();
         services.AddScoped<ReviewService>();
         services.AddScoped<ScoringService>();
+        services.AddScoped<TrainingConfigService>();
+        services.AddScoped<UserService>();
 
         // TrainingService treba modelsDirectory
         services.AddScoped<TrainingService>(sp =>
@@ -92,6 +94,10 @@ public static class ServiceCollectionExtensions
         // Kreiraj bazu ako ne postoji
         await context.Database.EnsureCreatedAsync();
 
+        // Demo nalozi (admin / moderator / viewer) u praznoj bazi
+        var userService = scope.ServiceProvider.GetRequiredService<UserService>();
+        await userService.EnsureDemoUsersAsync();
+
         // Osiguraj da folder za modele postoji (da ne puca pri prvom snimanju)
         if (!string.IsNullOrWhiteSpace(options.ModelsDirectory))
         {
@@ -1,16 +1,32 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { Router, RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
 import { SignalRService } from './services/signalr.service';
+import { StateService } from './services/state.service';
+import { NotificationService } from './services/notification.service';
+import { ConnectivityService } from './services/connectivity.service';
+import { AuthService } from './services/auth.service';
+import { ConnectionStatus } from './services/signalr.service';
+import { UserRole } from './models/api.models';
+import { NotificationToastsComponent } from './components/notification-toasts/notification-toasts.component';
+import { NotificationHistoryComponent } from './components/notification-history/notification-history.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, RouterOutlet, RouterLink, RouterLinkActive],
+  imports: [
+    CommonModule,
+    RouterOutlet,
+    RouterLink,
+    RouterLinkActive,
+    NotificationToastsComponent,
+    NotificationHistoryComponent
+  ],
   template: `
     <div class="h-screen flex flex-col">
       <!-- Navigation -->
-      <nav class="bg-gray-800 border-b border-gray-700">
+      <nav *ngIf="user$ | async as user" class="bg-gray-800 border-b border-gray-700">
         <div class="px-6">
           <div class="flex items-center justify-between h-14">
             <!-- Logo -->
@@ -34,6 +50,7 @@ import { SignalRService } from './services/signalr.service';
               </a>
               
               <a 
+                *ngIf="hasRole('Moderator')"
                 routerLink="/review"
                 routerLinkActive="bg-gray-700 text-white"
                 class="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors flex items-center gap-2"
@@ -48,6 +65,56 @@ import { SignalRService } from './services/signalr.service';
               </a>
               
               <a 
+                routerLink="/messages"
+                routerLinkActive="bg-gray-700 text-white"
+                class="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors flex items-center gap-2"
+              >
+                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" 
+                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                Messages
+              </a>
+              
+              <a 
+                *ngIf="hasRole('Moderator')"
+                routerLink="/playground"
+                routerLinkActive="bg-gray-700 text-white"
+                class="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors flex items-center gap-2"
+              >
+                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" 
+                    d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
+                </svg>
+                Playground
+              </a>
+              
+              <a 
+                routerLink="/history"
+                routerLinkActive="bg-gray-700 text-white"
+                class="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors flex items-center gap-2"
+              >
+                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" 
+                    d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+                </svg>
+                Model History
+              </a>
+              
+              <a 
+                routerLink="/analysis"
+                routerLinkActive="bg-gray-700 text-white"
+                class="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors flex items-center gap-2"
+              >
+                <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" 
+                    d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+                </svg>
+                Analysis
+              </a>
+              
+              <a 
+                *ngIf="hasRole('Admin')"
                 routerLink="/admin"
                 routerLinkActive="bg-gray-700 text-white"
                 class="px-4 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors flex items-center gap-2"
@@ -63,24 +130,184 @@ import { SignalRService } from './services/signalr.service';
 
             <!-- Status -->
             <div class="flex items-center gap-4 text-sm text-gray-400">
-              <span>Spam Agent v1.0</span>
+              <app-notification-history />
+              <div
+                class="flex items-center gap-2 px-3 py-1 rounded-full bg-gray-700/60"
+                [title]="'Hub: ' + (connectionStatus$ | async)"
+              >
+                <span class="w-2 h-2 rounded-full" [ngClass]="getStatusDotClass(connectionStatus$ | async)"></span>
+                <span>{{ getStatusLabel(connectionStatus$ | async) }}</span>
+                <span *ngIf="(connectionStatus$ | async) === 'connected' && (latency$ | async) as latency"
+                      class="font-mono text-xs" [ngClass]="getLatencyClass(latency)">
+                  {{ latency }} ms
+                </span>
+              </div>
+              <div class="flex items-center gap-2 pl-4 border-l border-gray-700">
+                <span class="text-gray-200" [title]="user.username">{{ user.displayName }}</span>
+                <span class="badge" [ngClass]="'badge-' + (user.role | lowercase)">{{ user.role }}</span>
+                <button
+                  class="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                  title="Sign out"
+                  (click)="logout()"
+                >
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+                      d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+                  </svg>
+                </button>
+              </div>
             </div>
           </div>
         </div>
       </nav>
 
+      <!-- Offline Banner -->
+      <div *ngIf="(user$ | async) && (offline$ | async)" class="bg-red-900/80 border-b border-red-700 px-6 py-2 text-sm text-red-100 flex items-center gap-3">
+        <span class="w-2 h-2 rounded-full bg-red-400 animate-pulse"></span>
+        <span>
+          Backend unreachable — training, enqueueing and other changes are disabled until the connection is back.
+          Reviews are queued and sent on reconnect.
+        </span>
+        <span *ngIf="(outbox$ | async)?.length as queued" class="ml-auto font-semibold">
+          {{ queued }} review{{ queued === 1 ? '' : 's' }} queued
+        </span>
+      </div>
+
       <!-- Router Outlet -->
       <main class="flex-1 overflow-hidden">
         <router-outlet></router-outlet>
       </main>
+
+      <!-- Global Notifications -->
+      <app-notification-toasts />
     </div>
   `
 })
-export class AppComponent implements OnInit {
-  constructor(private signalRService: SignalRService) {}
+export class AppComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  connectionStatus$ = this.connectivityService.status$;
+  latency$ = this.connectivityService.latency$;
+  offline$ = this.connectivityService.offline$;
+  outbox$ = this.connectivityService.outbox$;
+  user$ = this.authService.user$;
+
+  constructor(
+    private authService: AuthService,
+    private signalRService: SignalRService,
+    private connectivityService: ConnectivityService,
+    private stateService: StateService,
+    private notificationService: NotificationService,
+    private router: Router
+  ) {}
 
   ngOnInit(): void {
-    // Connect to SignalR on app start
-    this.signalRService.connect();
+    // Model events matter on every page; pages join the rest themselves
+    this.signalRService.joinGroup('models');
+
+    // A stored token may belong to a user that no longer exists
+    this.authService.verifySession();
+
+    // The hub needs a token: connect on sign-in, drop the connection on sign-out
+    this.user$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(user => {
+        if (user) {
+          this.signalRService.connect();
+        } else {
+          this.signalRService.disconnect();
+        }
+      });
+
+    this.authService.sessionExpired$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.notificationService.warning('Session expired — please sign in again');
+        this.router.navigate(['/login'], { queryParams: { returnUrl: this.router.url } });
+      });
+
+    // An activation in any tab switches the active model everywhere
+    this.signalRService.modelActivated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => {
+        this.stateService.setActiveModel(event.model);
+        this.notificationService.success(`Model v${event.version} activated`);
+      });
+
+    // Retrain notifications are app-wide, whichever page is open
+    this.signalRService.modelRetrained$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => {
+        if (event.promotionDecision === 'Rejected') {
+          this.notificationService.warning(
+            `Model v${event.newVersion} trained but kept inactive: failed promotion rules`,
+            {
+              lifetimeMs: 10000,
+              actions: [{ label: 'View rules', run: () => this.router.navigate(['/admin']) }]
+            }
+          );
+          return;
+        }
+
+        this.notificationService.success(
+          `Model v${event.newVersion} trained! Accuracy: ${(event.metrics.accuracy * 100).toFixed(1)}%`,
+          {
+            lifetimeMs: 8000,
+            actions: [{ label: 'View model', run: () => this.router.navigate(['/admin']) }]
+          }
+        );
+      });
+
+    this.signalRService.resync$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(result => {
+        if (result.snapshotRequired) {
+          this.notificationService.warning('Reconnected — missed too many updates, data reloaded');
+        } else if (result.recovered > 0) {
+          this.notificationService.info(
+            `Reconnected — recovered ${result.recovered} missed event${result.recovered === 1 ? '' : 's'}`
+          );
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.signalRService.leaveGroup('models');
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  hasRole(role: UserRole): boolean {
+    return this.authService.hasRole(role);
+  }
+
+  logout(): void {
+    this.authService.logout();
+    this.router.navigate(['/login']);
+    this.notificationService.info('Signed out');
+  }
+
+  getStatusLabel(status: ConnectionStatus | null): string {
+    switch (status) {
+      case 'connected': return 'Live';
+      case 'connecting': return 'Connecting';
+      case 'reconnecting': return 'Reconnecting';
+      default: return 'Offline';
+    }
+  }
+
+  getStatusDotClass(status: ConnectionStatus | null): string {
+    switch (status) {
+      case 'connected': return 'bg-green-500';
+      case 'connecting':
+      case 'reconnecting': return 'bg-yellow-500 animate-pulse';
+      default: return 'bg-red-500';
+    }
+  }
+
+  getLatencyClass(latency: number): string {
+    if (latency < 150) return 'text-green-400';
+    if (latency < 500) return 'text-yellow-400';
+    return 'text-red-400';
   }
 }
@@ -1,11 +1,17 @@
 import { ApplicationConfig } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { routes } from './app.routes';
+import { RUNTIME_CONFIG, RuntimeConfig } from './runtime-config';
+import { apiErrorInterceptor } from './interceptors/api-error.interceptor';
+import { authInterceptor } from './interceptors/auth.interceptor';
 
-export const appConfig: ApplicationConfig = {
-  providers: [
-    provideRouter(routes),
-    provideHttpClient()
-  ]
-};
+export function createAppConfig(runtimeConfig: RuntimeConfig): ApplicationConfig {
+  return {
+    providers: [
+      provideRouter(routes),
+      provideHttpClient(withInterceptors([apiErrorInterceptor, authInterceptor])),
+      { provide: RUNTIME_CONFIG, useValue: runtimeConfig }
+    ]
+  };
+}
@@ -2,11 +2,33 @@ import { Routes } from '@angular/router';
 import { DashboardComponent } from './pages/dashboard/dashboard.component';
 import { ReviewComponent } from './pages/review/review.component';
 import { AdminComponent } from './pages/admin/admin.component';
+import { ModelHistoryComponent } from './pages/model-history/model-history.component';
+import { MessageExplorerComponent } from './pages/message-explorer/message-explorer.component';
+import { MessageDetailComponent } from './pages/message-detail/message-detail.component';
+import { AnalysisComponent } from './pages/analysis/analysis.component';
+import { PlaygroundComponent } from './pages/playground/playground.component';
+import { UploadComponent } from './pages/upload/upload.component';
+import { LoginComponent } from './pages/login/login.component';
+import { authGuard, guestGuard } from './guards/auth.guard';
 
 export const routes: Routes = [
-  { path: '', redirectTo: '/dashboard', pathMatch: 'full' },
-  { path: 'dashboard', component: DashboardComponent },
-  { path: 'review', component: ReviewComponent },
-  { path: 'admin', component: AdminComponent },
+  { path: 'login', component: LoginComponent, canActivate: [guestGuard] },
+  {
+    // Everything else needs a signed-in user; minRole narrows it further
+    path: '',
+    canActivateChild: [authGuard],
+    children: [
+      { path: '', redirectTo: '/dashboard', pathMatch: 'full' },
+      { path: 'dashboard', component: DashboardComponent },
+      { path: 'review', component: ReviewComponent, data: { minRole: 'Moderator' } },
+      { path: 'admin', component: AdminComponent, data: { minRole: 'Admin' } },
+      { path: 'history', component: ModelHistoryComponent },
+      { path: 'analysis', component: AnalysisComponent },
+      { path: 'messages', component: MessageExplorerComponent },
+      { path: 'messages/upload', component: UploadComponent, data: { minRole: 'Moderator' } },
+      { path: 'messages/:id', component: MessageDetailComponent },
+      { path: 'playground', component: PlaygroundComponent, data: { minRole: 'Moderator' } }
+    ]
+  },
   { path: '**', redirectTo: '/dashboard' }
 ];
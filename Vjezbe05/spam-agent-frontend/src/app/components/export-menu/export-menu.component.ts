@@ -0,0 +1,66 @@
+import { Component, ElementRef, EventEmitter, HostListener, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ExportFormat } from '../../utils/export';
+
+@Component({
+  selector: 'app-export-menu',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="relative inline-block">
+      <button
+        class="flex items-center gap-1 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        [ngClass]="compact ? 'p-1 text-gray-400 hover:text-white' : 'btn btn-secondary text-sm'"
+        [disabled]="disabled"
+        [title]="title"
+        (click)="open = !open"
+      >
+        <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        <span *ngIf="!compact">{{ label }}</span>
+      </button>
+
+      <div
+        *ngIf="open"
+        class="absolute right-0 mt-1 w-32 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50 py-1"
+      >
+        <button
+          *ngFor="let f of formats"
+          class="w-full text-left px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700"
+          (click)="select(f.format)"
+        >{{ f.label }}</button>
+      </div>
+    </div>
+  `
+})
+export class ExportMenuComponent {
+  @Input() label = 'Export';
+  @Input() title = 'Export';
+  @Input() disabled = false;
+  /** Icon only, for tight spots such as column headers */
+  @Input() compact = false;
+  @Output() export = new EventEmitter<ExportFormat>();
+
+  readonly formats: Array<{ format: ExportFormat; label: string }> = [
+    { format: 'csv', label: 'CSV' },
+    { format: 'json', label: 'JSON' }
+  ];
+
+  open = false;
+
+  constructor(private elementRef: ElementRef<HTMLElement>) {}
+
+  select(format: ExportFormat): void {
+    this.open = false;
+    this.export.emit(format);
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.open && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.open = false;
+    }
+  }
+}
@@ -0,0 +1,287 @@
+import { Component, Input, OnChanges, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ScoredSample, SpamDecision } from '../../models/api.models';
+
+export type LiveWindow = '1m' | '5m' | '1h';
+
+interface WindowSpec {
+  key: LiveWindow;
+  spanMs: number;
+  bucketMs: number;
+}
+
+interface Bucket {
+  start: number;
+  /** Bucket length so far; the current bucket is still filling */
+  elapsedMs: number;
+  counts: Record<SpamDecision, number>;
+  total: number;
+  correct: number;
+  judged: number;
+}
+
+interface ShareSegment {
+  decision: SpamDecision;
+  y: number;
+  height: number;
+}
+
+@Component({
+  selector: 'app-live-charts',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="bg-gray-800/50 rounded-xl p-4">
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="text-sm font-semibold text-gray-400 uppercase tracking-wide">Live Throughput</h3>
+        <div class="flex gap-1">
+          <button
+            *ngFor="let w of windows"
+            class="px-2 py-0.5 rounded text-xs font-mono"
+            [ngClass]="w.key === window ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'"
+            (click)="setWindow(w.key)"
+          >{{ w.key }}</button>
+        </div>
+      </div>
+
+      <div class="grid grid-cols-3 gap-4">
+        <!-- Messages per minute -->
+        <div>
+          <div class="flex items-baseline justify-between text-xs text-gray-400 mb-1">
+            <span>Messages / min</span>
+            <span class="font-mono text-white text-sm">{{ ratePerMinute.toFixed(1) }}</span>
+          </div>
+          <svg [attr.viewBox]="'0 0 ' + width + ' ' + height" class="w-full h-auto" preserveAspectRatio="none">
+            <line x1="0" [attr.x2]="width" [attr.y1]="height - 0.5" [attr.y2]="height - 0.5" stroke="#374151" />
+            <rect
+              *ngFor="let b of buckets; let i = index"
+              [attr.x]="barX(i)" [attr.width]="barWidth"
+              [attr.y]="height - rateHeight(b)" [attr.height]="rateHeight(b)"
+              fill="#818cf8"
+            >
+              <title>{{ formatTime(b.start) }} · {{ rate(b).toFixed(1) }}/min ({{ b.total }})</title>
+            </rect>
+          </svg>
+          <div class="text-[10px] text-gray-500 text-right">peak {{ peakRate.toFixed(1) }}/min</div>
+        </div>
+
+        <!-- Decision share -->
+        <div>
+          <div class="flex items-baseline justify-between text-xs text-gray-400 mb-1">
+            <span>Routing</span>
+            <span class="font-mono text-sm">
+              <span class="text-green-400">{{ formatShare('Allow') }}</span> ·
+              <span class="text-yellow-400">{{ formatShare('PendingReview') }}</span> ·
+              <span class="text-red-400">{{ formatShare('Block') }}</span>
+            </span>
+          </div>
+          <svg [attr.viewBox]="'0 0 ' + width + ' ' + height" class="w-full h-auto" preserveAspectRatio="none">
+            <rect x="0" y="0" [attr.width]="width" [attr.height]="height" fill="#1f2937" />
+            <g *ngFor="let b of buckets; let i = index">
+              <rect
+                *ngFor="let seg of shareSegments(b)"
+                [attr.x]="barX(i)" [attr.width]="barWidth"
+                [attr.y]="seg.y" [attr.height]="seg.height"
+                [attr.fill]="decisionColors[seg.decision]"
+              >
+                <title>{{ formatTime(b.start) }} · {{ decisionLabels[seg.decision] }} {{ b.counts[seg.decision] }}/{{ b.total }}</title>
+              </rect>
+            </g>
+          </svg>
+          <div class="text-[10px] text-gray-500 text-right">Inbox · Review · Spam</div>
+        </div>
+
+        <!-- Running online accuracy -->
+        <div>
+          <div class="flex items-baseline justify-between text-xs text-gray-400 mb-1">
+            <span>Online accuracy</span>
+            <span class="font-mono text-sm" [ngClass]="accuracy === null ? 'text-gray-500' : 'text-blue-400'">
+              {{ accuracy === null ? '—' : (accuracy * 100).toFixed(1) + '%' }}
+            </span>
+          </div>
+          <svg [attr.viewBox]="'0 0 ' + width + ' ' + height" class="w-full h-auto" preserveAspectRatio="none">
+            <line x1="0" [attr.x2]="width" [attr.y1]="accuracyY(0.5)" [attr.y2]="accuracyY(0.5)"
+                  stroke="#374151" stroke-dasharray="3 3" />
+            <line x1="0" [attr.x2]="width" [attr.y1]="height - 0.5" [attr.y2]="height - 0.5" stroke="#374151" />
+            <path [attr.d]="accuracyPath" fill="none" stroke="#60a5fa" stroke-width="2" />
+          </svg>
+          <div class="text-[10px] text-gray-500 text-right">{{ judged }} labeled, review excluded</div>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class LiveChartsComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() samples: ScoredSample[] | null = [];
+
+  readonly windows: WindowSpec[] = [
+    { key: '1m', spanMs: 60_000, bucketMs: 5_000 },
+    { key: '5m', spanMs: 5 * 60_000, bucketMs: 15_000 },
+    { key: '1h', spanMs: 60 * 60_000, bucketMs: 60_000 }
+  ];
+
+  readonly decisionColors: Record<SpamDecision, string> = {
+    Allow: '#22c55e',
+    PendingReview: '#f59e0b',
+    Block: '#ef4444'
+  };
+
+  readonly decisionLabels: Record<SpamDecision, string> = {
+    Allow: 'Inbox',
+    PendingReview: 'Review',
+    Block: 'Spam'
+  };
+
+  readonly width = 240;
+  readonly height = 64;
+
+  window: LiveWindow = '5m';
+
+  buckets: Bucket[] = [];
+  barWidth = 0;
+  peakRate = 0;
+  ratePerMinute = 0;
+  accuracy: number | null = null;
+  judged = 0;
+  accuracyPath = '';
+
+  private windowTotals: Record<SpamDecision, number> = { Allow: 0, PendingReview: 0, Block: 0 };
+  private windowTotal = 0;
+
+  // Slides the window forward even when nothing is being scored
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    this.tickTimer = setInterval(() => this.build(), 1000);
+  }
+
+  ngOnChanges(): void {
+    this.build();
+  }
+
+  ngOnDestroy(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+    }
+  }
+
+  setWindow(window: LiveWindow): void {
+    this.window = window;
+    this.build();
+  }
+
+  barX(index: number): number {
+    return index * (this.width / this.buckets.length) + 0.5;
+  }
+
+  rate(bucket: Bucket): number {
+    // A bucket that just opened would otherwise read as a burst
+    return bucket.total * 60_000 / Math.max(bucket.elapsedMs, 1000);
+  }
+
+  rateHeight(bucket: Bucket): number {
+    return this.peakRate > 0 ? this.rate(bucket) / this.peakRate * (this.height - 4) : 0;
+  }
+
+  shareSegments(bucket: Bucket): ShareSegment[] {
+    if (bucket.total === 0) return [];
+
+    const segments: ShareSegment[] = [];
+    let y = 0;
+    for (const decision of ['Block', 'PendingReview', 'Allow'] as SpamDecision[]) {
+      const height = bucket.counts[decision] / bucket.total * this.height;
+      if (height > 0) {
+        segments.push({ decision, y, height });
+        y += height;
+      }
+    }
+    return segments;
+  }
+
+  accuracyY(value: number): number {
+    return this.height - 2 - value * (this.height - 4);
+  }
+
+  formatShare(decision: SpamDecision): string {
+    return this.windowTotal > 0 ? `${Math.round(this.windowTotals[decision] / this.windowTotal * 100)}%` : '—';
+  }
+
+  formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     BUCKETING
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  private build(): void {
+    const spec = this.windows.find(w => w.key === this.window)!;
+    const now = Date.now();
+
+    // Buckets are aligned to the clock so bars don't shift between ticks
+    const count = spec.spanMs / spec.bucketMs;
+    const lastStart = Math.floor(now / spec.bucketMs) * spec.bucketMs;
+    const firstStart = lastStart - (count - 1) * spec.bucketMs;
+
+    this.buckets = Array.from({ length: count }, (_, i) => {
+      const start = firstStart + i * spec.bucketMs;
+      return {
+        start,
+        elapsedMs: Math.min(spec.bucketMs, now - start),
+        counts: { Allow: 0, PendingReview: 0, Block: 0 },
+        total: 0,
+        correct: 0,
+        judged: 0
+      };
+    });
+
+    for (const sample of this.samples ?? []) {
+      const index = Math.floor((sample.timestamp - firstStart) / spec.bucketMs);
+      if (index < 0 || index >= count) continue;
+
+      const bucket = this.buckets[index];
+      bucket.counts[sample.decision]++;
+      bucket.total++;
+      if (sample.isCorrect !== undefined) {
+        bucket.judged++;
+        if (sample.isCorrect) bucket.correct++;
+      }
+    }
+
+    this.barWidth = Math.max(this.width / count - 1, 1);
+    this.peakRate = Math.max(0, ...this.buckets.map(b => this.rate(b)));
+
+    this.windowTotals = { Allow: 0, PendingReview: 0, Block: 0 };
+    this.windowTotal = 0;
+    for (const b of this.buckets) {
+      this.windowTotals.Allow += b.counts.Allow;
+      this.windowTotals.PendingReview += b.counts.PendingReview;
+      this.windowTotals.Block += b.counts.Block;
+      this.windowTotal += b.total;
+    }
+    this.ratePerMinute = this.windowTotal * 60_000 / spec.spanMs;
+
+    this.buildAccuracy();
+  }
+
+  /** Cumulative accuracy from the start of the window, one point per bucket with judged scorings so far. */
+  private buildAccuracy(): void {
+    let correct = 0;
+    let judged = 0;
+    const step = this.width / this.buckets.length;
+    const points: string[] = [];
+
+    this.buckets.forEach((b, i) => {
+      correct += b.correct;
+      judged += b.judged;
+      if (judged > 0) {
+        const x = (i + 0.5) * step;
+        points.push(`${points.length === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${this.accuracyY(correct / judged).toFixed(1)}`);
+      }
+    });
+
+    this.judged = judged;
+    this.accuracy = judged > 0 ? correct / judged : null;
+    this.accuracyPath = points.join(' ');
+  }
+}
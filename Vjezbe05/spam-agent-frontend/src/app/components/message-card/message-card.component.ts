@@ -1,14 +1,16 @@
 import { Component, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { MessageCard } from '../../models/api.models';
 
 @Component({
   selector: 'app-message-card',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink],
   template: `
     <div 
-      class="message-card"
+      class="message-card cursor-pointer"
+      [routerLink]="['/messages', message.id]"
       [class.spam]="message.status === 'InSpam'"
       [class.ham]="message.status === 'InInbox'"
       [class.pending]="message.status === 'PendingReview'"
@@ -0,0 +1,263 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ModelVersionDto, MetricsDto } from '../../models/api.models';
+
+export type HistoryAxis = 'version' | 'time';
+
+interface ChartPoint {
+  x: number;
+  model: ModelVersionDto;
+}
+
+interface MetricSeries {
+  key: keyof MetricsDto;
+  label: string;
+  color: string;
+  path: string;
+  points: Array<{ x: number; y: number; value: number; model: ModelVersionDto }>;
+}
+
+interface AxisTick {
+  position: number;
+  label: string;
+}
+
+@Component({
+  selector: 'app-metrics-history-chart',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="w-full">
+      <svg [attr.viewBox]="'0 0 ' + width + ' ' + height" class="w-full h-auto">
+        <!-- Grid + left axis (metrics) -->
+        <g *ngFor="let tick of metricTicks">
+          <line
+            [attr.x1]="padding.left" [attr.x2]="width - padding.right"
+            [attr.y1]="tick.position" [attr.y2]="tick.position"
+            stroke="#374151" stroke-width="1"
+          />
+          <text
+            [attr.x]="padding.left - 8" [attr.y]="tick.position + 4"
+            text-anchor="end" class="fill-gray-400" font-size="11"
+          >{{ tick.label }}</text>
+        </g>
+
+        <!-- Right axis (gold labels) -->
+        <g *ngFor="let tick of goldTicks">
+          <text
+            [attr.x]="width - padding.right + 8" [attr.y]="tick.position + 4"
+            text-anchor="start" class="fill-yellow-400" font-size="11"
+          >{{ tick.label }}</text>
+        </g>
+
+        <!-- Gold bars -->
+        <rect
+          *ngFor="let p of points"
+          [attr.x]="p.x - barWidth / 2"
+          [attr.y]="goldY(p.model.goldIncludedCount)"
+          [attr.width]="barWidth"
+          [attr.height]="plotBottom - goldY(p.model.goldIncludedCount)"
+          fill="#facc15" fill-opacity="0.15"
+        >
+          <title>v{{ p.model.version }}: {{ p.model.goldIncludedCount }} gold labels</title>
+        </rect>
+
+        <!-- Auto-retrain guide lines -->
+        <ng-container *ngFor="let p of points">
+          <line
+            *ngIf="p.model.trigger === 'AutoRetrain'"
+            [attr.x1]="p.x" [attr.x2]="p.x"
+            [attr.y1]="padding.top" [attr.y2]="plotBottom"
+            stroke="#facc15" stroke-opacity="0.4" stroke-dasharray="4 4"
+          />
+        </ng-container>
+
+        <!-- Metric lines -->
+        <g *ngFor="let s of series">
+          <path [attr.d]="s.path" fill="none" [attr.stroke]="s.color" stroke-width="2" />
+          <ng-container *ngFor="let pt of s.points">
+            <circle
+              *ngIf="pt.model.trigger !== 'AutoRetrain'"
+              [attr.cx]="pt.x" [attr.cy]="pt.y" r="4"
+              fill="#1f2937" [attr.stroke]="s.color" stroke-width="2"
+            >
+              <title>v{{ pt.model.version }} · {{ s.label }} {{ (pt.value * 100).toFixed(1) }}% · manual</title>
+            </circle>
+            <rect
+              *ngIf="pt.model.trigger === 'AutoRetrain'"
+              [attr.x]="pt.x - 4" [attr.y]="pt.y - 4" width="8" height="8"
+              [attr.transform]="'rotate(45 ' + pt.x + ' ' + pt.y + ')'"
+              [attr.fill]="s.color"
+            >
+              <title>v{{ pt.model.version }} · {{ s.label }} {{ (pt.value * 100).toFixed(1) }}% · auto-retrain</title>
+            </rect>
+          </ng-container>
+        </g>
+
+        <!-- X axis -->
+        <line
+          [attr.x1]="padding.left" [attr.x2]="width - padding.right"
+          [attr.y1]="plotBottom" [attr.y2]="plotBottom"
+          stroke="#4b5563" stroke-width="1"
+        />
+        <text
+          *ngFor="let tick of xTicks"
+          [attr.x]="tick.position" [attr.y]="plotBottom + 18"
+          text-anchor="middle" class="fill-gray-400" font-size="11"
+        >{{ tick.label }}</text>
+      </svg>
+
+      <!-- Legend -->
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-400">
+        <span *ngFor="let s of series" class="flex items-center gap-1">
+          <span class="w-3 h-0.5 inline-block" [style.backgroundColor]="s.color"></span>
+          {{ s.label }}
+        </span>
+        <span class="flex items-center gap-1">
+          <span class="w-3 h-3 inline-block bg-yellow-400/20"></span>
+          Gold labels (right axis)
+        </span>
+        <span class="flex items-center gap-1">
+          <span class="w-2.5 h-2.5 inline-block rounded-full border-2 border-gray-300"></span>
+          Manual
+        </span>
+        <span class="flex items-center gap-1">
+          <span class="w-2 h-2 inline-block bg-gray-300 rotate-45"></span>
+          Auto-retrain
+        </span>
+      </div>
+    </div>
+  `
+})
+export class MetricsHistoryChartComponent implements OnChanges {
+  @Input() models: ModelVersionDto[] = [];
+  @Input() axis: HistoryAxis = 'version';
+  @Input() metrics: Array<keyof MetricsDto> = ['accuracy', 'precision', 'recall', 'f1'];
+
+  readonly width = 800;
+  readonly height = 320;
+  readonly padding = { top: 16, right: 48, bottom: 32, left: 48 };
+  readonly barWidth = 14;
+
+  points: ChartPoint[] = [];
+  series: MetricSeries[] = [];
+  metricTicks: AxisTick[] = [];
+  goldTicks: AxisTick[] = [];
+  xTicks: AxisTick[] = [];
+
+  private metricMin = 0;
+  private goldMax = 1;
+
+  // Same colours as the metrics table in Admin / StatsPanel
+  private readonly metricStyles: Record<keyof MetricsDto, { label: string; color: string }> = {
+    accuracy: { label: 'Accuracy', color: '#60a5fa' },
+    precision: { label: 'Precision', color: '#4ade80' },
+    recall: { label: 'Recall', color: '#facc15' },
+    f1: { label: 'F1', color: '#c084fc' }
+  };
+
+  get plotBottom(): number {
+    return this.height - this.padding.bottom;
+  }
+
+  ngOnChanges(): void {
+    const sorted = [...this.models].sort((a, b) => a.version - b.version);
+
+    this.points = this.buildPoints(sorted);
+    this.computeScales(sorted);
+
+    this.series = this.metrics.map(key => {
+      const style = this.metricStyles[key];
+      const pts = this.points.map(p => ({
+        x: p.x,
+        y: this.metricY(p.model.metrics[key]),
+        value: p.model.metrics[key],
+        model: p.model
+      }));
+      return {
+        key,
+        label: style.label,
+        color: style.color,
+        path: pts.map((pt, i) => `${i === 0 ? 'M' : 'L'}${pt.x},${pt.y}`).join(' '),
+        points: pts
+      };
+    });
+
+    this.metricTicks = this.buildMetricTicks();
+    this.goldTicks = this.buildGoldTicks();
+    this.xTicks = this.points.map(p => ({
+      position: p.x,
+      label: this.axis === 'version'
+        ? `v${p.model.version}`
+        : new Date(p.model.createdAtUtc).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    }));
+  }
+
+  goldY(count: number): number {
+    const plotHeight = this.plotBottom - this.padding.top;
+    return this.plotBottom - (count / this.goldMax) * plotHeight;
+  }
+
+  private metricY(value: number): number {
+    const plotHeight = this.plotBottom - this.padding.top;
+    const ratio = (value - this.metricMin) / (1 - this.metricMin);
+    return this.plotBottom - ratio * plotHeight;
+  }
+
+  private buildPoints(sorted: ModelVersionDto[]): ChartPoint[] {
+    if (sorted.length === 0) return [];
+
+    const left = this.padding.left + this.barWidth;
+    const right = this.width - this.padding.right - this.barWidth;
+
+    const values = sorted.map(m =>
+      this.axis === 'version' ? m.version : new Date(m.createdAtUtc).getTime()
+    );
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min;
+
+    return sorted.map((model, i) => ({
+      model,
+      x: span === 0 ? (left + right) / 2 : left + ((values[i] - min) / span) * (right - left)
+    }));
+  }
+
+  private computeScales(sorted: ModelVersionDto[]): void {
+    const values = sorted.flatMap(m => this.metrics.map(k => m.metrics[k]));
+    const lowest = values.length > 0 ? Math.min(...values) : 0;
+
+    // Snap the lower bound down to 5% steps so small differences stay visible
+    this.metricMin = Math.max(0, Math.floor((lowest - 0.02) * 20) / 20);
+
+    const maxGold = Math.max(0, ...sorted.map(m => m.goldIncludedCount));
+    this.goldMax = maxGold > 0 ? this.niceCeil(maxGold) : 1;
+  }
+
+  private buildMetricTicks(): AxisTick[] {
+    const ticks: AxisTick[] = [];
+    const steps = 4;
+    for (let i = 0; i <= steps; i++) {
+      const value = this.metricMin + ((1 - this.metricMin) * i) / steps;
+      ticks.push({ position: this.metricY(value), label: `${(value * 100).toFixed(0)}%` });
+    }
+    return ticks;
+  }
+
+  private buildGoldTicks(): AxisTick[] {
+    const ticks: AxisTick[] = [];
+    const steps = 4;
+    for (let i = 0; i <= steps; i++) {
+      const value = (this.goldMax * i) / steps;
+      ticks.push({ position: this.goldY(value), label: Math.round(value).toString() });
+    }
+    return ticks;
+  }
+
+  private niceCeil(value: number): number {
+    const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+    const normalized = value / magnitude;
+    const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+    return nice * magnitude;
+  }
+}
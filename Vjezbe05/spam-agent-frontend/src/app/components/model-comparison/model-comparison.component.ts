@@ -0,0 +1,234 @@
+import { Component, Input, OnChanges, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ModelVersionDto, MetricsDto } from '../../models/api.models';
+
+interface MetricDelta {
+  key: keyof MetricsDto;
+  label: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+}
+
+interface NumberDelta {
+  label: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+  format: 'int' | 'threshold';
+}
+
+@Component({
+  selector: 'app-model-comparison',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="bg-gray-800 rounded-xl p-6">
+      <h2 class="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <span>⚖️</span> Compare Versions
+      </h2>
+
+      <div *ngIf="models.length < 2" class="text-center py-8 text-gray-500">
+        Train at least two models to compare them.
+      </div>
+
+      <div *ngIf="models.length >= 2" class="space-y-4">
+        <!-- Version Selection -->
+        <div class="grid grid-cols-2 gap-4">
+          <div>
+            <label class="block text-sm text-gray-400 mb-1">Baseline</label>
+            <select
+              [(ngModel)]="baselineVersion"
+              (ngModelChange)="compare()"
+              class="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+            >
+              <option *ngFor="let m of models" [ngValue]="m.version">
+                v{{ m.version }} · {{ m.trainingConfigName ?? m.trainTemplate }}{{ m.isActive ? ' (active)' : '' }}
+              </option>
+            </select>
+          </div>
+          <div>
+            <label class="block text-sm text-gray-400 mb-1">Candidate</label>
+            <select
+              [(ngModel)]="candidateVersion"
+              (ngModelChange)="compare()"
+              class="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+            >
+              <option *ngFor="let m of models" [ngValue]="m.version">
+                v{{ m.version }} · {{ m.trainingConfigName ?? m.trainTemplate }}{{ m.isActive ? ' (active)' : '' }}
+              </option>
+            </select>
+          </div>
+        </div>
+
+        <div *ngIf="baseline && candidate">
+          <!-- Verdict -->
+          <div class="bg-gray-700/50 rounded-lg px-4 py-3 mb-4 text-white">
+            {{ verdict }}
+          </div>
+
+          <table class="w-full">
+            <thead>
+              <tr class="text-left text-gray-400 text-sm border-b border-gray-700">
+                <th class="pb-3 pr-4">Field</th>
+                <th class="pb-3 pr-4">v{{ baseline.version }}</th>
+                <th class="pb-3 pr-4">v{{ candidate.version }}</th>
+                <th class="pb-3">Delta</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr *ngFor="let row of metricDeltas" class="border-b border-gray-700/50">
+                <td class="py-2 pr-4 text-gray-300">{{ row.label }}</td>
+                <td class="py-2 pr-4 font-mono">{{ (row.baseline * 100).toFixed(1) }}%</td>
+                <td class="py-2 pr-4 font-mono">{{ (row.candidate * 100).toFixed(1) }}%</td>
+                <td class="py-2 font-mono" [ngClass]="getDeltaClass(row.delta)">
+                  {{ formatPercentDelta(row.delta) }}
+                </td>
+              </tr>
+              <tr class="border-b border-gray-700/50">
+                <td class="py-2 pr-4 text-gray-300">Template</td>
+                <td class="py-2 pr-4">{{ baseline.trainingConfigName ?? baseline.trainTemplate }}</td>
+                <td class="py-2 pr-4">{{ candidate.trainingConfigName ?? candidate.trainTemplate }}</td>
+                <td class="py-2 text-gray-400">
+                  {{ (baseline.trainingConfigName ?? baseline.trainTemplate) === (candidate.trainingConfigName ?? candidate.trainTemplate) ? 'same' : 'changed' }}
+                </td>
+              </tr>
+              <tr *ngFor="let row of numberDeltas" class="border-b border-gray-700/50">
+                <td class="py-2 pr-4 text-gray-300">{{ row.label }}</td>
+                <td class="py-2 pr-4 font-mono">{{ formatValue(row.baseline, row.format) }}</td>
+                <td class="py-2 pr-4 font-mono">{{ formatValue(row.candidate, row.format) }}</td>
+                <td class="py-2 font-mono text-gray-400">{{ formatNumberDelta(row.delta, row.format) }}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class ModelComparisonComponent implements OnChanges {
+  @Input() models: ModelVersionDto[] = [];
+
+  baselineVersion: number | null = null;
+  candidateVersion: number | null = null;
+
+  baseline: ModelVersionDto | null = null;
+  candidate: ModelVersionDto | null = null;
+  metricDeltas: MetricDelta[] = [];
+  numberDeltas: NumberDelta[] = [];
+  verdict = '';
+
+  // Differences below 0.1 percentage points count as a tie
+  private readonly EPSILON = 0.001;
+
+  private readonly metricLabels: Array<{ key: keyof MetricsDto; label: string }> = [
+    { key: 'accuracy', label: 'Accuracy' },
+    { key: 'precision', label: 'Precision' },
+    { key: 'recall', label: 'Recall' },
+    { key: 'f1', label: 'F1' }
+  ];
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['models']) {
+      this.ensureSelection();
+      this.compare();
+    }
+  }
+
+  compare(): void {
+    this.baseline = this.models.find(m => m.version === this.baselineVersion) ?? null;
+    this.candidate = this.models.find(m => m.version === this.candidateVersion) ?? null;
+
+    if (!this.baseline || !this.candidate) {
+      this.metricDeltas = [];
+      this.numberDeltas = [];
+      this.verdict = '';
+      return;
+    }
+
+    const a = this.baseline;
+    const b = this.candidate;
+
+    this.metricDeltas = this.metricLabels.map(({ key, label }) => ({
+      key,
+      label,
+      baseline: a.metrics[key],
+      candidate: b.metrics[key],
+      delta: b.metrics[key] - a.metrics[key]
+    }));
+
+    this.numberDeltas = [
+      { label: 'Train Size', baseline: a.trainSetSize, candidate: b.trainSetSize, delta: b.trainSetSize - a.trainSetSize, format: 'int' },
+      { label: 'Gold Included', baseline: a.goldIncludedCount, candidate: b.goldIncludedCount, delta: b.goldIncludedCount - a.goldIncludedCount, format: 'int' },
+      { label: 'T_ALLOW', baseline: a.thresholdAllow, candidate: b.thresholdAllow, delta: b.thresholdAllow - a.thresholdAllow, format: 'threshold' },
+      { label: 'T_BLOCK', baseline: a.thresholdBlock, candidate: b.thresholdBlock, delta: b.thresholdBlock - a.thresholdBlock, format: 'threshold' }
+    ];
+
+    this.verdict = this.buildVerdict(a, b);
+  }
+
+  getDeltaClass(delta: number): string {
+    if (delta > this.EPSILON) return 'text-green-400';
+    if (delta < -this.EPSILON) return 'text-red-400';
+    return 'text-gray-400';
+  }
+
+  formatPercentDelta(delta: number): string {
+    if (Math.abs(delta) <= this.EPSILON) return '±0.0 pp';
+    const sign = delta > 0 ? '+' : '';
+    return `${sign}${(delta * 100).toFixed(1)} pp`;
+  }
+
+  formatValue(value: number, format: 'int' | 'threshold'): string {
+    return format === 'int' ? value.toString() : value.toFixed(2);
+  }
+
+  formatNumberDelta(delta: number, format: 'int' | 'threshold'): string {
+    if (delta === 0) return '—';
+    const sign = delta > 0 ? '+' : '';
+    return `${sign}${this.formatValue(delta, format)}`;
+  }
+
+  private ensureSelection(): void {
+    const versions = this.models.map(m => m.version);
+
+    // Default: active model as baseline, newest other model as candidate
+    if (this.baselineVersion === null || !versions.includes(this.baselineVersion)) {
+      const active = this.models.find(m => m.isActive);
+      this.baselineVersion = active?.version ?? versions[1] ?? versions[0] ?? null;
+    }
+
+    if (this.candidateVersion === null || !versions.includes(this.candidateVersion)) {
+      this.candidateVersion = versions.find(v => v !== this.baselineVersion) ?? null;
+    }
+  }
+
+  private buildVerdict(a: ModelVersionDto, b: ModelVersionDto): string {
+    if (a.version === b.version) {
+      return 'Pick two different versions to compare.';
+    }
+
+    const wins = this.metricDeltas.filter(d => d.delta > this.EPSILON).map(d => d.label.toLowerCase());
+    const losses = this.metricDeltas.filter(d => d.delta < -this.EPSILON).map(d => d.label.toLowerCase());
+
+    const va = `v${a.version}`;
+    const vb = `v${b.version}`;
+
+    if (wins.length === 0 && losses.length === 0) {
+      return `${vb} and ${va} perform the same on every metric.`;
+    }
+    if (losses.length === 0) {
+      return `${vb} beats ${va} on ${this.joinList(wins)}.`;
+    }
+    if (wins.length === 0) {
+      return `${vb} loses to ${va} on ${this.joinList(losses)}.`;
+    }
+    return `${vb} beats ${va} on ${this.joinList(wins)} and loses on ${this.joinList(losses)}.`;
+  }
+
+  private joinList(items: string[]): string {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+}
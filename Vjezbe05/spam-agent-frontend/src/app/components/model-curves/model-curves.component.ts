@@ -0,0 +1,250 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ValidationScore } from '../../models/api.models';
+
+/** Confusion counts when everything with pSpam ≥ threshold is called spam */
+interface OperatingPoint {
+  threshold: number;
+  tpr: number;
+  fpr: number;
+  precision: number;
+  recall: number;
+}
+
+interface ThresholdMarker {
+  label: string;
+  color: string;
+  point: OperatingPoint;
+}
+
+interface CurvePlot {
+  key: 'pr' | 'roc';
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  auc: number;
+  path: string;
+  markers: Array<ThresholdMarker & { x: number; y: number }>;
+}
+
+interface AxisTick {
+  position: number;
+  label: string;
+}
+
+@Component({
+  selector: 'app-model-curves',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div *ngIf="scores.length === 0" class="text-center py-8 text-gray-500">
+      No validation scores for this version — they are recorded when a model is trained.
+    </div>
+
+    <div *ngIf="scores.length > 0" class="grid grid-cols-2 gap-6">
+      <div *ngFor="let plot of plots">
+        <div class="flex items-baseline justify-between mb-2">
+          <h3 class="text-sm font-semibold text-white">{{ plot.title }}</h3>
+          <span class="text-sm text-gray-400">AUC <span class="font-mono text-white">{{ plot.auc.toFixed(3) }}</span></span>
+        </div>
+
+        <svg [attr.viewBox]="'0 0 ' + size + ' ' + size" class="w-full h-auto">
+          <!-- Grid -->
+          <g *ngFor="let tick of ticks">
+            <line [attr.x1]="padding.left" [attr.x2]="size - padding.right"
+                  [attr.y1]="toY(tick.position)" [attr.y2]="toY(tick.position)"
+                  stroke="#374151" stroke-width="1" />
+            <text [attr.x]="padding.left - 6" [attr.y]="toY(tick.position) + 4"
+                  text-anchor="end" class="fill-gray-400" font-size="10">{{ tick.label }}</text>
+            <text [attr.x]="toX(tick.position)" [attr.y]="size - padding.bottom + 14"
+                  text-anchor="middle" class="fill-gray-400" font-size="10">{{ tick.label }}</text>
+          </g>
+
+          <!-- Chance line (ROC only) -->
+          <line *ngIf="plot.key === 'roc'"
+                [attr.x1]="toX(0)" [attr.y1]="toY(0)" [attr.x2]="toX(1)" [attr.y2]="toY(1)"
+                stroke="#6b7280" stroke-width="1" stroke-dasharray="4 4" />
+
+          <path [attr.d]="plot.path" fill="none" stroke="#818cf8" stroke-width="2" />
+
+          <!-- Current thresholds -->
+          <g *ngFor="let marker of plot.markers">
+            <circle [attr.cx]="marker.x" [attr.cy]="marker.y" r="6"
+                    fill="#1f2937" [attr.stroke]="marker.color" stroke-width="2.5">
+              <title>{{ marker.label }} {{ marker.point.threshold.toFixed(2) }} · precision {{ formatRate(marker.point.precision) }} · recall {{ formatRate(marker.point.recall) }} · FPR {{ formatRate(marker.point.fpr) }}</title>
+            </circle>
+          </g>
+
+          <!-- Axis labels -->
+          <text [attr.x]="(padding.left + size - padding.right) / 2" [attr.y]="size - 4"
+                text-anchor="middle" class="fill-gray-400" font-size="11">{{ plot.xLabel }}</text>
+          <text [attr.x]="12" [attr.y]="(padding.top + size - padding.bottom) / 2"
+                text-anchor="middle" class="fill-gray-400" font-size="11"
+                [attr.transform]="'rotate(-90 12 ' + (padding.top + size - padding.bottom) / 2 + ')'">{{ plot.yLabel }}</text>
+        </svg>
+      </div>
+
+      <!-- Threshold legend with the numbers behind each marker -->
+      <div class="col-span-2 grid grid-cols-2 gap-4 text-sm">
+        <div *ngFor="let marker of thresholdMarkers" class="bg-gray-700/50 rounded-lg p-3 flex items-center gap-3">
+          <span class="w-3 h-3 rounded-full border-2" [style.borderColor]="marker.color"></span>
+          <span class="text-gray-300">{{ marker.label }} <span class="font-mono">{{ marker.point.threshold.toFixed(2) }}</span></span>
+          <span class="ml-auto font-mono text-xs text-gray-400">
+            P {{ formatRate(marker.point.precision) }} · R {{ formatRate(marker.point.recall) }} · FPR {{ formatRate(marker.point.fpr) }}
+          </span>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class ModelCurvesComponent implements OnChanges {
+  @Input() scores: ValidationScore[] = [];
+  @Input() thresholdAllow = 0.3;
+  @Input() thresholdBlock = 0.7;
+
+  readonly size = 320;
+  readonly padding = { top: 12, right: 12, bottom: 36, left: 44 };
+  readonly ticks: AxisTick[] = [0, 0.25, 0.5, 0.75, 1].map(v => ({ position: v, label: v.toFixed(2) }));
+
+  plots: CurvePlot[] = [];
+  thresholdMarkers: ThresholdMarker[] = [];
+
+  ngOnChanges(): void {
+    this.build();
+  }
+
+  toX(value: number): number {
+    return this.padding.left + value * (this.size - this.padding.left - this.padding.right);
+  }
+
+  toY(value: number): number {
+    return this.size - this.padding.bottom - value * (this.size - this.padding.top - this.padding.bottom);
+  }
+
+  formatRate(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     CURVES
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  private build(): void {
+    if (this.scores.length === 0) {
+      this.plots = [];
+      this.thresholdMarkers = [];
+      return;
+    }
+
+    const points = this.sweep();
+
+    this.thresholdMarkers = [
+      { label: 'T_ALLOW', color: '#4ade80', point: this.pointAt(this.thresholdAllow) },
+      { label: 'T_BLOCK', color: '#f87171', point: this.pointAt(this.thresholdBlock) }
+    ];
+
+    // PR starts at recall 0 with precision 1 by convention
+    const pr = [{ x: 0, y: 1 }, ...points.map(p => ({ x: p.recall, y: p.precision }))];
+    const roc = [{ x: 0, y: 0 }, ...points.map(p => ({ x: p.fpr, y: p.tpr }))];
+
+    this.plots = [
+      {
+        key: 'pr',
+        title: 'Precision–Recall',
+        xLabel: 'Recall',
+        yLabel: 'Precision',
+        auc: this.averagePrecision(points),
+        path: this.toPath(pr),
+        markers: this.thresholdMarkers.map(m => ({ ...m, x: this.toX(m.point.recall), y: this.toY(m.point.precision) }))
+      },
+      {
+        key: 'roc',
+        title: 'ROC',
+        xLabel: 'False positive rate',
+        yLabel: 'True positive rate',
+        auc: this.trapezoid(roc),
+        path: this.toPath(roc),
+        markers: this.thresholdMarkers.map(m => ({ ...m, x: this.toX(m.point.fpr), y: this.toY(m.point.tpr) }))
+      }
+    ];
+  }
+
+  /**
+   * Lowers the cut through every distinct score, highest first. Tied
+   * scores enter together so the curve has no order-dependent steps.
+   */
+  private sweep(): OperatingPoint[] {
+    const sorted = [...this.scores].sort((a, b) => b.pSpam - a.pSpam);
+    const positives = sorted.filter(s => s.isSpam).length;
+    const negatives = sorted.length - positives;
+
+    const points: OperatingPoint[] = [];
+    let tp = 0;
+    let fp = 0;
+
+    for (let i = 0; i < sorted.length; i++) {
+      if (sorted[i].isSpam) tp++;
+      else fp++;
+
+      const last = i === sorted.length - 1 || sorted[i + 1].pSpam !== sorted[i].pSpam;
+      if (last) {
+        points.push(this.toPoint(sorted[i].pSpam, tp, fp, positives, negatives));
+      }
+    }
+
+    return points;
+  }
+
+  private pointAt(threshold: number): OperatingPoint {
+    let tp = 0;
+    let fp = 0;
+    let positives = 0;
+
+    for (const s of this.scores) {
+      if (s.isSpam) positives++;
+      if (s.pSpam >= threshold) {
+        if (s.isSpam) tp++;
+        else fp++;
+      }
+    }
+
+    return this.toPoint(threshold, tp, fp, positives, this.scores.length - positives);
+  }
+
+  private toPoint(threshold: number, tp: number, fp: number, positives: number, negatives: number): OperatingPoint {
+    const recall = positives > 0 ? tp / positives : 0;
+    return {
+      threshold,
+      tpr: recall,
+      fpr: negatives > 0 ? fp / negatives : 0,
+      // Nothing flagged: precision is undefined, 1 keeps the PR curve anchored
+      precision: tp + fp > 0 ? tp / (tp + fp) : 1,
+      recall
+    };
+  }
+
+  /** Step-wise area under PR (average precision), which doesn't overstate like linear interpolation. */
+  private averagePrecision(points: OperatingPoint[]): number {
+    let area = 0;
+    let previousRecall = 0;
+    for (const p of points) {
+      area += (p.recall - previousRecall) * p.precision;
+      previousRecall = p.recall;
+    }
+    return area;
+  }
+
+  private trapezoid(curve: Array<{ x: number; y: number }>): number {
+    let area = 0;
+    for (let i = 1; i < curve.length; i++) {
+      area += (curve[i].x - curve[i - 1].x) * (curve[i].y + curve[i - 1].y) / 2;
+    }
+    return area;
+  }
+
+  private toPath(curve: Array<{ x: number; y: number }>): string {
+    return curve
+      .map((p, i) => `${i === 0 ? 'M' : 'L'} ${this.toX(p.x).toFixed(1)} ${this.toY(p.y).toFixed(1)}`)
+      .join(' ');
+  }
+}
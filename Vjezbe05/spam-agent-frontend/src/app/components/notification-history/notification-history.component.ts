@@ -0,0 +1,113 @@
+import { Component, ElementRef, HostListener } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotificationService, AppNotification } from '../../services/notification.service';
+
+@Component({
+  selector: 'app-notification-history',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="relative">
+      <button
+        class="relative p-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+        (click)="toggle()"
+        title="Notifications"
+      >
+        <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        <span
+          *ngIf="(notificationService.unreadCount$ | async) as unread"
+          class="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center"
+        >
+          {{ unread > 9 ? '9+' : unread }}
+        </span>
+      </button>
+
+      <div
+        *ngIf="open"
+        class="absolute right-0 mt-2 w-96 max-h-[28rem] bg-gray-800 border border-gray-700 rounded-xl shadow-xl z-50 flex flex-col"
+      >
+        <div class="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <span class="font-semibold text-white">Notifications</span>
+          <button class="text-xs text-gray-400 hover:text-white" (click)="notificationService.clearHistory()">
+            Clear
+          </button>
+        </div>
+
+        <div class="flex-1 overflow-y-auto">
+          <div
+            *ngIf="(notificationService.history$ | async)?.length === 0"
+            class="text-center py-8 text-gray-500 text-sm"
+          >
+            Nothing yet
+          </div>
+
+          <div
+            *ngFor="let n of notificationService.history$ | async; trackBy: trackById"
+            class="px-4 py-3 border-b border-gray-700/50 flex gap-3"
+          >
+            <span class="w-2 h-2 mt-1.5 rounded-full flex-shrink-0" [ngClass]="getDotClass(n)"></span>
+            <div class="flex-1 min-w-0">
+              <p class="text-sm text-gray-200">
+                {{ n.message }}
+                <span *ngIf="n.count > 1" class="text-gray-500">×{{ n.count }}</span>
+              </p>
+              <div class="flex items-center gap-3 mt-1">
+                <span class="text-xs text-gray-500">{{ n.createdAt | date:'mediumTime' }}</span>
+                <button
+                  *ngFor="let action of n.actions"
+                  class="text-xs text-indigo-400 hover:text-indigo-300"
+                  (click)="runAction(n, action.run)"
+                >
+                  {{ action.label }}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class NotificationHistoryComponent {
+  open = false;
+
+  constructor(
+    public notificationService: NotificationService,
+    private elementRef: ElementRef<HTMLElement>
+  ) {}
+
+  toggle(): void {
+    this.open = !this.open;
+    if (this.open) {
+      this.notificationService.markAllRead();
+    }
+  }
+
+  runAction(notification: AppNotification, run: () => void): void {
+    run();
+    this.open = false;
+  }
+
+  @HostListener('document:click', ['$event'])
+  onDocumentClick(event: MouseEvent): void {
+    if (this.open && !this.elementRef.nativeElement.contains(event.target as Node)) {
+      this.open = false;
+    }
+  }
+
+  getDotClass(notification: AppNotification): string {
+    switch (notification.severity) {
+      case 'success': return 'bg-green-500';
+      case 'error': return 'bg-red-500';
+      case 'warning': return 'bg-yellow-500';
+      default: return 'bg-blue-500';
+    }
+  }
+
+  trackById(index: number, notification: AppNotification): number {
+    return notification.id;
+  }
+}
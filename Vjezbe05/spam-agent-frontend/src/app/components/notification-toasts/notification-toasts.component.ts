@@ -0,0 +1,52 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotificationService, AppNotification } from '../../services/notification.service';
+
+@Component({
+  selector: 'app-notification-toasts',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="fixed bottom-4 right-4 space-y-2 z-50 w-80">
+      <div
+        *ngFor="let n of notificationService.active$ | async; trackBy: trackById"
+        class="px-4 py-3 rounded-lg shadow-lg animate-slide-in-right"
+        [ngClass]="{
+          'bg-green-600': n.severity === 'success',
+          'bg-red-600': n.severity === 'error',
+          'bg-blue-600': n.severity === 'info',
+          'bg-yellow-600': n.severity === 'warning'
+        }"
+      >
+        <div class="flex items-start gap-2">
+          <p class="text-white text-sm flex-1">
+            {{ n.message }}
+            <span *ngIf="n.count > 1" class="ml-1 px-1.5 rounded-full bg-black/20 text-xs">×{{ n.count }}</span>
+          </p>
+          <button class="text-white/70 hover:text-white" (click)="notificationService.dismiss(n.id)">
+            <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div *ngIf="n.actions.length > 0" class="flex gap-3 mt-2">
+          <button
+            *ngFor="let action of n.actions"
+            class="text-white text-sm font-semibold underline underline-offset-2 hover:no-underline"
+            (click)="notificationService.runAction(n, action)"
+          >
+            {{ action.label }}
+          </button>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class NotificationToastsComponent {
+  constructor(public notificationService: NotificationService) {}
+
+  trackById(index: number, notification: AppNotification): number {
+    return notification.id;
+  }
+}
@@ -0,0 +1,205 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SimulatorRequest, SimulatorScenario, SimulatorScenarioDto, SimulatorStatus } from '../../models/api.models';
+
+interface DurationOption {
+  label: string;
+  /** null runs the scenario until another one is picked */
+  seconds: number | null;
+}
+
+@Component({
+  selector: 'app-simulator-panel',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div *ngIf="!status?.available" class="text-center py-6 text-gray-500 text-sm">
+      The simulator is not registered on the backend.
+    </div>
+
+    <div *ngIf="status?.available" class="space-y-5">
+      <!-- State -->
+      <div class="flex items-center justify-between">
+        <div class="flex items-center gap-3">
+          <span class="badge" [ngClass]="status!.enabled ? 'badge-ham' : 'badge-pending'">
+            {{ status!.enabled ? 'Running' : 'Stopped' }}
+          </span>
+          <span class="text-sm text-gray-300">
+            {{ getScenarioLabel(status!.scenario) }} ·
+            <span class="font-mono">{{ formatRate(status!.intervalMs, status!.batchSize) }}</span> ·
+            <span class="font-mono">{{ formatSpamRatio(status!.spamRatio) }}</span>
+          </span>
+          <span *ngIf="remainingSec !== null" class="text-xs text-yellow-400 font-mono">
+            back to Natural in {{ formatRemaining(remainingSec) }}
+          </span>
+        </div>
+        <button
+          class="btn text-sm"
+          [ngClass]="status!.enabled ? 'btn-danger' : 'btn-success'"
+          [disabled]="saving || disabled"
+          (click)="apply.emit({ enabled: !status!.enabled })"
+        >{{ status!.enabled ? 'Stop' : 'Start' }}</button>
+      </div>
+
+      <!-- Scenarios -->
+      <div>
+        <div class="flex items-center justify-between mb-2">
+          <label class="text-sm text-gray-400">Scenario</label>
+          <select
+            [(ngModel)]="duration"
+            class="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white"
+            title="Timed scenarios revert to Natural and the previous rate"
+          >
+            <option *ngFor="let d of durations" [ngValue]="d">{{ d.label }}</option>
+          </select>
+        </div>
+        <div class="grid grid-cols-4 gap-2">
+          <button
+            *ngFor="let s of status!.scenarios"
+            class="px-3 py-2 rounded-lg border-2 transition-all text-left"
+            [ngClass]="s.name === status!.scenario ? 'border-indigo-500 bg-gray-700' : 'border-gray-600 bg-gray-700/50 hover:border-gray-500'"
+            [disabled]="saving || disabled"
+            (click)="applyScenario(s)"
+          >
+            <div class="font-semibold text-white text-sm">{{ getScenarioLabel(s.name) }}</div>
+            <div class="text-xs text-gray-400">{{ describeScenario(s) }}</div>
+          </button>
+        </div>
+      </div>
+
+      <!-- Rate -->
+      <div class="grid grid-cols-2 gap-4">
+        <div>
+          <div class="flex justify-between text-sm mb-1">
+            <label class="text-gray-400">Interval</label>
+            <span class="font-mono text-white">{{ (draftIntervalMs / 1000).toFixed(1) }}s</span>
+          </div>
+          <input type="range" min="500" max="10000" step="500" [(ngModel)]="draftIntervalMs" class="w-full accent-indigo-500" />
+        </div>
+        <div>
+          <div class="flex justify-between text-sm mb-1">
+            <label class="text-gray-400">Batch size</label>
+            <span class="font-mono text-white">{{ draftBatchSize }}</span>
+          </div>
+          <input type="range" min="1" max="10" step="1" [(ngModel)]="draftBatchSize" class="w-full accent-indigo-500" />
+        </div>
+      </div>
+
+      <div class="flex items-center justify-between">
+        <span class="text-xs text-gray-500">
+          ≈ <span class="font-mono">{{ formatRate(draftIntervalMs, draftBatchSize) }}</span> with these settings
+        </span>
+        <div class="flex gap-2">
+          <button class="btn btn-secondary text-sm" [disabled]="!dirty || saving" (click)="reset()">Reset</button>
+          <button
+            class="btn btn-primary text-sm"
+            [disabled]="!dirty || saving || disabled"
+            (click)="apply.emit({ intervalMs: draftIntervalMs, batchSize: draftBatchSize })"
+          >{{ saving ? 'Applying...' : 'Apply Rate' }}</button>
+        </div>
+      </div>
+    </div>
+  `
+})
+export class SimulatorPanelComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() status: SimulatorStatus | null = null;
+  @Input() saving = false;
+  @Input() disabled = false;
+  @Output() apply = new EventEmitter<SimulatorRequest>();
+  /** A timed scenario ran out; the backend has reverted it */
+  @Output() expired = new EventEmitter<void>();
+
+  readonly durations: DurationOption[] = [
+    { label: 'Until changed', seconds: null },
+    { label: 'For 30 seconds', seconds: 30 },
+    { label: 'For 1 minute', seconds: 60 },
+    { label: 'For 5 minutes', seconds: 300 }
+  ];
+
+  readonly scenarioLabels: Record<SimulatorScenario, string> = {
+    Natural: 'Natural',
+    SpamBurst: 'Spam burst',
+    HamHeavyDay: 'Ham-heavy day',
+    Balanced: 'Balanced'
+  };
+
+  duration = this.durations[0];
+  draftIntervalMs = 3000;
+  draftBatchSize = 1;
+  remainingSec: number | null = null;
+
+  // Counts down a timed scenario between status reloads
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    this.tickTimer = setInterval(() => this.tick(), 1000);
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['status']) {
+      this.reset();
+      this.tick();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+    }
+  }
+
+  get dirty(): boolean {
+    return !!this.status && (this.draftIntervalMs !== this.status.intervalMs || this.draftBatchSize !== this.status.batchSize);
+  }
+
+  reset(): void {
+    if (!this.status) return;
+    this.draftIntervalMs = this.status.intervalMs;
+    this.draftBatchSize = this.status.batchSize;
+  }
+
+  applyScenario(scenario: SimulatorScenarioDto): void {
+    this.apply.emit({
+      scenario: scenario.name,
+      durationSec: scenario.name === 'Natural' ? undefined : this.duration.seconds ?? undefined
+    });
+  }
+
+  getScenarioLabel(scenario: SimulatorScenario): string {
+    return this.scenarioLabels[scenario] ?? scenario;
+  }
+
+  describeScenario(scenario: SimulatorScenarioDto): string {
+    const parts = [this.formatSpamRatio(scenario.spamRatio)];
+    if (scenario.intervalMs !== null && scenario.batchSize !== null) {
+      parts.push(this.formatRate(scenario.intervalMs, scenario.batchSize));
+    }
+    return parts.join(' · ');
+  }
+
+  formatSpamRatio(ratio: number | null): string {
+    return ratio === null ? 'dataset mix' : `${Math.round(ratio * 100)}% spam`;
+  }
+
+  formatRate(intervalMs: number, batchSize: number): string {
+    return `${Math.round(batchSize * 60_000 / intervalMs)} msg/min`;
+  }
+
+  formatRemaining(seconds: number): string {
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+  }
+
+  private tick(): void {
+    if (!this.status?.scenarioEndsAtUtc) {
+      this.remainingSec = null;
+      return;
+    }
+
+    const remaining = Math.ceil((new Date(this.status.scenarioEndsAtUtc).getTime() - Date.now()) / 1000);
+    if (remaining <= 0 && this.remainingSec !== null && this.remainingSec > 0) {
+      this.expired.emit();
+    }
+    this.remainingSec = Math.max(remaining, 0);
+  }
+}
@@ -36,7 +36,7 @@ import { ModelVersionDto, QueueStatsDto, SettingsDto } from '../../models/api.mo
 
         <div class="mt-3 pt-3 border-t border-gray-700">
           <div class="text-xs text-gray-500">
-            Template: {{ activeModel.trainTemplate }} • 
+            Template: {{ activeModel.trainingConfigName ?? activeModel.trainTemplate }} • 
             Train: {{ activeModel.trainSetSize }} • 
             Gold: {{ activeModel.goldIncludedCount }}
           </div>
@@ -0,0 +1,387 @@
+import { Component, ElementRef, EventEmitter, Input, OnChanges, Output, SimpleChanges, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ThresholdSample } from '../../models/api.models';
+
+export interface Thresholds {
+  thresholdAllow: number;
+  thresholdBlock: number;
+}
+
+type Handle = 'allow' | 'block';
+
+interface HistogramBin {
+  x: number;
+  width: number;
+  hamY: number;
+  spamY: number;
+  ham: number;
+  spam: number;
+  from: number;
+}
+
+interface DecisionCounts {
+  inbox: number;
+  review: number;
+  spam: number;
+}
+
+interface CutMetrics {
+  /** Null when nothing (or no spam) is on the flagged side of the cut */
+  precision: number | null;
+  recall: number | null;
+  flagged: number;
+}
+
+interface AxisTick {
+  position: number;
+  label: string;
+}
+
+@Component({
+  selector: 'app-threshold-tuner',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="space-y-4">
+      <div *ngIf="samples.length === 0" class="text-center py-8 text-gray-500">
+        No labeled predictions from the active model yet — enqueue validation messages to get a preview.
+      </div>
+
+      <ng-container *ngIf="samples.length > 0">
+        <!-- Histogram with draggable cuts -->
+        <svg
+          #chart
+          [attr.viewBox]="'0 0 ' + width + ' ' + height"
+          class="w-full h-auto select-none touch-none"
+          (pointermove)="onPointerMove($event)"
+          (pointerup)="endDrag()"
+          (pointerleave)="endDrag()"
+        >
+          <!-- Decision zones -->
+          <rect [attr.x]="padding.left" [attr.y]="padding.top"
+                [attr.width]="toX(draft.thresholdAllow) - padding.left" [attr.height]="plotHeight"
+                fill="#22c55e" fill-opacity="0.06" />
+          <rect [attr.x]="toX(draft.thresholdAllow)" [attr.y]="padding.top"
+                [attr.width]="toX(draft.thresholdBlock) - toX(draft.thresholdAllow)" [attr.height]="plotHeight"
+                fill="#eab308" fill-opacity="0.06" />
+          <rect [attr.x]="toX(draft.thresholdBlock)" [attr.y]="padding.top"
+                [attr.width]="width - padding.right - toX(draft.thresholdBlock)" [attr.height]="plotHeight"
+                fill="#ef4444" fill-opacity="0.06" />
+
+          <!-- Stacked bars: ham at the bottom, spam on top -->
+          <g *ngFor="let bin of bins">
+            <rect [attr.x]="bin.x" [attr.y]="bin.hamY" [attr.width]="bin.width"
+                  [attr.height]="plotBottom - bin.hamY" fill="#22c55e" fill-opacity="0.7">
+              <title>{{ bin.from.toFixed(2) }}–{{ (bin.from + binSize).toFixed(2) }}: {{ bin.ham }} ham, {{ bin.spam }} spam</title>
+            </rect>
+            <rect [attr.x]="bin.x" [attr.y]="bin.spamY" [attr.width]="bin.width"
+                  [attr.height]="bin.hamY - bin.spamY" fill="#ef4444" fill-opacity="0.7">
+              <title>{{ bin.from.toFixed(2) }}–{{ (bin.from + binSize).toFixed(2) }}: {{ bin.ham }} ham, {{ bin.spam }} spam</title>
+            </rect>
+          </g>
+
+          <!-- X axis -->
+          <line [attr.x1]="padding.left" [attr.x2]="width - padding.right"
+                [attr.y1]="plotBottom" [attr.y2]="plotBottom" stroke="#4b5563" stroke-width="1" />
+          <text *ngFor="let tick of xTicks"
+                [attr.x]="tick.position" [attr.y]="plotBottom + 18"
+                text-anchor="middle" class="fill-gray-400" font-size="11">{{ tick.label }}</text>
+
+          <!-- Saved thresholds, for reference while dragging -->
+          <line *ngIf="isDirty" [attr.x1]="toX(thresholdAllow)" [attr.x2]="toX(thresholdAllow)"
+                [attr.y1]="padding.top" [attr.y2]="plotBottom"
+                stroke="#9ca3af" stroke-width="1" stroke-dasharray="3 3" />
+          <line *ngIf="isDirty" [attr.x1]="toX(thresholdBlock)" [attr.x2]="toX(thresholdBlock)"
+                [attr.y1]="padding.top" [attr.y2]="plotBottom"
+                stroke="#9ca3af" stroke-width="1" stroke-dasharray="3 3" />
+
+          <!-- Handles -->
+          <g *ngFor="let handle of handles"
+             class="cursor-ew-resize"
+             (pointerdown)="startDrag(handle, $event)">
+            <line [attr.x1]="toX(valueOf(handle))" [attr.x2]="toX(valueOf(handle))"
+                  [attr.y1]="padding.top" [attr.y2]="plotBottom"
+                  [attr.stroke]="handleColor(handle)" stroke-width="2" />
+            <!-- Wider invisible hit area -->
+            <rect [attr.x]="toX(valueOf(handle)) - 8" [attr.y]="padding.top"
+                  width="16" [attr.height]="plotHeight" fill="transparent" />
+            <rect [attr.x]="toX(valueOf(handle)) - 22" [attr.y]="padding.top - 18"
+                  width="44" height="16" rx="4" [attr.fill]="handleColor(handle)" />
+            <text [attr.x]="toX(valueOf(handle))" [attr.y]="padding.top - 6"
+                  text-anchor="middle" font-size="10" fill="#111827" font-weight="600">
+              {{ valueOf(handle).toFixed(2) }}
+            </text>
+          </g>
+        </svg>
+
+        <!-- Exact values -->
+        <div class="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <label class="block text-gray-400 mb-1">T_ALLOW (below → Inbox)</label>
+            <input type="number" min="0" max="1" step="0.01"
+                   [ngModel]="draft.thresholdAllow" (ngModelChange)="setValue('allow', $event)"
+                   class="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white" />
+          </div>
+          <div>
+            <label class="block text-gray-400 mb-1">T_BLOCK (at or above → Spam)</label>
+            <input type="number" min="0" max="1" step="0.01"
+                   [ngModel]="draft.thresholdBlock" (ngModelChange)="setValue('block', $event)"
+                   class="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white" />
+          </div>
+        </div>
+
+        <!-- Preview -->
+        <div class="grid grid-cols-3 gap-4">
+          <div *ngFor="let zone of zones" class="bg-gray-700/50 rounded-lg p-3">
+            <div class="text-xs text-gray-400">{{ zone.label }}</div>
+            <div class="flex items-baseline gap-2">
+              <span class="text-2xl font-bold" [ngClass]="zone.color">{{ draftCounts[zone.key] }}</span>
+              <span *ngIf="isDirty && delta(zone.key) !== 0" class="text-sm font-mono"
+                    [ngClass]="delta(zone.key) > 0 ? 'text-indigo-300' : 'text-gray-400'">
+                {{ delta(zone.key) > 0 ? '+' : '' }}{{ delta(zone.key) }}
+              </span>
+            </div>
+            <div class="text-xs text-gray-500">{{ percentOf(draftCounts[zone.key]) }} of {{ samples.length }}</div>
+          </div>
+        </div>
+
+        <div class="grid grid-cols-2 gap-4 text-sm">
+          <div *ngFor="let cut of cuts" class="bg-gray-700/50 rounded-lg p-3">
+            <div class="text-xs text-gray-400 mb-1">{{ cut.label }}</div>
+            <div class="flex gap-6">
+              <div>
+                <span class="text-gray-400">Precision</span>
+                <span class="ml-2 font-mono text-white">{{ formatRate(cut.metrics.precision) }}</span>
+              </div>
+              <div>
+                <span class="text-gray-400">Recall</span>
+                <span class="ml-2 font-mono text-white">{{ formatRate(cut.metrics.recall) }}</span>
+              </div>
+              <div class="ml-auto text-xs text-gray-500">{{ cut.metrics.flagged }} flagged</div>
+            </div>
+          </div>
+        </div>
+      </ng-container>
+
+      <div class="flex gap-2">
+        <button class="btn btn-secondary flex-1" (click)="reset()" [disabled]="!isDirty || saving">Reset</button>
+        <button class="btn btn-primary flex-1" (click)="submit()" [disabled]="!isDirty || saving || disabled">
+          {{ saving ? 'Saving...' : 'Save Thresholds' }}
+        </button>
+      </div>
+    </div>
+  `
+})
+export class ThresholdTunerComponent implements OnChanges {
+  @Input() samples: ThresholdSample[] = [];
+  /** Currently saved values; the draft starts here and resets to them */
+  @Input() thresholdAllow = 0.3;
+  @Input() thresholdBlock = 0.7;
+  @Input() saving = false;
+  @Input() disabled = false;
+
+  @Output() save = new EventEmitter<Thresholds>();
+
+  @ViewChild('chart') chart?: ElementRef<SVGSVGElement>;
+
+  readonly width = 800;
+  readonly height = 220;
+  readonly padding = { top: 24, right: 16, bottom: 28, left: 16 };
+  readonly binSize = 0.05;
+  readonly handles: Handle[] = ['allow', 'block'];
+  readonly zones: Array<{ key: keyof DecisionCounts; label: string; color: string }> = [
+    { key: 'inbox', label: 'Inbox', color: 'text-green-400' },
+    { key: 'review', label: 'Review', color: 'text-yellow-400' },
+    { key: 'spam', label: 'Spam', color: 'text-red-400' }
+  ];
+
+  draft: Thresholds = { thresholdAllow: 0.3, thresholdBlock: 0.7 };
+  bins: HistogramBin[] = [];
+  xTicks: AxisTick[] = [];
+  savedCounts: DecisionCounts = { inbox: 0, review: 0, spam: 0 };
+  draftCounts: DecisionCounts = { inbox: 0, review: 0, spam: 0 };
+  cuts: Array<{ label: string; metrics: CutMetrics }> = [];
+
+  private dragging: Handle | null = null;
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['thresholdAllow'] || changes['thresholdBlock']) {
+      this.draft = { thresholdAllow: this.thresholdAllow, thresholdBlock: this.thresholdBlock };
+    }
+    if (changes['samples']) {
+      this.buildHistogram();
+      this.buildTicks();
+    }
+    this.recompute();
+  }
+
+  get plotBottom(): number {
+    return this.height - this.padding.bottom;
+  }
+
+  get plotHeight(): number {
+    return this.plotBottom - this.padding.top;
+  }
+
+  get isDirty(): boolean {
+    return this.draft.thresholdAllow !== this.thresholdAllow
+      || this.draft.thresholdBlock !== this.thresholdBlock;
+  }
+
+  toX(value: number): number {
+    return this.padding.left + value * (this.width - this.padding.left - this.padding.right);
+  }
+
+  valueOf(handle: Handle): number {
+    return handle === 'allow' ? this.draft.thresholdAllow : this.draft.thresholdBlock;
+  }
+
+  handleColor(handle: Handle): string {
+    return handle === 'allow' ? '#4ade80' : '#f87171';
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     DRAGGING
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  startDrag(handle: Handle, event: PointerEvent): void {
+    this.dragging = handle;
+    this.chart?.nativeElement.setPointerCapture(event.pointerId);
+    event.preventDefault();
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (!this.dragging || !this.chart) return;
+
+    // Client pixels → viewBox units → pSpam
+    const rect = this.chart.nativeElement.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width * this.width;
+    const value = (x - this.padding.left) / (this.width - this.padding.left - this.padding.right);
+    this.setValue(this.dragging, value);
+  }
+
+  endDrag(): void {
+    this.dragging = null;
+  }
+
+  /** Snaps to 0.01 and keeps T_ALLOW ≤ T_BLOCK by pinning the moved handle. */
+  setValue(handle: Handle, value: number | string): void {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) return;
+
+    const snapped = Math.round(Math.min(1, Math.max(0, parsed)) * 100) / 100;
+    if (handle === 'allow') {
+      this.draft = { ...this.draft, thresholdAllow: Math.min(snapped, this.draft.thresholdBlock) };
+    } else {
+      this.draft = { ...this.draft, thresholdBlock: Math.max(snapped, this.draft.thresholdAllow) };
+    }
+    this.recompute();
+  }
+
+  reset(): void {
+    this.draft = { thresholdAllow: this.thresholdAllow, thresholdBlock: this.thresholdBlock };
+    this.recompute();
+  }
+
+  submit(): void {
+    this.save.emit({ ...this.draft });
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     PREVIEW
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  delta(zone: keyof DecisionCounts): number {
+    return this.draftCounts[zone] - this.savedCounts[zone];
+  }
+
+  percentOf(count: number): string {
+    return this.samples.length > 0 ? `${(count / this.samples.length * 100).toFixed(1)}%` : '—';
+  }
+
+  formatRate(value: number | null): string {
+    return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+  }
+
+  private recompute(): void {
+    this.savedCounts = this.countDecisions(this.thresholdAllow, this.thresholdBlock);
+    this.draftCounts = this.countDecisions(this.draft.thresholdAllow, this.draft.thresholdBlock);
+    this.cuts = [
+      // Everything not allowed lands in front of a moderator or in spam
+      { label: `T_ALLOW cut (≥ ${this.draft.thresholdAllow.toFixed(2)} flagged)`, metrics: this.cutMetrics(this.draft.thresholdAllow) },
+      { label: `T_BLOCK cut (≥ ${this.draft.thresholdBlock.toFixed(2)} blocked)`, metrics: this.cutMetrics(this.draft.thresholdBlock) }
+    ];
+  }
+
+  /** Same rule as ScoringService: pSpam < T_ALLOW → Allow, ≥ T_BLOCK → Block, else review. */
+  private countDecisions(allow: number, block: number): DecisionCounts {
+    const counts: DecisionCounts = { inbox: 0, review: 0, spam: 0 };
+    for (const s of this.samples) {
+      if (s.pSpam < allow) counts.inbox++;
+      else if (s.pSpam >= block) counts.spam++;
+      else counts.review++;
+    }
+    return counts;
+  }
+
+  /** Spam is the positive class; everything at or above the cut counts as predicted spam. */
+  private cutMetrics(cut: number): CutMetrics {
+    let truePositives = 0;
+    let flagged = 0;
+    let totalSpam = 0;
+
+    for (const s of this.samples) {
+      const isSpam = s.trueLabel === 'Spam';
+      if (isSpam) totalSpam++;
+      if (s.pSpam >= cut) {
+        flagged++;
+        if (isSpam) truePositives++;
+      }
+    }
+
+    return {
+      precision: flagged > 0 ? truePositives / flagged : null,
+      recall: totalSpam > 0 ? truePositives / totalSpam : null,
+      flagged
+    };
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     HISTOGRAM
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  private buildHistogram(): void {
+    const binCount = Math.round(1 / this.binSize);
+    const ham = new Array<number>(binCount).fill(0);
+    const spam = new Array<number>(binCount).fill(0);
+
+    for (const s of this.samples) {
+      // pSpam = 1.0 belongs to the last bin
+      const index = Math.min(binCount - 1, Math.floor(s.pSpam / this.binSize));
+      if (s.trueLabel === 'Spam') spam[index]++;
+      else ham[index]++;
+    }
+
+    const max = Math.max(1, ...ham.map((h, i) => h + spam[i]));
+    const y = (count: number) => this.plotBottom - count / max * this.plotHeight;
+    const binWidth = this.toX(this.binSize) - this.toX(0);
+
+    this.bins = ham.map((h, i) => ({
+      x: this.toX(i * this.binSize) + 1,
+      width: binWidth - 2,
+      hamY: y(h),
+      spamY: y(h + spam[i]),
+      ham: h,
+      spam: spam[i],
+      from: i * this.binSize
+    }));
+  }
+
+  private buildTicks(): void {
+    this.xTicks = [0, 0.2, 0.4, 0.6, 0.8, 1].map(value => ({
+      position: this.toX(value),
+      label: value.toFixed(1)
+    }));
+  }
+}
@@ -0,0 +1,123 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TrainingJobDto, TrainingJobStatus, TrainingStage } from '../../models/api.models';
+
+@Component({
+  selector: 'app-training-jobs',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div *ngIf="jobs.length === 0" class="text-center py-6 text-gray-500 text-sm">
+      No training jobs since the backend started.
+    </div>
+
+    <div class="space-y-3">
+      <div *ngFor="let job of jobs; trackBy: trackById" class="bg-gray-700/50 rounded-lg p-4">
+        <div class="flex items-center justify-between gap-3">
+          <div class="flex items-center gap-3 min-w-0">
+            <span class="badge" [ngClass]="getStatusClass(job.status)">{{ job.status }}</span>
+            <span class="font-semibold text-white">{{ job.configName ?? job.template }}</span>
+            <span *ngIf="job.activate" class="text-xs text-gray-400">auto-activate</span>
+            <span *ngIf="job.modelVersion" class="font-mono text-sm text-indigo-300">→ v{{ job.modelVersion }}</span>
+          </div>
+          <div class="flex items-center gap-3 flex-shrink-0">
+            <span class="font-mono text-sm text-gray-400" [title]="'Started ' + (job.startedAtUtc | date:'medium')">
+              {{ formatDuration(getDurationMs(job)) }}
+            </span>
+            <button
+              *ngIf="job.status === 'Running'"
+              class="btn btn-danger text-xs px-2 py-1"
+              [disabled]="!job.canCancel || cancelling.has(job.id) || disabled"
+              [title]="job.canCancel ? 'Stops at the end of the current stage' : 'The model is being saved'"
+              (click)="cancel.emit(job)"
+            >{{ cancelling.has(job.id) ? 'Cancelling...' : 'Cancel' }}</button>
+          </div>
+        </div>
+
+        <!-- Stages -->
+        <div *ngIf="job.status === 'Running'" class="mt-3">
+          <div class="w-full h-2 bg-gray-600 rounded-full overflow-hidden">
+            <div class="h-full bg-indigo-500 rounded-full transition-all duration-500" [style.width.%]="job.progress"></div>
+          </div>
+          <div class="flex justify-between mt-2 text-xs">
+            <span
+              *ngFor="let stage of stages"
+              [ngClass]="getStageClass(job, stage.key)"
+            >{{ stage.label }}</span>
+          </div>
+        </div>
+
+        <div *ngIf="job.status === 'Failed' && job.error" class="mt-2 text-sm text-red-400 break-words">
+          {{ job.error }}
+        </div>
+        <div *ngIf="job.status === 'Cancelled'" class="mt-2 text-xs text-gray-400">
+          Cancelled during {{ getStageLabel(job.stage) }}
+        </div>
+      </div>
+    </div>
+  `
+})
+export class TrainingJobsComponent implements OnInit, OnDestroy {
+  @Input() jobs: TrainingJobDto[] = [];
+  @Input() cancelling = new Set<string>();
+  @Input() disabled = false;
+  @Output() cancel = new EventEmitter<TrainingJobDto>();
+
+  readonly stages: Array<{ key: TrainingStage; label: string }> = [
+    { key: 'LoadingData', label: 'Loading data' },
+    { key: 'Featurizing', label: 'Featurizing' },
+    { key: 'Training', label: 'Training' },
+    { key: 'Evaluating', label: 'Evaluating' },
+    { key: 'Saving', label: 'Saving' }
+  ];
+
+  private now = Date.now();
+  // Running jobs only get events on stage changes; the clock keeps their duration moving
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    this.tickTimer = setInterval(() => (this.now = Date.now()), 1000);
+  }
+
+  ngOnDestroy(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+    }
+  }
+
+  getDurationMs(job: TrainingJobDto): number {
+    if (job.status !== 'Running') return job.durationMs;
+    return Math.max(job.durationMs, this.now - new Date(job.startedAtUtc).getTime());
+  }
+
+  formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    if (seconds < 60) return `${(ms / 1000).toFixed(1)}s`;
+    return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+  }
+
+  getStatusClass(status: TrainingJobStatus): string {
+    switch (status) {
+      case 'Running': return 'badge-queued';
+      case 'Succeeded': return 'badge-ham';
+      case 'Failed': return 'badge-spam';
+      default: return 'badge-pending';
+    }
+  }
+
+  getStageClass(job: TrainingJobDto, stage: TrainingStage): string {
+    const current = this.stages.findIndex(s => s.key === job.stage);
+    const index = this.stages.findIndex(s => s.key === stage);
+    if (index < current) return 'text-green-400';
+    if (index === current) return 'text-indigo-300 font-semibold';
+    return 'text-gray-500';
+  }
+
+  getStageLabel(stage: TrainingStage): string {
+    return this.stages.find(s => s.key === stage)?.label.toLowerCase() ?? stage;
+  }
+
+  trackById(index: number, job: TrainingJobDto): string {
+    return job.id;
+  }
+}
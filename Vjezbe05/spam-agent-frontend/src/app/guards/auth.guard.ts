@@ -0,0 +1,32 @@
+import { inject } from '@angular/core';
+import { CanActivateChildFn, CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+import { NotificationService } from '../services/notification.service';
+import { UserRole } from '../models/api.models';
+
+/**
+ * Sends signed-out users to /login (keeping where they were going) and
+ * enforces `data.minRole` on routes that need more than Viewer.
+ */
+export const authGuard: CanActivateChildFn = (route, state) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  if (!authService.isAuthenticated) {
+    return router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+  }
+
+  const minRole = route.data['minRole'] as UserRole | undefined;
+  if (minRole && !authService.hasRole(minRole)) {
+    inject(NotificationService).warning(`${state.url} requires the ${minRole} role`);
+    return router.createUrlTree(['/dashboard']);
+  }
+
+  return true;
+};
+
+/** Keeps signed-in users off the login page. */
+export const guestGuard: CanActivateFn = () => {
+  const authService = inject(AuthService);
+  return authService.isAuthenticated ? inject(Router).createUrlTree(['/dashboard']) : true;
+};
@@ -0,0 +1,40 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { catchError, retry, throwError, timer } from 'rxjs';
+import { ApiError } from '../models/api-error';
+
+// Retries: 500ms, 1s, 2s
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+// Statuses worth retrying: network failure, timeouts, rate limiting, gateway/overload
+const RETRYABLE_STATUSES = [0, 408, 429, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+/**
+ * Retries idempotent requests with exponential backoff and turns every
+ * failed response into an {@link ApiError}.
+ */
+export const apiErrorInterceptor: HttpInterceptorFn = (req, next) => {
+  const canRetry = IDEMPOTENT_METHODS.includes(req.method);
+
+  return next(req).pipe(
+    retry({
+      count: canRetry ? MAX_RETRIES : 0,
+      delay: (error, retryCount) => {
+        if (error instanceof HttpErrorResponse && RETRYABLE_STATUSES.includes(error.status)) {
+          return timer(BASE_DELAY_MS * Math.pow(2, retryCount - 1));
+        }
+        return throwError(() => error);
+      }
+    }),
+    catchError((error: unknown) => {
+      if (error instanceof HttpErrorResponse) {
+        const apiError = ApiError.fromHttpError(error);
+        console.error(`[API] ${req.method} ${req.urlWithParams} failed (${apiError.status}):`, apiError.message);
+        return throwError(() => apiError);
+      }
+      return throwError(() => error);
+    })
+  );
+};
@@ -0,0 +1,30 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, throwError } from 'rxjs';
+import { AuthService } from '../services/auth.service';
+import { RUNTIME_CONFIG } from '../runtime-config';
+
+/**
+ * Adds the bearer token to API requests and ends the session when the
+ * server rejects it. Runs inside apiErrorInterceptor, so every retry is
+ * signed and the raw HttpErrorResponse is seen here.
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const authService = inject(AuthService);
+  const apiBaseUrl = inject(RUNTIME_CONFIG).apiBaseUrl;
+
+  const token = authService.token;
+  if (!token || !req.url.startsWith(apiBaseUrl)) {
+    return next(req);
+  }
+
+  return next(req.clone({ setHeaders: { Authorization: `Bearer ${token}` } })).pipe(
+    catchError((error: unknown) => {
+      // 403 means signed in but not allowed; only 401 invalidates the token
+      if (error instanceof HttpErrorResponse && error.status === 401) {
+        authService.expireSession();
+      }
+      return throwError(() => error);
+    })
+  );
+};
@@ -0,0 +1,73 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+/**
+ * Typed error produced by the HTTP interceptor for every failed API call.
+ * `message` holds the server's reason when it sent one.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details: Record<string, string[]> | null = null,
+    readonly url: string | null = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  /** True when the request never reached the server (offline, CORS, backend down). */
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+
+  get isValidationError(): boolean {
+    return this.details !== null && Object.keys(this.details).length > 0;
+  }
+
+  static fromHttpError(response: HttpErrorResponse): ApiError {
+    const body = response.error;
+    let message = ApiError.defaultMessage(response.status);
+    let details: Record<string, string[]> | null = null;
+
+    if (typeof body === 'string' && body.trim().length > 0 && !body.trimStart().startsWith('<')) {
+      // Controllers return BadRequest("...") / NotFound("...") with a plain reason
+      message = body;
+    } else if (body && typeof body === 'object' && !(body instanceof ProgressEvent)) {
+      // ASP.NET ProblemDetails / ValidationProblemDetails, { message } / { error },
+      // or a plain-text body Angular failed to parse as JSON ({ error, text })
+      const candidates = [body.detail, body.message, body.error, body.title, body.text];
+      message = candidates.find(c => typeof c === 'string' && c.trim().length > 0) ?? message;
+      if (body.errors && typeof body.errors === 'object') {
+        details = body.errors as Record<string, string[]>;
+      }
+    }
+
+    return new ApiError(response.status, message, details, response.url);
+  }
+
+  private static defaultMessage(status: number): string {
+    switch (status) {
+      case 0: return 'Cannot reach the server';
+      case 400: return 'Invalid request';
+      case 401: return 'Not signed in';
+      case 403: return 'Not allowed';
+      case 404: return 'Not found';
+      case 409: return 'Conflict with the current state';
+      case 429: return 'Too many requests';
+      default: return status >= 500 ? 'Server error' : `Request failed (${status})`;
+    }
+  }
+}
+
+/**
+ * Builds a user-facing message: the context plus the server's reason when available,
+ * e.g. "Error training model: Nema dovoljno podataka."
+ */
+export function describeError(error: unknown, context: string): string {
+  if (!(error instanceof ApiError)) return context;
+
+  const validation = error.details
+    ? Object.values(error.details).flat().join(' ')
+    : '';
+  return `${context}: ${validation || error.message}`;
+}
@@ -23,6 +23,8 @@ export interface ModelVersionDto {
   id: number;
   version: number;
   trainTemplate: string;
+  /** Set when trained from a custom configuration (trainTemplate is then 'Custom') */
+  trainingConfigName?: string;
   trainSetSize: number;
   goldIncludedCount: number;
   validationSetSize: number;
@@ -30,9 +32,25 @@ export interface ModelVersionDto {
   thresholdAllow: number;
   thresholdBlock: number;
   isActive: boolean;
+  trigger: TrainTrigger;
+  promotionDecision: PromotionDecision;
+  /** Failed rules, set when a candidate was rejected */
+  promotionReason?: string;
+  /** Rules evaluated at auto-activation; empty when guardrails were off or not requested */
+  promotionChecks: PromotionCheckDto[];
   createdAtUtc: string;
 }
 
+/** One promotion rule: passed when actual ≥ required */
+export interface PromotionCheckDto {
+  metric: 'F1' | 'Recall' | 'Precision';
+  actual: number;
+  required: number;
+  /** Active model's value for rules relative to it */
+  baseline?: number;
+  passed: boolean;
+}
+
 export interface MetricsDto {
   accuracy: number;
   precision: number;
@@ -40,6 +58,24 @@ export interface MetricsDto {
   f1: number;
 }
 
+export interface TrainingJobDto {
+  id: string;
+  template: TrainTemplate;
+  configName?: string;
+  activate: boolean;
+  status: TrainingJobStatus;
+  stage: TrainingStage;
+  /** 0-100, set at the start of each stage */
+  progress: number;
+  modelVersion?: number;
+  error?: string;
+  startedAtUtc: string;
+  finishedAtUtc?: string;
+  durationMs: number;
+  /** False once finished or while saving the model */
+  canCancel: boolean;
+}
+
 export interface SystemStatusDto {
   activeModel?: ModelVersionDto;
   settings: SettingsDto;
@@ -53,9 +89,31 @@ export interface SettingsDto {
   retrainGoldThreshold: number;
   newGoldSinceLastTrain: number;
   autoRetrainEnabled: boolean;
+  /** Custom configuration used by auto-retrain; unset means the Medium preset */
+  autoRetrainConfigId?: number;
+  autoRetrainConfigName?: string;
+  /** Auto-activation only promotes candidates that pass the rules below */
+  promotionGuardEnabled: boolean;
+  promotionMaxF1Drop: number;
+  /** 0 disables the rule */
+  promotionMinRecall: number;
+  /** 0 disables the rule */
+  promotionMinPrecision: number;
   lastRetrainAtUtc?: string;
 }
 
+export interface TrainingConfigDto {
+  id: number;
+  name: string;
+  /** UCI train-pool rows sampled with the seed; null takes the whole pool */
+  trainSetSize: number | null;
+  goldWeight: number;
+  balancing: ClassBalancing;
+  seed: number;
+  createdAtUtc: string;
+  updatedAtUtc: string;
+}
+
 export interface QueueStatsDto {
   queued: number;
   inInbox: number;
@@ -75,31 +133,171 @@ export interface DatasetStatsDto {
   totalGoldLabels: number;
 }
 
+export interface PagedResult<T> {
+  items: T[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface MessageHistoryDto {
+  message: MessageDto;
+  predictions: PredictionDto[];
+  review?: ReviewDto;
+}
+
+export interface ReviewDto {
+  messageId: number;
+  text: string;
+  label: 'Ham' | 'Spam';
+  note?: string;
+  reviewedBy: string;
+  reviewedAtUtc: string;
+}
+
+export interface ReviewResultDto {
+  success: boolean;
+  message: string;
+  newStatus: string;
+  goldProgress: GoldProgress;
+}
+
+export interface UserDto {
+  username: string;
+  displayName: string;
+  role: UserRole;
+}
+
+export interface LoginResponseDto {
+  token: string;
+  expiresAtUtc: string;
+  user: UserDto;
+}
+
 // ════════════════════════════════════════════════════════════════════════════════
 //                     REQUEST MODELS
 // ════════════════════════════════════════════════════════════════════════════════
 
 export interface SendMessageRequest {
   text: string;
+  source?: MessageSource;
+}
+
+/** One chunk of a bulk upload; the backend accepts at most 200 messages per request */
+export interface SendMessagesBatchRequest {
+  messages: BatchMessageItem[];
+}
+
+export interface BatchMessageItem {
+  text: string;
+  source?: MessageSource;
+  /** Known label; counts towards online accuracy once scored */
+  trueLabel?: 'Ham' | 'Spam';
+}
+
+/** Scores text with the given model versions; nothing is queued or stored */
+export interface ScorePreviewRequest {
+  text: string;
+  modelVersions: number[];
+}
+
+export interface MessageSearchQuery {
+  q?: string;
+  status?: string;
   source?: string;
+  trueLabel?: string;
+  minPSpam?: number;
+  maxPSpam?: number;
+  decision?: string;
+  modelVersion?: number;
+  /** ISO timestamps */
+  from?: string;
+  to?: string;
+  sortBy?: MessageSortField;
+  sortDir?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
 }
 
+/** The reviewer is taken from the auth token */
 export interface ReviewRequest {
   label: 'ham' | 'spam';
   note?: string;
-  reviewedBy?: string;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
 }
 
 export interface TrainRequest {
   template: 'Light' | 'Medium' | 'Full';
+  /** Custom configuration; takes precedence over template */
+  configId?: number;
   activate: boolean;
 }
 
+export interface TrainingConfigRequest {
+  name: string;
+  trainSetSize: number | null;
+  goldWeight: number;
+  balancing: ClassBalancing;
+  seed: number;
+}
+
+export interface ConfusionCell {
+  trueLabel: 'Ham' | 'Spam';
+  decision: 'Allow' | 'PendingReview' | 'Block';
+  count: number;
+}
+
+/** True label × latest decision; empty cells are omitted */
+export interface ConfusionMatrixDto {
+  modelVersion: number | null;
+  cells: ConfusionCell[];
+}
+
+export interface ValidationScore {
+  pSpam: number;
+  isSpam: boolean;
+}
+
+/** One model version's score for a playground text, using the current thresholds */
+export interface ScorePreviewDto {
+  modelVersion: number;
+  isActive: boolean;
+  pSpam: number;
+  decision: SpamDecision;
+}
+
+/** Raw validation-set scores recorded when the version was trained */
+export interface ValidationScoresDto {
+  version: number;
+  scores: ValidationScore[];
+}
+
+export interface ThresholdSample {
+  pSpam: number;
+  trueLabel: 'Ham' | 'Spam';
+}
+
+/** Active model's latest predictions on messages with a known label */
+export interface ThresholdSamplesDto {
+  modelVersion: number | null;
+  samples: ThresholdSample[];
+}
+
 export interface SettingsRequest {
   thresholdAllow?: number;
   thresholdBlock?: number;
   retrainGoldThreshold?: number;
   autoRetrainEnabled?: boolean;
+  /** 0 switches auto-retrain back to the preset */
+  autoRetrainConfigId?: number;
+  promotionGuardEnabled?: boolean;
+  promotionMaxF1Drop?: number;
+  promotionMinRecall?: number;
+  promotionMinPrecision?: number;
   simulatorEnabled?: boolean;
   simulatorIntervalMs?: number;
   simulatorBatchSize?: number;
@@ -110,12 +308,14 @@ export interface SettingsRequest {
 // ════════════════════════════════════════════════════════════════════════════════
 
 export interface MessageQueuedEvent {
+  seq: number;
   messageId: number;
   text: string;
   timestamp: string;
 }
 
 export interface MessageScoredEvent {
+  seq: number;
   messageId: number;
   textPreview: string;
   pSpam: number;
@@ -123,10 +323,12 @@ export interface MessageScoredEvent {
   newStatus: string;
   trueLabel?: string;
   isCorrect?: boolean;
+  modelVersion: number;
   timestamp: string;
 }
 
 export interface MessageMovedEvent {
+  seq: number;
   messageId: number;
   oldStatus: string;
   newStatus: string;
@@ -138,7 +340,16 @@ export interface ModelRetrainedEvent {
   newVersion: number;
   template: string;
   metrics: MetricsDto;
+  /** Actual outcome; false when activation wasn't requested or the guardrails rejected the model */
   isActivated: boolean;
+  promotionDecision: PromotionDecision;
+  promotionReason?: string;
+  timestamp: string;
+}
+
+export interface ModelActivatedEvent {
+  version: number;
+  model: ModelVersionDto;
   timestamp: string;
 }
 
@@ -149,13 +360,38 @@ export interface StatsUpdatedEvent {
   timestamp: string;
 }
 
+export type SequencedEventName = 'MessageQueued' | 'MessageScored' | 'MessageMoved';
+
+export interface HubEventEnvelope {
+  seq: number;
+  eventName: SequencedEventName;
+  payload: MessageQueuedEvent | MessageScoredEvent | MessageMovedEvent;
+}
+
+export interface HubReplayResult {
+  events: HubEventEnvelope[];
+  latestSeq: number;
+  /** The server no longer has every missed event; reload from the API */
+  gapTooLarge: boolean;
+}
+
 // ════════════════════════════════════════════════════════════════════════════════
 //                     ENUMS & TYPES
 // ════════════════════════════════════════════════════════════════════════════════
 
 export type MessageStatus = 'Queued' | 'InInbox' | 'InSpam' | 'PendingReview' | 'Archived';
+export type MessageSource = 'Runtime' | 'Uci';
 export type SpamDecision = 'Allow' | 'PendingReview' | 'Block';
-export type TrainTemplate = 'Light' | 'Medium' | 'Full';
+export type TrainingJobStatus = 'Running' | 'Succeeded' | 'Failed' | 'Cancelled';
+export type TrainingStage = 'LoadingData' | 'Featurizing' | 'Training' | 'Evaluating' | 'Saving';
+export type TrainTemplate = 'Light' | 'Medium' | 'Full' | 'Custom';
+export type ClassBalancing = 'None' | 'Undersample' | 'Oversample' | 'Weighted';
+export type TrainTrigger = 'Manual' | 'AutoRetrain';
+export type PromotionDecision = 'NotRequested' | 'Activated' | 'Rejected';
+export type SimulatorScenario = 'Natural' | 'SpamBurst' | 'HamHeavyDay' | 'Balanced';
+export type MessageSortField = 'createdAt' | 'id' | 'status' | 'source' | 'pSpam';
+/** Each role includes the rights of the ones before it */
+export type UserRole = 'Viewer' | 'Moderator' | 'Admin';
 
 // ════════════════════════════════════════════════════════════════════════════════
 //                     UI MODELS
@@ -164,6 +400,26 @@ export type TrainTemplate = 'Light' | 'Medium' | 'Full';
 export interface MessageCard extends MessageDto {
   isNew?: boolean;
   animationClass?: string;
+  /** When the card entered its current status; orders the dashboard columns */
+  statusChangedAt?: string;
+}
+
+export interface TimelineEntry {
+  type: 'MessageQueued' | 'MessageScored' | 'MessageMoved';
+  timestamp: string;
+  title: string;
+  detail?: string;
+  /** Received over SignalR while the page was open */
+  live: boolean;
+}
+
+/** One scoring as seen on the live stream; feeds the dashboard time-series */
+export interface ScoredSample {
+  /** Epoch ms of the server timestamp */
+  timestamp: number;
+  decision: SpamDecision;
+  /** Undefined when the true label is unknown or the message went to review */
+  isCorrect?: boolean;
 }
 
 export interface GoldProgress {
@@ -178,4 +434,27 @@ export interface SimulatorStatus {
   enabled: boolean;
   intervalMs: number;
   batchSize: number;
+  scenario: SimulatorScenario;
+  /** Spam share drawn from the validation set; null keeps the dataset order */
+  spamRatio: number | null;
+  /** Set while a timed scenario runs; it then reverts to Natural */
+  scenarioEndsAtUtc?: string;
+  scenarios: SimulatorScenarioDto[];
+}
+
+/** Scenario preset; null fields keep the current value */
+export interface SimulatorScenarioDto {
+  name: SimulatorScenario;
+  description: string;
+  spamRatio: number | null;
+  intervalMs: number | null;
+  batchSize: number | null;
+}
+
+export interface SimulatorRequest {
+  enabled?: boolean;
+  intervalMs?: number;
+  batchSize?: number;
+  scenario?: SimulatorScenario;
+  durationSec?: number;
 }
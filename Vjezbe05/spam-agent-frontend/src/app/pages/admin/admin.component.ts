@@ -3,19 +3,43 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Subject, takeUntil } from 'rxjs';
 import { ApiService } from '../../services/api.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
 import { SignalRService } from '../../services/signalr.service';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { ModelComparisonComponent } from '../../components/model-comparison/model-comparison.component';
+import { ThresholdTunerComponent, Thresholds } from '../../components/threshold-tuner/threshold-tuner.component';
+import { TrainingJobsComponent } from '../../components/training-jobs/training-jobs.component';
+import { SimulatorPanelComponent } from '../../components/simulator-panel/simulator-panel.component';
+import { ExportMenuComponent } from '../../components/export-menu/export-menu.component';
+import { ExportFormat, MODEL_EXPORT_COLUMNS, exportRecords, flattenModel } from '../../utils/export';
 import { 
   SystemStatusDto, 
   ModelVersionDto, 
   SettingsDto,
   SimulatorStatus,
+  SimulatorRequest,
+  ThresholdSample,
+  TrainingJobDto,
+  TrainingConfigDto,
+  TrainingConfigRequest,
+  ClassBalancing,
+  PromotionCheckDto,
   TrainTemplate 
 } from '../../models/api.models';
 
 @Component({
   selector: 'app-admin',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    ModelComparisonComponent,
+    ThresholdTunerComponent,
+    TrainingJobsComponent,
+    SimulatorPanelComponent,
+    ExportMenuComponent
+  ],
   templateUrl: "admin.component.html",
   styles: [`
     .bg-gray-750 { background-color: #374151; }
@@ -28,40 +52,93 @@ export class AdminComponent implements OnInit, OnDestroy {
   models: ModelVersionDto[] = [];
   settings: SettingsDto | null = null;
   simulator: SimulatorStatus | null = null;
+  thresholdSamples: ThresholdSample[] = [];
+  thresholdSamplesModel: number | null = null;
+  trainingJobs: TrainingJobDto[] = [];
+  cancellingJobs = new Set<string>();
+  trainingConfigs: TrainingConfigDto[] = [];
 
   loading = false;
-  training = false;
+  startingTraining = false;
   importing = false;
   enqueueing = false;
   savingSettings = false;
+  savingThresholds = false;
+  savingConfig = false;
+  savingSimulator = false;
+  deletingConfigId: number | null = null;
 
   selectedTemplate: TrainTemplate = 'Medium';
+  /** A custom configuration takes precedence over the selected preset */
+  selectedConfigId: number | null = null;
   autoActivate = true;
 
+  /** 0 = Medium preset */
+  autoRetrainConfigId = 0;
+
+  /** null while no editor is open; editingConfigId null means a new configuration */
+  configForm: TrainingConfigRequest | null = null;
+  editingConfigId: number | null = null;
+
+  readonly balancingOptions: Array<{ value: ClassBalancing; label: string }> = [
+    { value: 'None', label: 'None' },
+    { value: 'Undersample', label: 'Undersample majority' },
+    { value: 'Oversample', label: 'Oversample minority' },
+    { value: 'Weighted', label: 'Weight minority' }
+  ];
+
   templates = [
     { value: 'Light' as TrainTemplate, label: 'Light', samples: 500 },
     { value: 'Medium' as TrainTemplate, label: 'Medium', samples: 2000 },
     { value: 'Full' as TrainTemplate, label: 'Full', samples: 4000 }
   ];
 
-  toasts: Array<{ message: string; type: 'success' | 'error' | 'info' }> = [];
 
   constructor(
     private apiService: ApiService,
-    private signalRService: SignalRService
+    private signalRService: SignalRService,
+    private connectivityService: ConnectivityService,
+    private notificationService: NotificationService
   ) {}
 
+  get offline(): boolean {
+    return !this.connectivityService.isOnline;
+  }
+
+  /** The backend runs one training job at a time */
+  get training(): boolean {
+    return this.startingTraining || this.trainingJobs.some(j => j.status === 'Running');
+  }
+
   ngOnInit(): void {
     this.refreshAll();
 
     // Subscribe to model retrained events
     this.signalRService.modelRetrained$
       .pipe(takeUntil(this.destroy$))
-      .subscribe(event => {
-        this.showToast(`Model v${event.newVersion} trained! Accuracy: ${(event.metrics.accuracy * 100).toFixed(1)}%`, 'success');
+      .subscribe(() => {
         this.loadModels();
         this.loadSystemStatus();
+        this.loadThresholdSamples();
       });
+
+    // Activated from another tab: the "models" group is joined app-wide
+    this.signalRService.modelActivated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.loadModels();
+        this.loadSystemStatus();
+        this.loadThresholdSamples();
+      });
+
+    this.signalRService.trainingJobUpdated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(job => this.upsertTrainingJob(job));
+
+    // Job events aren't replayed after a reconnect, so re-read the list
+    this.signalRService.resync$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadTrainingJobs());
   }
 
   ngOnDestroy(): void {
@@ -75,7 +152,10 @@ export class AdminComponent implements OnInit, OnDestroy {
       await Promise.all([
         this.loadSystemStatus(),
         this.loadModels(),
-        this.loadSimulatorStatus()
+        this.loadSimulatorStatus(),
+        this.loadThresholdSamples(),
+        this.loadTrainingJobs(),
+        this.loadTrainingConfigs()
       ]);
     } finally {
       this.loading = false;
@@ -87,6 +167,7 @@ export class AdminComponent implements OnInit, OnDestroy {
       const status = await this.apiService.getSystemStatus().toPromise();
       this.systemStatus = status || null;
       this.settings = status?.settings || null;
+      this.autoRetrainConfigId = status?.settings.autoRetrainConfigId ?? 0;
     } catch (error) {
       console.error('Error loading system status:', error);
     }
@@ -101,6 +182,37 @@ export class AdminComponent implements OnInit, OnDestroy {
     }
   }
 
+  private async loadThresholdSamples(): Promise<void> {
+    try {
+      const result = await this.apiService.getThresholdSamples().toPromise();
+      this.thresholdSamples = result?.samples || [];
+      this.thresholdSamplesModel = result?.modelVersion ?? null;
+    } catch (error) {
+      console.error('Error loading threshold samples:', error);
+    }
+  }
+
+  private async loadTrainingJobs(): Promise<void> {
+    try {
+      const jobs = await this.apiService.getTrainingJobs().toPromise();
+      this.trainingJobs = jobs || [];
+    } catch (error) {
+      console.error('Error loading training jobs:', error);
+    }
+  }
+
+  private async loadTrainingConfigs(): Promise<void> {
+    try {
+      const configs = await this.apiService.getTrainingConfigs().toPromise();
+      this.trainingConfigs = configs || [];
+      if (this.selectedConfigId !== null && !this.trainingConfigs.some(c => c.id === this.selectedConfigId)) {
+        this.selectedConfigId = null;
+      }
+    } catch (error) {
+      console.error('Error loading training configs:', error);
+    }
+  }
+
   private async loadSimulatorStatus(): Promise<void> {
     try {
       const status = await this.apiService.getSimulatorStatus().toPromise();
@@ -115,12 +227,12 @@ export class AdminComponent implements OnInit, OnDestroy {
     try {
       const result = await this.apiService.importDataset().toPromise();
       if (result) {
-        this.showToast(result.message, 'success');
+        this.notificationService.notify(result.message, 'success');
         this.loadSystemStatus();
       }
     } catch (error) {
       console.error('Error importing dataset:', error);
-      this.showToast('Error importing dataset', 'error');
+      this.notificationService.notify(describeError(error, 'Error importing dataset'), 'error');
     } finally {
       this.importing = false;
     }
@@ -131,11 +243,11 @@ export class AdminComponent implements OnInit, OnDestroy {
     try {
       const result = await this.apiService.enqueueFromValidation(10).toPromise();
       if (result) {
-        this.showToast(`Added ${result.enqueued} messages`, 'info');
+        this.notificationService.notify(`Added ${result.enqueued} messages`, 'info');
       }
     } catch (error) {
       console.error('Error enqueueing:', error);
-      this.showToast('Error adding messages', 'error');
+      this.notificationService.notify(describeError(error, 'Error adding messages'), 'error');
     } finally {
       this.enqueueing = false;
     }
@@ -147,61 +259,241 @@ export class AdminComponent implements OnInit, OnDestroy {
     try {
       const result = await this.apiService.setSimulatorEnabled(!this.simulator.enabled).toPromise();
       if (result) {
-        this.simulator.enabled = result.enabled;
-        this.showToast(`Simulator ${result.enabled ? 'started' : 'stopped'}`, 'info');
+        this.simulator = { ...this.simulator, enabled: result.enabled };
+        this.notificationService.notify(`Simulator ${result.enabled ? 'started' : 'stopped'}`, 'info');
       }
     } catch (error) {
       console.error('Error toggling simulator:', error);
-      this.showToast('Error toggling simulator', 'error');
+      this.notificationService.notify(describeError(error, 'Error toggling simulator'), 'error');
     }
   }
 
-  async trainModel(): Promise<void> {
-    this.training = true;
+  async updateSimulator(request: SimulatorRequest): Promise<void> {
+    this.savingSimulator = true;
     try {
-      const model = await this.apiService.trainModel({
-        template: this.selectedTemplate,
-        activate: this.autoActivate
-      }).toPromise();
-      
-      if (model) {
-        this.showToast(`Model v${model.version} trained! Accuracy: ${(model.metrics.accuracy * 100).toFixed(1)}%`, 'success');
-        this.loadModels();
-        this.loadSystemStatus();
+      const status = await this.apiService.updateSimulator(request).toPromise();
+      if (status) {
+        this.simulator = status;
+        this.notificationService.notify(this.describeSimulatorChange(request, status), 'info');
       }
     } catch (error) {
-      console.error('Error training model:', error);
-      this.showToast('Error training model', 'error');
+      console.error('Error updating simulator:', error);
+      this.notificationService.notify(describeError(error, 'Error updating simulator'), 'error');
     } finally {
-      this.training = false;
+      this.savingSimulator = false;
+    }
+  }
+
+  onSimulatorScenarioExpired(): void {
+    this.loadSimulatorStatus();
+  }
+
+  private describeSimulatorChange(request: SimulatorRequest, status: SimulatorStatus): string {
+    if (request.enabled !== undefined) {
+      return `Simulator ${status.enabled ? 'started' : 'stopped'}`;
+    }
+    if (request.scenario) {
+      const until = status.scenarioEndsAtUtc ? ` until ${new Date(status.scenarioEndsAtUtc).toLocaleTimeString()}` : '';
+      return `Simulator scenario: ${status.scenario}${until}`;
     }
+    return `Simulator rate: ${status.batchSize} every ${(status.intervalMs / 1000).toFixed(1)}s`;
+  }
+
+  async trainModel(): Promise<void> {
+    await this.startTraining(() => this.apiService.trainModel({
+      template: this.selectedTemplate === 'Custom' ? 'Medium' : this.selectedTemplate,
+      configId: this.selectedConfigId ?? undefined,
+      activate: this.autoActivate
+    }).toPromise(), 'Error training model');
   }
 
   async forceRetrain(): Promise<void> {
-    this.training = true;
+    await this.startTraining(() => this.apiService.forceRetrain('Medium', true).toPromise(), 'Error force retraining');
+  }
+
+  private async startTraining(start: () => Promise<TrainingJobDto | undefined>, errorContext: string): Promise<void> {
+    this.startingTraining = true;
     try {
-      const model = await this.apiService.forceRetrain('Medium', true).toPromise();
-      if (model) {
-        this.showToast(`Force retrained to v${model.version}`, 'success');
-        this.loadModels();
-        this.loadSystemStatus();
+      const job = await start();
+      if (job) {
+        this.upsertTrainingJob(job);
+        this.notificationService.notify(`${job.configName ?? job.template} training started`, 'info');
+      }
+    } catch (error) {
+      console.error('Error starting training:', error);
+      this.notificationService.notify(describeError(error, errorContext), 'error');
+    } finally {
+      this.startingTraining = false;
+    }
+  }
+
+  async cancelTrainingJob(job: TrainingJobDto): Promise<void> {
+    this.cancellingJobs.add(job.id);
+    try {
+      const updated = await this.apiService.cancelTrainingJob(job.id).toPromise();
+      if (updated) {
+        this.upsertTrainingJob(updated);
+      }
+    } catch (error) {
+      this.cancellingJobs.delete(job.id);
+      console.error('Error cancelling training job:', error);
+      this.notificationService.notify(describeError(error, 'Error cancelling training'), 'error');
+    }
+  }
+
+  /**
+   * Merges a job from the API or the hub. The POST response and the first
+   * stage events can arrive in either order, so a stale snapshot is dropped.
+   */
+  private upsertTrainingJob(job: TrainingJobDto): void {
+    const existing = this.trainingJobs.find(j => j.id === job.id);
+
+    if (existing) {
+      const regressed = existing.status !== 'Running'
+        ? job.status === 'Running'
+        : job.status === 'Running' && job.progress < existing.progress;
+      if (regressed) return;
+
+      this.trainingJobs = this.trainingJobs.map(j => j.id === job.id ? job : j);
+    } else {
+      this.trainingJobs = [job, ...this.trainingJobs];
+    }
+
+    if (job.status !== 'Running' && existing?.status === 'Running') {
+      this.cancellingJobs.delete(job.id);
+      this.notifyTrainingFinished(job);
+    }
+  }
+
+  private notifyTrainingFinished(job: TrainingJobDto): void {
+    const seconds = (job.durationMs / 1000).toFixed(1);
+    switch (job.status) {
+      case 'Succeeded':
+        // Models, status and samples are reloaded by the ModelRetrained event
+        this.notificationService.notify(`Model v${job.modelVersion} trained (${job.configName ?? job.template}, ${seconds}s)`, 'success');
+        break;
+      case 'Failed':
+        this.notificationService.notify(`Training failed: ${job.error ?? 'unknown error'}`, 'error');
+        break;
+      case 'Cancelled':
+        this.notificationService.notify(`${job.configName ?? job.template} training cancelled after ${seconds}s`, 'warning');
+        break;
+    }
+  }
+
+  selectTemplate(template: TrainTemplate): void {
+    this.selectedTemplate = template;
+    this.selectedConfigId = null;
+  }
+
+  selectConfig(config: TrainingConfigDto): void {
+    this.selectedConfigId = config.id;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     TRAINING CONFIGURATIONS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  newConfig(): void {
+    this.editingConfigId = null;
+    this.configForm = { name: '', trainSetSize: null, goldWeight: 1, balancing: 'None', seed: 42 };
+  }
+
+  editConfig(config: TrainingConfigDto): void {
+    this.editingConfigId = config.id;
+    this.configForm = {
+      name: config.name,
+      trainSetSize: config.trainSetSize,
+      goldWeight: config.goldWeight,
+      balancing: config.balancing,
+      seed: config.seed
+    };
+  }
+
+  closeConfigForm(): void {
+    this.configForm = null;
+    this.editingConfigId = null;
+  }
+
+  async saveConfig(): Promise<void> {
+    if (!this.configForm) return;
+
+    // An emptied number input binds to null; treat it as "whole pool"
+    const request: TrainingConfigRequest = {
+      ...this.configForm,
+      trainSetSize: this.configForm.trainSetSize || null
+    };
+
+    this.savingConfig = true;
+    try {
+      const saved = this.editingConfigId === null
+        ? await this.apiService.createTrainingConfig(request).toPromise()
+        : await this.apiService.updateTrainingConfig(this.editingConfigId, request).toPromise();
+
+      if (saved) {
+        this.notificationService.notify(`Configuration "${saved.name}" saved`, 'success');
+        this.closeConfigForm();
+        await Promise.all([this.loadTrainingConfigs(), this.loadSystemStatus()]);
+      }
+    } catch (error) {
+      console.error('Error saving training config:', error);
+      this.notificationService.notify(describeError(error, 'Error saving configuration'), 'error');
+    } finally {
+      this.savingConfig = false;
+    }
+  }
+
+  async deleteConfig(config: TrainingConfigDto): Promise<void> {
+    if (!confirm(`Delete configuration "${config.name}"? Models trained with it keep the name.`)) return;
+
+    this.deletingConfigId = config.id;
+    try {
+      await this.apiService.deleteTrainingConfig(config.id).toPromise();
+      this.notificationService.notify(`Configuration "${config.name}" deleted`, 'info');
+      if (this.editingConfigId === config.id) {
+        this.closeConfigForm();
       }
+      // Auto-retrain falls back to the preset if it used this configuration
+      await Promise.all([this.loadTrainingConfigs(), this.loadSystemStatus()]);
     } catch (error) {
-      console.error('Error force retraining:', error);
-      this.showToast('Error force retraining', 'error');
+      console.error('Error deleting training config:', error);
+      this.notificationService.notify(describeError(error, 'Error deleting configuration'), 'error');
     } finally {
-      this.training = false;
+      this.deletingConfigId = null;
+    }
+  }
+
+  formatCheck(check: PromotionCheckDto): string {
+    const rule = `${check.metric} ${(check.actual * 100).toFixed(1)}% ${check.passed ? '≥' : '<'} ${(check.required * 100).toFixed(1)}%`;
+    return check.baseline !== undefined && check.baseline !== null
+      ? `${rule} (active ${(check.baseline * 100).toFixed(1)}%)`
+      : rule;
+  }
+
+  getPromotionClass(model: ModelVersionDto): string {
+    switch (model.promotionDecision) {
+      case 'Activated': return 'badge-ham';
+      case 'Rejected': return 'badge-spam';
+      default: return 'badge-pending';
     }
   }
 
+  formatTrainSetSize(size: number | null): string {
+    return size === null ? 'all' : size.toString();
+  }
+
+  exportModels(format: ExportFormat): void {
+    exportRecords('models', MODEL_EXPORT_COLUMNS, this.models.map(flattenModel), format);
+  }
+
   async activateModel(version: number): Promise<void> {
     try {
       await this.apiService.activateModel(version).toPromise();
-      this.showToast(`Model v${version} activated`, 'success');
+      // The confirmation toast comes from the ModelActivated event, like in every other tab
       this.loadModels();
     } catch (error) {
       console.error('Error activating model:', error);
-      this.showToast('Error activating model', 'error');
+      this.notificationService.notify(describeError(error, 'Error activating model'), 'error');
     }
   }
 
@@ -214,27 +506,43 @@ export class AdminComponent implements OnInit, OnDestroy {
         thresholdAllow: this.settings.thresholdAllow,
         thresholdBlock: this.settings.thresholdBlock,
         retrainGoldThreshold: this.settings.retrainGoldThreshold,
-        autoRetrainEnabled: this.settings.autoRetrainEnabled
+        autoRetrainEnabled: this.settings.autoRetrainEnabled,
+        autoRetrainConfigId: this.autoRetrainConfigId,
+        promotionGuardEnabled: this.settings.promotionGuardEnabled,
+        promotionMaxF1Drop: this.settings.promotionMaxF1Drop,
+        promotionMinRecall: this.settings.promotionMinRecall,
+        promotionMinPrecision: this.settings.promotionMinPrecision
       }).toPromise();
       
       if (updated) {
         this.settings = updated;
-        this.showToast('Settings saved', 'success');
+        this.autoRetrainConfigId = updated.autoRetrainConfigId ?? 0;
+        this.notificationService.notify('Settings saved', 'success');
       }
     } catch (error) {
       console.error('Error saving settings:', error);
-      this.showToast('Error saving settings', 'error');
+      this.notificationService.notify(describeError(error, 'Error saving settings'), 'error');
     } finally {
       this.savingSettings = false;
     }
   }
 
-  private showToast(message: string, type: 'success' | 'error' | 'info'): void {
-    const toast = { message, type };
-    this.toasts.push(toast);
-    setTimeout(() => {
-      const index = this.toasts.indexOf(toast);
-      if (index > -1) this.toasts.splice(index, 1);
-    }, 3000);
+  async saveThresholds(thresholds: Thresholds): Promise<void> {
+    if (!this.settings) return;
+
+    this.savingThresholds = true;
+    try {
+      await this.apiService.setThresholds(thresholds.thresholdAllow, thresholds.thresholdBlock).toPromise();
+      this.settings = { ...this.settings, ...thresholds };
+      this.notificationService.notify(
+        `Thresholds saved: T_ALLOW ${thresholds.thresholdAllow}, T_BLOCK ${thresholds.thresholdBlock}`,
+        'success'
+      );
+    } catch (error) {
+      console.error('Error saving thresholds:', error);
+      this.notificationService.notify(describeError(error, 'Error saving thresholds'), 'error');
+    } finally {
+      this.savingThresholds = false;
+    }
   }
 }
@@ -0,0 +1,228 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { ApiService } from '../../services/api.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
+import { ConfusionCell, MessageDto, ModelVersionDto } from '../../models/api.models';
+
+type TrueLabel = ConfusionCell['trueLabel'];
+type Decision = ConfusionCell['decision'];
+
+/** How a cell reads with spam as the positive class */
+type CellKind = 'correct' | 'falsePositive' | 'falseNegative' | 'review';
+
+interface SelectedCell {
+  trueLabel: TrueLabel;
+  decision: Decision;
+}
+
+@Component({
+  selector: 'app-analysis',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: "analysis.component.html"
+})
+export class AnalysisComponent implements OnInit {
+  readonly labels: TrueLabel[] = ['Ham', 'Spam'];
+  readonly decisions: Array<{ key: Decision; label: string }> = [
+    { key: 'Allow', label: 'Inbox' },
+    { key: 'PendingReview', label: 'Review' },
+    { key: 'Block', label: 'Spam' }
+  ];
+  readonly DRILL_PAGE_SIZE = 25;
+
+  models: ModelVersionDto[] = [];
+  /** null = every version */
+  selectedVersion: number | null = null;
+
+  cells: ConfusionCell[] = [];
+  loading = false;
+
+  selectedCell: SelectedCell | null = null;
+  drillMessages: MessageDto[] = [];
+  drillTotal = 0;
+  drillPage = 1;
+  drillLoading = false;
+
+  // Responses for a cell or page the user already left are dropped
+  private drillSeq = 0;
+
+  constructor(
+    private apiService: ApiService,
+    private notificationService: NotificationService
+  ) {}
+
+  async ngOnInit(): Promise<void> {
+    await this.loadModels();
+    this.loadMatrix();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     DATA
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  async loadModels(): Promise<void> {
+    try {
+      const models = await this.apiService.getAllModels().toPromise();
+      this.models = (models || []).sort((a, b) => b.version - a.version);
+      this.selectedVersion = this.models.find(m => m.isActive)?.version ?? null;
+    } catch (error) {
+      console.error('Error loading models:', error);
+    }
+  }
+
+  async loadMatrix(): Promise<void> {
+    this.loading = true;
+    try {
+      const matrix = await this.apiService.getConfusionMatrix(this.selectedVersion ?? undefined).toPromise();
+      this.cells = matrix?.cells || [];
+    } catch (error) {
+      console.error('Error loading confusion matrix:', error);
+      this.notificationService.notify(describeError(error, 'Error loading confusion matrix'), 'error');
+    } finally {
+      this.loading = false;
+    }
+
+    // Keep the open drill-down in step with the new numbers
+    if (this.selectedCell) {
+      this.loadDrillDown();
+    }
+  }
+
+  onVersionChange(version: number | null): void {
+    this.selectedVersion = version;
+    this.drillPage = 1;
+    this.loadMatrix();
+  }
+
+  selectCell(trueLabel: TrueLabel, decision: Decision): void {
+    if (this.selectedCell?.trueLabel === trueLabel && this.selectedCell.decision === decision) {
+      this.selectedCell = null;
+      this.drillMessages = [];
+      return;
+    }
+    this.selectedCell = { trueLabel, decision };
+    this.drillPage = 1;
+    this.loadDrillDown();
+  }
+
+  async loadDrillDown(): Promise<void> {
+    if (!this.selectedCell) return;
+
+    const cell = this.selectedCell;
+    const seq = ++this.drillSeq;
+    this.drillLoading = true;
+    try {
+      // Same filters the matrix counts with, so the list matches the cell
+      const result = await this.apiService.searchMessages({
+        trueLabel: cell.trueLabel,
+        decision: cell.decision,
+        modelVersion: this.selectedVersion ?? undefined,
+        sortBy: 'pSpam',
+        // Most confident mistakes first
+        sortDir: this.getCellKind(cell.trueLabel, cell.decision) === 'falseNegative' ? 'asc' : 'desc',
+        page: this.drillPage,
+        pageSize: this.DRILL_PAGE_SIZE
+      }).toPromise();
+      if (seq !== this.drillSeq || !result) return;
+      this.drillMessages = result.items;
+      this.drillTotal = result.totalCount;
+    } catch (error) {
+      if (seq !== this.drillSeq) return;
+      console.error('Error loading cell messages:', error);
+      this.notificationService.notify(describeError(error, 'Error loading messages'), 'error');
+    } finally {
+      if (seq === this.drillSeq) {
+        this.drillLoading = false;
+      }
+    }
+  }
+
+  goToDrillPage(page: number): void {
+    if (page < 1 || page > this.drillTotalPages) return;
+    this.drillPage = page;
+    this.loadDrillDown();
+  }
+
+  get drillTotalPages(): number {
+    return Math.max(1, Math.ceil(this.drillTotal / this.DRILL_PAGE_SIZE));
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     MATRIX
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  getCount(trueLabel: TrueLabel, decision: Decision): number {
+    return this.cells.find(c => c.trueLabel === trueLabel && c.decision === decision)?.count ?? 0;
+  }
+
+  getRowTotal(trueLabel: TrueLabel): number {
+    return this.decisions.reduce((sum, d) => sum + this.getCount(trueLabel, d.key), 0);
+  }
+
+  getRowShare(trueLabel: TrueLabel, decision: Decision): string {
+    const total = this.getRowTotal(trueLabel);
+    return total > 0 ? `${(this.getCount(trueLabel, decision) / total * 100).toFixed(1)}%` : '—';
+  }
+
+  getCellKind(trueLabel: TrueLabel, decision: Decision): CellKind {
+    if (decision === 'PendingReview') return 'review';
+    if (trueLabel === 'Ham') return decision === 'Allow' ? 'correct' : 'falsePositive';
+    return decision === 'Block' ? 'correct' : 'falseNegative';
+  }
+
+  getCellClass(trueLabel: TrueLabel, decision: Decision): string {
+    const selected = this.selectedCell?.trueLabel === trueLabel && this.selectedCell.decision === decision;
+    const ring = selected ? ' ring-2 ring-indigo-400' : '';
+    switch (this.getCellKind(trueLabel, decision)) {
+      case 'correct': return 'bg-green-500/15 text-green-300' + ring;
+      case 'falsePositive':
+      case 'falseNegative': return 'bg-red-500/20 text-red-300' + ring;
+      default: return 'bg-yellow-500/10 text-yellow-300' + ring;
+    }
+  }
+
+  getCellCaption(trueLabel: TrueLabel, decision: Decision): string {
+    switch (this.getCellKind(trueLabel, decision)) {
+      case 'correct': return 'Correct';
+      case 'falsePositive': return 'False positive';
+      case 'falseNegative': return 'False negative';
+      default: return 'Sent to review';
+    }
+  }
+
+  get total(): number {
+    return this.cells.reduce((sum, c) => sum + c.count, 0);
+  }
+
+  get falsePositives(): number {
+    return this.getCount('Ham', 'Block');
+  }
+
+  get falseNegatives(): number {
+    return this.getCount('Spam', 'Allow');
+  }
+
+  get reviewCount(): number {
+    return this.getCount('Ham', 'PendingReview') + this.getCount('Spam', 'PendingReview');
+  }
+
+  /** Accuracy of the decisions the model made on its own (review excluded) */
+  get automaticAccuracy(): number | null {
+    const automatic = this.total - this.reviewCount;
+    if (automatic === 0) return null;
+    return (this.getCount('Ham', 'Allow') + this.getCount('Spam', 'Block')) / automatic;
+  }
+
+  formatRate(value: number | null): string {
+    return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+  }
+
+  getPSpamColor(pSpam: number): string {
+    if (pSpam >= 0.7) return '#ef4444';
+    if (pSpam >= 0.3) return '#f59e0b';
+    return '#22c55e';
+  }
+}
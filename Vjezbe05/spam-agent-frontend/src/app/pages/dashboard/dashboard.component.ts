@@ -1,23 +1,31 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { Subject, takeUntil } from 'rxjs';
+import { Observable, Subject, firstValueFrom, takeUntil } from 'rxjs';
 import { ApiService } from '../../services/api.service';
-import { SignalRService, ConnectionStatus } from '../../services/signalr.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
+import { SignalRService } from '../../services/signalr.service';
+import { ConnectivityService } from '../../services/connectivity.service';
 import { StateService } from '../../services/state.service';
+import { AuthService } from '../../services/auth.service';
 import { MessageCardComponent } from '../../components/message-card/message-card.component';
 import { StatsPanelComponent } from '../../components/stats-panel/stats-panel.component';
-import { MessageCard, MessageScoredEvent } from '../../models/api.models';
+import { LiveChartsComponent } from '../../components/live-charts/live-charts.component';
+import { ExportMenuComponent } from '../../components/export-menu/export-menu.component';
+import { MessageCard } from '../../models/api.models';
+import { ExportFormat, MESSAGE_EXPORT_COLUMNS, exportRecords, flattenMessage } from '../../utils/export';
+
+type DashboardColumn = 'queued' | 'inbox' | 'spam' | 'review';
 
 @Component({
   selector: 'app-dashboard',
   standalone: true,
-  imports: [CommonModule, MessageCardComponent, StatsPanelComponent],
+  imports: [CommonModule, MessageCardComponent, StatsPanelComponent, LiveChartsComponent, ExportMenuComponent],
   templateUrl: "dashboard.component.html",
 })
 export class DashboardComponent implements OnInit, OnDestroy {
   private destroy$ = new Subject<void>();
 
-  connectionStatus: ConnectionStatus = 'disconnected';
   loading = false;
   enqueueing = false;
 
@@ -29,35 +37,34 @@ export class DashboardComponent implements OnInit, OnDestroy {
   activeModel$ = this.stateService.activeModel$;
   queueStats$ = this.stateService.queueStats$;
   settings$ = this.stateService.settings$;
+  scoredSamples$ = this.stateService.scoredSamples$;
 
-  toasts: Array<{ message: string; type: 'success' | 'error' | 'info' | 'warning' }> = [];
 
   constructor(
     private apiService: ApiService,
     private signalRService: SignalRService,
-    private stateService: StateService
+    private stateService: StateService,
+    private connectivityService: ConnectivityService,
+    private notificationService: NotificationService,
+    private authService: AuthService
   ) {}
 
+  get offline(): boolean {
+    return !this.connectivityService.isOnline;
+  }
+
+  /** Enqueueing is a Moderator action; viewers only watch */
+  get canEnqueue(): boolean {
+    return this.authService.hasRole('Moderator');
+  }
+
   ngOnInit(): void {
     // Set refresh callback
     this.stateService.setRefreshCallback(() => this.loadStats());
 
-    // Connect to SignalR
-    this.signalRService.connect();
-
-    // Subscribe to connection status
-    this.signalRService.connectionStatus$
-      .pipe(takeUntil(this.destroy$))
-      .subscribe(status => {
-        this.connectionStatus = status;
-        if (status === 'connected') {
-          this.showToast('Connected to server', 'success');
-        } else if (status === 'disconnected') {
-          this.showToast('Disconnected from server', 'error');
-        }
-      });
-
     // Subscribe to SignalR events
+    this.signalRService.joinGroup('messages');
+    this.signalRService.joinGroup('stats');
     this.subscribeToEvents();
 
     // Initial data load
@@ -65,9 +72,10 @@ export class DashboardComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.signalRService.leaveGroup('messages');
+    this.signalRService.leaveGroup('stats');
     this.destroy$.next();
     this.destroy$.complete();
-    this.signalRService.disconnect();
   }
 
   private subscribeToEvents(): void {
@@ -97,14 +105,25 @@ export class DashboardComponent implements OnInit, OnDestroy {
     this.signalRService.messageMoved$
       .pipe(takeUntil(this.destroy$))
       .subscribe(event => {
-        this.stateService.handleMessageMoved(event.messageId, event.oldStatus, event.newStatus);
+        this.stateService.handleMessageMoved(event);
       });
 
-    // Model retrained
+    // After a reconnect the replayed events update the store through the
+    // subscriptions above; a gap the server can't replay needs a full reload
+    this.signalRService.resync$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(result => {
+        if (result.snapshotRequired) {
+          this.refreshAll();
+        } else {
+          this.loadStats();
+        }
+      });
+
+    // Model retrained (the active model itself is switched app-wide on activation)
     this.signalRService.modelRetrained$
       .pipe(takeUntil(this.destroy$))
-      .subscribe(event => {
-        this.showToast(`New model v${event.newVersion} trained! Accuracy: ${(event.metrics.accuracy * 100).toFixed(1)}%`, 'success');
+      .subscribe(() => {
         this.loadSystemStatus();
       });
 
@@ -126,7 +145,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
       ]);
     } catch (error) {
       console.error('Error refreshing data:', error);
-      this.showToast('Error loading data', 'error');
+      this.notificationService.notify(describeError(error, 'Error loading data'), 'error');
     } finally {
       this.loading = false;
     }
@@ -150,19 +169,10 @@ export class DashboardComponent implements OnInit, OnDestroy {
         this.apiService.getRecentMessages(100).toPromise()
       ]);
 
-      if (queued) {
-        this.stateService.setQueuedMessages(queued);
-      }
-
-      if (recent) {
-        const inbox = recent.filter(m => m.status === 'InInbox');
-        const spam = recent.filter(m => m.status === 'InSpam');
-        const pending = recent.filter(m => m.status === 'PendingReview');
-
-        this.stateService.setInboxMessages(inbox);
-        this.stateService.setSpamMessages(spam);
-        this.stateService.setPendingMessages(pending);
-      }
+      this.stateService.setMessages([
+        ...(queued || []),
+        ...(recent || []).filter(m => m.status !== 'Queued')
+      ]);
     } catch (error) {
       console.error('Error loading messages:', error);
     }
@@ -184,30 +194,30 @@ export class DashboardComponent implements OnInit, OnDestroy {
     try {
       const result = await this.apiService.enqueueFromValidation(5).toPromise();
       if (result) {
-        this.showToast(`Added ${result.enqueued} messages to queue`, 'info');
+        this.notificationService.notify(`Added ${result.enqueued} messages to queue`, 'info');
       }
     } catch (error) {
       console.error('Error enqueueing messages:', error);
-      this.showToast('Error adding messages', 'error');
+      this.notificationService.notify(describeError(error, 'Error adding messages'), 'error');
     } finally {
       this.enqueueing = false;
     }
   }
 
-  trackByMessageId(index: number, message: MessageCard): number {
-    return message.id;
+  /** Exports the cards currently in a column, with lastPrediction flattened */
+  async exportColumn(column: DashboardColumn, format: ExportFormat): Promise<void> {
+    const sources: Record<DashboardColumn, Observable<MessageCard[]>> = {
+      queued: this.queuedMessages$,
+      inbox: this.inboxMessages$,
+      spam: this.spamMessages$,
+      review: this.pendingMessages$
+    };
+
+    const messages = await firstValueFrom(sources[column]);
+    exportRecords(`messages-${column}`, MESSAGE_EXPORT_COLUMNS, messages.map(flattenMessage), format);
   }
 
-  private showToast(message: string, type: 'success' | 'error' | 'info' | 'warning'): void {
-    const toast = { message, type };
-    this.toasts.push(toast);
-    
-    // Remove toast after 3 seconds
-    setTimeout(() => {
-      const index = this.toasts.indexOf(toast);
-      if (index > -1) {
-        this.toasts.splice(index, 1);
-      }
-    }, 3000);
+  trackByMessageId(index: number, message: MessageCard): number {
+    return message.id;
   }
 }
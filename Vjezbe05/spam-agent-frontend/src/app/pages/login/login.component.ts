@@ -0,0 +1,66 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { AuthService } from '../../services/auth.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
+import { UserRole } from '../../models/api.models';
+
+@Component({
+  selector: 'app-login',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: "login.component.html"
+})
+export class LoginComponent {
+  // Seeded by the backend into an empty database
+  readonly demoAccounts: Array<{ username: string; password: string; role: UserRole; description: string }> = [
+    { username: 'admin', password: 'admin123', role: 'Admin', description: 'Everything, including training and settings' },
+    { username: 'moderator', password: 'moderator123', role: 'Moderator', description: 'Review, playground and uploads' },
+    { username: 'viewer', password: 'viewer123', role: 'Viewer', description: 'Read-only' }
+  ];
+
+  username = '';
+  password = '';
+  signingIn = false;
+  error: string | null = null;
+
+  constructor(
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  get canSubmit(): boolean {
+    return this.username.trim().length > 0 && this.password.length > 0 && !this.signingIn;
+  }
+
+  useDemoAccount(account: { username: string; password: string }): void {
+    this.username = account.username;
+    this.password = account.password;
+    this.error = null;
+  }
+
+  async login(): Promise<void> {
+    if (!this.canSubmit) return;
+
+    this.signingIn = true;
+    this.error = null;
+    try {
+      const user = await this.authService.login(this.username.trim(), this.password);
+      this.notificationService.success(`Signed in as ${user.displayName} (${user.role})`);
+
+      // The guard bounces to the dashboard if the role can't open returnUrl
+      const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl') || '/dashboard';
+      await this.router.navigateByUrl(returnUrl);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      this.error = describeError(error, 'Sign-in failed');
+      this.password = '';
+    } finally {
+      this.signingIn = false;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Subject, filter, takeUntil } from 'rxjs';
+import { ApiService } from '../../services/api.service';
+import { SignalRService } from '../../services/signalr.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
+import {
+  MessageDto,
+  PredictionDto,
+  ReviewDto,
+  TimelineEntry
+} from '../../models/api.models';
+
+@Component({
+  selector: 'app-message-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: "message-detail.component.html"
+})
+export class MessageDetailComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  messageId: number | null = null;
+  message: MessageDto | null = null;
+  predictions: PredictionDto[] = [];
+  review: ReviewDto | null = null;
+  timeline: TimelineEntry[] = [];
+  loading = false;
+  notFound = false;
+
+  // Hub events for this id received while the page is open
+  private liveEntries: TimelineEntry[] = [];
+
+  // A live event matches a stored one if they are this close in time
+  private readonly MATCH_WINDOW_MS = 5000;
+
+  constructor(
+    private route: ActivatedRoute,
+    private apiService: ApiService,
+    private signalRService: SignalRService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.route.paramMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        this.messageId = Number(params.get('id'));
+        this.liveEntries = [];
+        this.loadHistory();
+      });
+
+    this.signalRService.joinGroup('messages');
+    this.subscribeToEvents();
+  }
+
+  ngOnDestroy(): void {
+    this.signalRService.leaveGroup('messages');
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private subscribeToEvents(): void {
+    this.signalRService.resync$
+      .pipe(filter(result => result.snapshotRequired), takeUntil(this.destroy$))
+      .subscribe(() => this.loadHistory());
+
+    this.signalRService.messageQueued$
+      .pipe(filter(event => event.messageId === this.messageId), takeUntil(this.destroy$))
+      .subscribe(event => {
+        this.addLiveEntry({
+          type: 'MessageQueued',
+          timestamp: event.timestamp,
+          title: 'Queued',
+          live: true
+        });
+      });
+
+    this.signalRService.messageScored$
+      .pipe(filter(event => event.messageId === this.messageId), takeUntil(this.destroy$))
+      .subscribe(event => {
+        this.addLiveEntry({
+          type: 'MessageScored',
+          timestamp: event.timestamp,
+          title: `Scored: ${event.decision}`,
+          detail: `pSpam ${(event.pSpam * 100).toFixed(1)}% → ${event.newStatus}`,
+          live: true
+        });
+        this.loadHistory();
+      });
+
+    this.signalRService.messageMoved$
+      .pipe(filter(event => event.messageId === this.messageId), takeUntil(this.destroy$))
+      .subscribe(event => {
+        this.addLiveEntry({
+          type: 'MessageMoved',
+          timestamp: event.timestamp,
+          title: `Moved to ${event.newStatus}`,
+          detail: `${event.oldStatus} → ${event.newStatus}` + (event.label ? `, labeled ${event.label}` : ''),
+          live: true
+        });
+        this.loadHistory();
+      });
+  }
+
+  async loadHistory(): Promise<void> {
+    if (this.messageId === null || Number.isNaN(this.messageId)) {
+      this.notFound = true;
+      return;
+    }
+
+    this.loading = true;
+    try {
+      const history = await this.apiService.getMessageHistory(this.messageId).toPromise();
+      if (history) {
+        this.message = history.message;
+        this.predictions = [...history.predictions].reverse();
+        this.review = history.review ?? null;
+        this.notFound = false;
+        this.buildTimeline();
+      }
+    } catch (error) {
+      console.error('Error loading message history:', error);
+      this.notFound = true;
+      this.notificationService.notify(describeError(error, 'Error loading message'), 'error');
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  getStatusBadgeClass(status: string): string {
+    switch (status) {
+      case 'InSpam': return 'badge-spam';
+      case 'InInbox': return 'badge-ham';
+      case 'PendingReview': return 'badge-pending';
+      default: return 'badge-queued';
+    }
+  }
+
+  getDecisionClass(decision: string): string {
+    switch (decision) {
+      case 'Block': return 'text-red-400';
+      case 'Allow': return 'text-green-400';
+      default: return 'text-yellow-400';
+    }
+  }
+
+  getPSpamColor(pSpam: number): string {
+    if (pSpam >= 0.7) return '#ef4444';
+    if (pSpam >= 0.3) return '#f59e0b';
+    return '#22c55e';
+  }
+
+  getTimelineDotClass(entry: TimelineEntry): string {
+    switch (entry.type) {
+      case 'MessageQueued': return 'bg-indigo-500';
+      case 'MessageScored': return 'bg-blue-500';
+      default: return 'bg-yellow-500';
+    }
+  }
+
+  private addLiveEntry(entry: TimelineEntry): void {
+    this.liveEntries.push(entry);
+    this.buildTimeline();
+  }
+
+  /**
+   * Stored data gives queue time, every prediction and the review; live hub
+   * events fill in what isn't persisted (e.g. an undone review).
+   */
+  private buildTimeline(): void {
+    if (!this.message) return;
+
+    const stored: TimelineEntry[] = [];
+
+    if (this.message.source === 'Runtime') {
+      stored.push({
+        type: 'MessageQueued',
+        timestamp: this.message.createdAtUtc,
+        title: 'Queued',
+        live: false
+      });
+    }
+
+    for (const p of this.predictions) {
+      stored.push({
+        type: 'MessageScored',
+        timestamp: p.createdAtUtc,
+        title: `Scored by v${p.modelVersion}: ${p.decision}`,
+        detail: `pSpam ${(p.pSpam * 100).toFixed(1)}%`,
+        live: false
+      });
+    }
+
+    if (this.review) {
+      stored.push({
+        type: 'MessageMoved',
+        timestamp: this.review.reviewedAtUtc,
+        title: `Moved to ${this.review.label === 'Ham' ? 'InInbox' : 'InSpam'}`,
+        detail: `Labeled ${this.review.label} by ${this.review.reviewedBy}`,
+        live: false
+      });
+    }
+
+    const unmatchedLive = this.liveEntries.filter(live =>
+      !stored.some(s =>
+        s.type === live.type &&
+        Math.abs(this.toTime(s.timestamp) - this.toTime(live.timestamp)) < this.MATCH_WINDOW_MS
+      )
+    );
+
+    this.timeline = [...stored, ...unmatchedLive]
+      .sort((a, b) => this.toTime(a.timestamp) - this.toTime(b.timestamp));
+  }
+
+  // Backend timestamps are UTC but may come without the trailing 'Z'
+  private toTime(timestamp: string): number {
+    const hasZone = /Z|[+-]\d{2}:\d{2}$/.test(timestamp);
+    return new Date(hasZone ? timestamp : `${timestamp}Z`).getTime();
+  }
+}
@@ -0,0 +1,315 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, ParamMap, Params, Router, RouterLink } from '@angular/router';
+import { Subject, debounceTime, takeUntil } from 'rxjs';
+import { ApiService } from '../../services/api.service';
+import { NotificationService } from '../../services/notification.service';
+import { AuthService } from '../../services/auth.service';
+import { describeError } from '../../models/api-error';
+import {
+  MessageDto,
+  MessageSearchQuery,
+  MessageSortField,
+  ModelVersionDto
+} from '../../models/api.models';
+
+/** Filter form state; mirrors the URL query string one-to-one. */
+interface ExplorerFilters {
+  q: string;
+  status: string;
+  source: string;
+  trueLabel: string;
+  decision: string;
+  modelVersion: string;
+  /** Percent, 0–100 */
+  minPSpam: number | null;
+  maxPSpam: number | null;
+  /** yyyy-MM-dd from <input type="date"> */
+  from: string;
+  to: string;
+  sortBy: MessageSortField;
+  sortDir: 'asc' | 'desc';
+  page: number;
+  pageSize: number;
+}
+
+@Component({
+  selector: 'app-message-explorer',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: "message-explorer.component.html"
+})
+export class MessageExplorerComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+  private searchInput$ = new Subject<string>();
+
+  // Responses for superseded filter states are dropped
+  private requestSeq = 0;
+
+  readonly statusOptions = ['Queued', 'Processing', 'Scored', 'InInbox', 'InSpam', 'PendingReview', 'Dataset'];
+  readonly sourceOptions = ['Runtime', 'Uci'];
+  readonly labelOptions = ['Ham', 'Spam'];
+  readonly decisionOptions = ['Allow', 'PendingReview', 'Block'];
+  readonly pageSizeOptions = [25, 50, 100];
+
+  readonly columns: Array<{ key: MessageSortField | null; label: string }> = [
+    { key: 'id', label: 'ID' },
+    { key: null, label: 'Text' },
+    { key: 'source', label: 'Source' },
+    { key: 'status', label: 'Status' },
+    { key: null, label: 'Label' },
+    { key: 'pSpam', label: 'pSpam' },
+    { key: null, label: 'Decision' },
+    { key: 'createdAt', label: 'Created' }
+  ];
+
+  filters: ExplorerFilters = this.defaultFilters();
+  messages: MessageDto[] = [];
+  models: ModelVersionDto[] = [];
+  totalCount = 0;
+  loading = false;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private apiService: ApiService,
+    private notificationService: NotificationService,
+    private authService: AuthService
+  ) {}
+
+  get canUpload(): boolean {
+    return this.authService.hasRole('Moderator');
+  }
+
+  ngOnInit(): void {
+    // The URL is the source of truth: every filter change navigates, and
+    // navigation (including back/forward) triggers the search
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        this.filters = this.parseParams(params);
+        this.search();
+      });
+
+    this.searchInput$
+      .pipe(debounceTime(300), takeUntil(this.destroy$))
+      .subscribe(() => this.applyFilters());
+
+    this.loadModels();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     DATA
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  async search(): Promise<void> {
+    const seq = ++this.requestSeq;
+    this.loading = true;
+    try {
+      const result = await this.apiService.searchMessages(this.toSearchQuery()).toPromise();
+      if (seq !== this.requestSeq || !result) return;
+      this.messages = result.items;
+      this.totalCount = result.totalCount;
+    } catch (error) {
+      if (seq !== this.requestSeq) return;
+      console.error('Error searching messages:', error);
+      this.notificationService.notify(describeError(error, 'Error searching messages'), 'error');
+    } finally {
+      if (seq === this.requestSeq) {
+        this.loading = false;
+      }
+    }
+  }
+
+  async loadModels(): Promise<void> {
+    try {
+      const models = await this.apiService.getAllModels().toPromise();
+      this.models = (models || []).sort((a, b) => b.version - a.version);
+    } catch (error) {
+      console.error('Error loading models:', error);
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     FILTERS & SORTING
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  onSearchInput(): void {
+    this.searchInput$.next(this.filters.q);
+  }
+
+  /** Pushes the current form state into the URL; any filter change goes back to page 1. */
+  applyFilters(resetPage: boolean = true): void {
+    if (resetPage) {
+      this.filters.page = 1;
+    }
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: this.toQueryParams()
+    });
+  }
+
+  resetFilters(): void {
+    this.filters = this.defaultFilters();
+    this.applyFilters();
+  }
+
+  sortBy(column: MessageSortField | null): void {
+    if (!column) return;
+
+    if (this.filters.sortBy === column) {
+      this.filters.sortDir = this.filters.sortDir === 'asc' ? 'desc' : 'asc';
+    } else {
+      this.filters.sortBy = column;
+      this.filters.sortDir = column === 'createdAt' || column === 'pSpam' ? 'desc' : 'asc';
+    }
+    this.applyFilters();
+  }
+
+  getSortIndicator(column: MessageSortField | null): string {
+    if (!column || this.filters.sortBy !== column) return '';
+    return this.filters.sortDir === 'asc' ? '▲' : '▼';
+  }
+
+  goToPage(page: number): void {
+    if (page < 1 || page > this.totalPages || page === this.filters.page) return;
+    this.filters.page = page;
+    this.applyFilters(false);
+  }
+
+  get totalPages(): number {
+    return Math.max(1, Math.ceil(this.totalCount / this.filters.pageSize));
+  }
+
+  get rangeStart(): number {
+    return this.totalCount === 0 ? 0 : (this.filters.page - 1) * this.filters.pageSize + 1;
+  }
+
+  get rangeEnd(): number {
+    return Math.min(this.filters.page * this.filters.pageSize, this.totalCount);
+  }
+
+  get activeFilterCount(): number {
+    const f = this.filters;
+    return [f.q, f.status, f.source, f.trueLabel, f.decision, f.modelVersion, f.from, f.to]
+      .filter(v => v !== '').length
+      + (f.minPSpam !== null ? 1 : 0)
+      + (f.maxPSpam !== null ? 1 : 0);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     DISPLAY
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  getStatusBadgeClass(status: string): string {
+    switch (status) {
+      case 'InSpam': return 'badge-spam';
+      case 'InInbox': return 'badge-ham';
+      case 'PendingReview': return 'badge-pending';
+      default: return 'badge-queued';
+    }
+  }
+
+  getDecisionClass(decision: string | undefined): string {
+    switch (decision) {
+      case 'Block': return 'text-red-400';
+      case 'Allow': return 'text-green-400';
+      case 'PendingReview': return 'text-yellow-400';
+      default: return 'text-gray-500';
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     URL MAPPING
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  private defaultFilters(): ExplorerFilters {
+    return {
+      q: '',
+      status: '',
+      source: '',
+      trueLabel: '',
+      decision: '',
+      modelVersion: '',
+      minPSpam: null,
+      maxPSpam: null,
+      from: '',
+      to: '',
+      sortBy: 'createdAt',
+      sortDir: 'desc',
+      page: 1,
+      pageSize: 25
+    };
+  }
+
+  private parseParams(params: ParamMap): ExplorerFilters {
+    const defaults = this.defaultFilters();
+    const text = (key: string) => params.get(key) ?? '';
+    const num = (key: string): number | null => {
+      const value = params.get(key);
+      if (value === null || value === '') return null;
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    };
+
+    const sortBy = params.get('sortBy') as MessageSortField | null;
+    const validSort = this.columns.some(c => c.key !== null && c.key === sortBy);
+
+    return {
+      q: text('q'),
+      status: text('status'),
+      source: text('source'),
+      trueLabel: text('trueLabel'),
+      decision: text('decision'),
+      modelVersion: text('modelVersion'),
+      minPSpam: num('minPSpam'),
+      maxPSpam: num('maxPSpam'),
+      from: text('from'),
+      to: text('to'),
+      sortBy: validSort ? sortBy! : defaults.sortBy,
+      sortDir: params.get('sortDir') === 'asc' ? 'asc' : params.get('sortDir') === 'desc' ? 'desc' : defaults.sortDir,
+      page: Math.max(1, num('page') ?? defaults.page),
+      pageSize: this.pageSizeOptions.includes(num('pageSize') ?? 0) ? num('pageSize')! : defaults.pageSize
+    };
+  }
+
+  /** Only non-default values go into the URL so shared links stay short. */
+  private toQueryParams(): Params {
+    const defaults = this.defaultFilters();
+    const params: Params = {};
+
+    for (const [key, value] of Object.entries(this.filters)) {
+      if (value === null || value === '' || value === defaults[key as keyof ExplorerFilters]) continue;
+      params[key] = value;
+    }
+
+    return params;
+  }
+
+  private toSearchQuery(): MessageSearchQuery {
+    const f = this.filters;
+    return {
+      q: f.q.trim() || undefined,
+      status: f.status || undefined,
+      source: f.source || undefined,
+      trueLabel: f.trueLabel || undefined,
+      decision: f.decision || undefined,
+      modelVersion: f.modelVersion ? Number(f.modelVersion) : undefined,
+      minPSpam: f.minPSpam !== null ? f.minPSpam / 100 : undefined,
+      maxPSpam: f.maxPSpam !== null ? f.maxPSpam / 100 : undefined,
+      // Date inputs are local calendar days; "to" includes the whole day
+      from: f.from ? new Date(`${f.from}T00:00:00`).toISOString() : undefined,
+      to: f.to ? new Date(`${f.to}T23:59:59.999`).toISOString() : undefined,
+      sortBy: f.sortBy,
+      sortDir: f.sortDir,
+      page: f.page,
+      pageSize: f.pageSize
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+import { ApiService } from '../../services/api.service';
+import { SignalRService } from '../../services/signalr.service';
+import {
+  MetricsHistoryChartComponent,
+  HistoryAxis
+} from '../../components/metrics-history-chart/metrics-history-chart.component';
+import { ModelCurvesComponent } from '../../components/model-curves/model-curves.component';
+import { ExportMenuComponent } from '../../components/export-menu/export-menu.component';
+import { ModelVersionDto, MetricsDto, ValidationScore } from '../../models/api.models';
+import { ExportFormat, MODEL_EXPORT_COLUMNS, exportRecords, flattenModel } from '../../utils/export';
+
+@Component({
+  selector: 'app-model-history',
+  standalone: true,
+  imports: [CommonModule, FormsModule, MetricsHistoryChartComponent, ModelCurvesComponent, ExportMenuComponent],
+  templateUrl: "model-history.component.html"
+})
+export class ModelHistoryComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  models: ModelVersionDto[] = [];
+  loading = false;
+
+  axis: HistoryAxis = 'version';
+
+  metricOptions: Array<{ key: keyof MetricsDto; label: string; colorClass: string }> = [
+    { key: 'accuracy', label: 'Accuracy', colorClass: 'text-blue-400' },
+    { key: 'precision', label: 'Precision', colorClass: 'text-green-400' },
+    { key: 'recall', label: 'Recall', colorClass: 'text-yellow-400' },
+    { key: 'f1', label: 'F1', colorClass: 'text-purple-400' }
+  ];
+  selectedMetrics: Array<keyof MetricsDto> = ['accuracy', 'precision', 'recall', 'f1'];
+
+  // PR/ROC curves for one version, with the current thresholds marked
+  curveVersion: number | null = null;
+  curveScores: ValidationScore[] = [];
+  loadingCurves = false;
+  thresholdAllow = 0.3;
+  thresholdBlock = 0.7;
+
+  constructor(
+    private apiService: ApiService,
+    private signalRService: SignalRService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadModels();
+    this.loadThresholds();
+
+    // New versions show up on the chart as soon as they are trained
+    this.signalRService.modelRetrained$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadModels());
+
+    this.signalRService.modelActivated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadModels());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  async loadModels(): Promise<void> {
+    this.loading = true;
+    try {
+      const models = await this.apiService.getAllModels().toPromise();
+      this.models = (models || []).sort((a, b) => a.version - b.version);
+
+      // Default to the active version (or the newest) until the user picks one
+      if (this.curveVersion === null || !this.models.some(m => m.version === this.curveVersion)) {
+        const initial = this.models.find(m => m.isActive) ?? this.models[this.models.length - 1];
+        if (initial) {
+          this.selectCurveVersion(initial.version);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading models:', error);
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  exportModels(format: ExportFormat): void {
+    exportRecords('models', MODEL_EXPORT_COLUMNS, this.models.map(flattenModel), format);
+  }
+
+  async loadThresholds(): Promise<void> {
+    try {
+      const settings = await this.apiService.getSettings().toPromise();
+      if (settings) {
+        this.thresholdAllow = settings.thresholdAllow;
+        this.thresholdBlock = settings.thresholdBlock;
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+  }
+
+  async selectCurveVersion(version: number): Promise<void> {
+    this.curveVersion = version;
+    this.loadingCurves = true;
+    try {
+      const result = await this.apiService.getValidationScores(version).toPromise();
+      // A slower response for a previously selected version is ignored
+      if (this.curveVersion !== version) return;
+      this.curveScores = result?.scores || [];
+    } catch (error) {
+      console.error('Error loading validation scores:', error);
+      if (this.curveVersion === version) this.curveScores = [];
+    } finally {
+      if (this.curveVersion === version) this.loadingCurves = false;
+    }
+  }
+
+  toggleMetric(key: keyof MetricsDto): void {
+    if (this.selectedMetrics.includes(key)) {
+      // Keep at least one line on the chart
+      if (this.selectedMetrics.length === 1) return;
+      this.selectedMetrics = this.selectedMetrics.filter(m => m !== key);
+    } else {
+      // Preserve the canonical order so colours and legend stay stable
+      this.selectedMetrics = this.metricOptions
+        .map(o => o.key)
+        .filter(k => k === key || this.selectedMetrics.includes(k));
+    }
+  }
+
+  isMetricSelected(key: keyof MetricsDto): boolean {
+    return this.selectedMetrics.includes(key);
+  }
+
+  get autoRetrainCount(): number {
+    return this.models.filter(m => m.trigger === 'AutoRetrain').length;
+  }
+
+  get bestF1Model(): ModelVersionDto | null {
+    if (this.models.length === 0) return null;
+    return this.models.reduce((best, m) => (m.metrics.f1 > best.metrics.f1 ? m : best));
+  }
+
+  get f1Change(): number | null {
+    if (this.models.length < 2) return null;
+    return this.models[this.models.length - 1].metrics.f1 - this.models[0].metrics.f1;
+  }
+
+  /** Change in a metric compared to the previous version in the list. */
+  getDelta(index: number, key: keyof MetricsDto): number | null {
+    if (index === 0) return null;
+    return this.models[index].metrics[key] - this.models[index - 1].metrics[key];
+  }
+
+  formatDelta(delta: number | null): string {
+    if (delta === null) return '—';
+    const sign = delta > 0 ? '+' : '';
+    return `${sign}${(delta * 100).toFixed(1)}`;
+  }
+
+  getDeltaClass(delta: number | null): string {
+    if (delta === null || Math.abs(delta) < 0.001) return 'text-gray-500';
+    return delta > 0 ? 'text-green-400' : 'text-red-400';
+  }
+}
@@ -0,0 +1,323 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subject, filter, takeUntil } from 'rxjs';
+import { ApiService } from '../../services/api.service';
+import { SignalRService } from '../../services/signalr.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
+import {
+  MessageDto,
+  MessageScoredEvent,
+  MessageSource,
+  ModelVersionDto,
+  ScorePreviewDto
+} from '../../models/api.models';
+
+/** What the live pipeline decided, from the MessageScored event or the stored prediction */
+interface PipelineResult {
+  pSpam: number;
+  decision: string;
+  newStatus: string;
+  modelVersion: number;
+}
+
+interface PlaygroundRun {
+  messageId: number;
+  text: string;
+  source: MessageSource;
+  sentAt: Date;
+  /** Unset until the scoring agent picks the message up */
+  result?: PipelineResult;
+  /** Still queued after WAIT_HINT_MS */
+  slow: boolean;
+  previews: ScorePreviewDto[];
+  previewError?: string;
+}
+
+@Component({
+  selector: 'app-playground',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: "playground.component.html"
+})
+export class PlaygroundComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  readonly sources: MessageSource[] = ['Runtime', 'Uci'];
+  readonly MAX_RUNS = 10;
+  readonly MAX_PREVIEW_MODELS = 5;
+  private readonly WAIT_HINT_MS = 10000;
+
+  readonly examples = [
+    'Hey, are we still on for dinner tonight? Let me know.',
+    'WINNER!! You have been selected for a £1000 prize. Call 09061701461 now to claim.',
+    'Your account will be suspended, verify here: http://bit.ly/acc-verify',
+    'Free entry this weekend only, text YES to 80082'
+  ];
+
+  text = '';
+  source: MessageSource = 'Runtime';
+  sending = false;
+
+  models: ModelVersionDto[] = [];
+  selectedVersions = new Set<number>();
+
+  runs: PlaygroundRun[] = [];
+
+  private slowTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  // Events that beat the send response; matched once the id is known
+  private earlyEvents = new Map<number, MessageScoredEvent>();
+
+  constructor(
+    private apiService: ApiService,
+    private signalRService: SignalRService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadModels();
+    this.signalRService.joinGroup('messages');
+    this.subscribeToEvents();
+  }
+
+  ngOnDestroy(): void {
+    this.signalRService.leaveGroup('messages');
+    this.slowTimers.forEach(timer => clearTimeout(timer));
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get inactiveModels(): ModelVersionDto[] {
+    return this.models.filter(m => !m.isActive);
+  }
+
+  get activeModel(): ModelVersionDto | undefined {
+    return this.models.find(m => m.isActive);
+  }
+
+  get canSend(): boolean {
+    return this.text.trim().length > 0 && !this.sending;
+  }
+
+  private subscribeToEvents(): void {
+    this.signalRService.messageScored$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => {
+        const run = this.runs.find(r => r.messageId === event.messageId);
+        if (run) {
+          this.applyScored(run, event);
+        } else if (this.sending) {
+          this.earlyEvents.set(event.messageId, event);
+        }
+      });
+
+    // Events for pending runs may have been lost with the connection
+    this.signalRService.resync$
+      .pipe(filter(result => result.snapshotRequired), takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.runs.filter(r => !r.result).forEach(r => this.refreshRun(r));
+      });
+
+    // A newly trained version becomes selectable without a reload
+    this.signalRService.modelRetrained$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadModels());
+
+    this.signalRService.modelActivated$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadModels());
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     DATA
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  async loadModels(): Promise<void> {
+    try {
+      const models = await this.apiService.getAllModels().toPromise();
+      this.models = (models || []).sort((a, b) => b.version - a.version);
+
+      // Drop selections that became active or no longer exist
+      const selectable = new Set(this.inactiveModels.map(m => m.version));
+      this.selectedVersions = new Set([...this.selectedVersions].filter(v => selectable.has(v)));
+    } catch (error) {
+      console.error('Error loading models:', error);
+    }
+  }
+
+  /**
+   * Queues the text like any other message and, in parallel, scores it with
+   * the selected inactive versions. The pipeline result arrives as a
+   * MessageScored event for the returned id.
+   */
+  async send(): Promise<void> {
+    if (!this.canSend) return;
+
+    const text = this.text.trim();
+    const versions = [...this.selectedVersions];
+
+    this.sending = true;
+    try {
+      const message = await this.apiService.sendMessage({ text, source: this.source }).toPromise();
+      if (!message) return;
+
+      const run: PlaygroundRun = {
+        messageId: message.id,
+        text,
+        source: this.source,
+        sentAt: new Date(),
+        slow: false,
+        previews: []
+      };
+      this.runs = [run, ...this.runs].slice(0, this.MAX_RUNS);
+
+      // The event may have beaten the response; otherwise re-read once before hinting
+      const early = this.earlyEvents.get(run.messageId);
+      if (early) {
+        this.applyScored(run, early);
+      } else {
+        this.applyStored(run, message);
+      }
+      if (!run.result) {
+        this.slowTimers.set(run.messageId, setTimeout(async () => {
+          this.slowTimers.delete(run.messageId);
+          await this.refreshRun(run);
+          run.slow = !run.result;
+        }, this.WAIT_HINT_MS));
+      }
+
+      if (versions.length > 0) {
+        this.loadPreviews(run, versions);
+      }
+    } catch (error) {
+      console.error('Error sending message:', error);
+      this.notificationService.notify(describeError(error, 'Error sending message'), 'error');
+    } finally {
+      this.sending = false;
+      this.earlyEvents.clear();
+    }
+  }
+
+  async loadPreviews(run: PlaygroundRun, versions: number[]): Promise<void> {
+    try {
+      const previews = await this.apiService.previewScore({ text: run.text, modelVersions: versions }).toPromise();
+      run.previews = previews || [];
+      run.previewError = undefined;
+    } catch (error) {
+      console.error('Error scoring with inactive models:', error);
+      run.previewError = describeError(error, 'Could not score with the selected models');
+    }
+  }
+
+  /** Re-reads the message; used when the hub event may have been missed */
+  async refreshRun(run: PlaygroundRun): Promise<void> {
+    try {
+      const message = await this.apiService.getMessage(run.messageId).toPromise();
+      if (message) {
+        this.applyStored(run, message);
+      }
+    } catch (error) {
+      console.error('Error loading message:', error);
+      this.notificationService.notify(describeError(error, 'Error loading message'), 'error');
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     UI
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  useExample(example: string): void {
+    this.text = example;
+  }
+
+  /** Reuses a previous text, e.g. to try it against another version */
+  retry(run: PlaygroundRun): void {
+    this.text = run.text;
+    this.source = run.source;
+  }
+
+  toggleVersion(version: number): void {
+    const next = new Set(this.selectedVersions);
+    if (next.has(version)) {
+      next.delete(version);
+    } else if (next.size < this.MAX_PREVIEW_MODELS) {
+      next.add(version);
+    }
+    this.selectedVersions = next;
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      this.send();
+    }
+  }
+
+  clearRuns(): void {
+    this.runs = [];
+  }
+
+  /** Difference from the live pSpam, in percentage points */
+  formatDelta(run: PlaygroundRun, preview: ScorePreviewDto): string {
+    if (!run.result) return '—';
+    const delta = (preview.pSpam - run.result.pSpam) * 100;
+    return `${delta > 0 ? '+' : ''}${delta.toFixed(1)} pp`;
+  }
+
+  getDeltaClass(run: PlaygroundRun, preview: ScorePreviewDto): string {
+    if (!run.result) return 'text-gray-500';
+    return preview.pSpam > run.result.pSpam ? 'text-red-400' : 'text-green-400';
+  }
+
+  getDecisionBadgeClass(decision: string): string {
+    switch (decision) {
+      case 'Block': return 'badge-spam';
+      case 'Allow': return 'badge-ham';
+      default: return 'badge-pending';
+    }
+  }
+
+  getPSpamColor(pSpam: number): string {
+    if (pSpam >= 0.7) return '#ef4444';
+    if (pSpam >= 0.3) return '#f59e0b';
+    return '#22c55e';
+  }
+
+  formatModelLabel(model: ModelVersionDto): string {
+    return `v${model.version} · ${model.trainingConfigName ?? model.trainTemplate} · F1 ${(model.metrics.f1 * 100).toFixed(1)}%`;
+  }
+
+  private applyScored(run: PlaygroundRun, event: MessageScoredEvent): void {
+    this.setResult(run, {
+      pSpam: event.pSpam,
+      decision: event.decision,
+      newStatus: event.newStatus,
+      modelVersion: event.modelVersion
+    });
+  }
+
+  private applyStored(run: PlaygroundRun, message: MessageDto): void {
+    if (!message.lastPrediction) return;
+
+    this.setResult(run, {
+      pSpam: message.lastPrediction.pSpam,
+      decision: message.lastPrediction.decision,
+      newStatus: message.status,
+      modelVersion: message.lastPrediction.modelVersion
+    });
+  }
+
+  private setResult(run: PlaygroundRun, result: PipelineResult): void {
+    run.result = result;
+    run.slow = false;
+
+    const timer = this.slowTimers.get(run.messageId);
+    if (timer) {
+      clearTimeout(timer);
+      this.slowTimers.delete(run.messageId);
+    }
+  }
+}
@@ -1,15 +1,39 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, HostListener, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil } from 'rxjs';
+import { Subject, filter, takeUntil } from 'rxjs';
 import { ApiService } from '../../services/api.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError, ApiError } from '../../models/api-error';
 import { SignalRService } from '../../services/signalr.service';
-import { MessageDto, GoldProgress } from '../../models/api.models';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { AuthService } from '../../services/auth.service';
+import { MessageDto, GoldProgress, ReviewDto } from '../../models/api.models';
+import { ExportMenuComponent } from '../../components/export-menu/export-menu.component';
+import {
+  ExportFormat,
+  MESSAGE_EXPORT_COLUMNS,
+  REVIEW_EXPORT_COLUMNS,
+  exportRecords,
+  flattenMessage,
+  flattenReview
+} from '../../utils/export';
+
+interface ReviewedBatch {
+  messages: MessageDto[];
+  label: 'ham' | 'spam';
+}
+
+interface StagedReview extends ReviewedBatch {
+  key: number;
+  note?: string;
+  timer: ReturnType<typeof setTimeout>;
+}
 
 @Component({
   selector: 'app-review',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, ExportMenuComponent],
   templateUrl:"review.component.html",
   styles: [`
     .line-clamp-2 {
@@ -21,6 +45,15 @@ import { MessageDto, GoldProgress } from '../../models/api.models';
     .bg-gray-750 {
       background-color: #374151;
     }
+    .undo-countdown {
+      animation-name: undo-countdown;
+      animation-timing-function: linear;
+      animation-fill-mode: forwards;
+    }
+    @keyframes undo-countdown {
+      from { width: 100%; }
+      to { width: 0%; }
+    }
   `]
 })
 export class ReviewComponent implements OnInit, OnDestroy {
@@ -33,25 +66,82 @@ export class ReviewComponent implements OnInit, OnDestroy {
   submitting = false;
   goldProgress: GoldProgress | null = null;
 
-  toasts: Array<{ message: string; type: 'success' | 'error' | 'warning' }> = [];
+  // Multi-select for batch labeling
+  selectedIds = new Set<number>();
+  batchProgress: { done: number; total: number; failed: number } | null = null;
+
+  // Reviews waiting out the undo window before they are sent
+  readonly UNDO_WINDOW_MS = 5000;
+  staged: StagedReview[] = [];
+  private stagedCounter = 0;
+  private commitChain: Promise<void> = Promise.resolve();
+
+  // Committed reviews, newest last ('u' deletes the top entry once nothing is staged)
+  private undoStack: ReviewedBatch[] = [];
+
+  // Recent reviews drawer
+  drawerOpen = false;
+  recentReviews: ReviewDto[] = [];
+  loadingRecent = false;
+  revisingId: number | null = null;
+
+  // Upper bound for the gold export; /review/recent has no paging
+  readonly GOLD_EXPORT_LIMIT = 10000;
+  exportingGold = false;
+
+  @ViewChild('noteInput') noteInput?: ElementRef<HTMLInputElement>;
+
 
   constructor(
     private apiService: ApiService,
-    private signalRService: SignalRService
+    private signalRService: SignalRService,
+    private connectivityService: ConnectivityService,
+    private notificationService: NotificationService,
+    private authService: AuthService
   ) {}
 
+  /** Labels still work offline (they are queued); edits to committed reviews don't. */
+  get offline(): boolean {
+    return !this.connectivityService.isOnline;
+  }
+
   ngOnInit(): void {
     this.loadPendingMessages();
     this.loadGoldStats();
 
+    // The "review" group only carries what this page needs, not every scored message
+    this.signalRService.joinGroup('review');
+    this.signalRService.joinGroup('stats');
+
     // Subscribe to SignalR events
     this.signalRService.messageScored$
-      .pipe(takeUntil(this.destroy$))
+      .pipe(filter(event => event.newStatus === 'PendingReview'), takeUntil(this.destroy$))
       .subscribe(() => {
         // Refresh when new message enters pending
         this.loadPendingMessages();
       });
 
+    // Labeled elsewhere (another moderator or tab): drop it from the queue.
+    // A deleted review moves the message back into PendingReview: show it again.
+    this.signalRService.messageMoved$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => {
+        if (event.newStatus === 'PendingReview') {
+          this.addPending(event.messageId);
+        } else {
+          this.removePending(event.messageId);
+        }
+      });
+
+    this.signalRService.resync$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(result => {
+        if (result.snapshotRequired) {
+          this.loadPendingMessages();
+          this.loadGoldStats();
+        }
+      });
+
     this.signalRService.statsUpdated$
       .pipe(takeUntil(this.destroy$))
       .subscribe(event => {
@@ -65,13 +155,15 @@ export class ReviewComponent implements OnInit, OnDestroy {
 
     this.signalRService.modelRetrained$
       .pipe(takeUntil(this.destroy$))
-      .subscribe(event => {
-        this.showToast(`Model retrained to v${event.newVersion}!`, 'success');
+      .subscribe(() => {
         this.loadGoldStats();
       });
   }
 
   ngOnDestroy(): void {
+    this.flushStaged();
+    this.signalRService.leaveGroup('review');
+    this.signalRService.leaveGroup('stats');
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -80,20 +172,49 @@ export class ReviewComponent implements OnInit, OnDestroy {
     this.loading = true;
     try {
       const messages = await this.apiService.getReviewQueue(50).toPromise();
-      this.pendingMessages = messages || [];
+      // Messages in their undo window or queued offline are still pending on the server
+      const stagedIds = new Set(this.staged.flatMap(e => e.messages.map(m => m.id)));
+      this.pendingMessages = (messages || []).filter(m =>
+        !stagedIds.has(m.id) && !this.connectivityService.isQueued(m.id));
       
       // Clear selection if message no longer exists
       if (this.selectedMessage && !this.pendingMessages.find(m => m.id === this.selectedMessage?.id)) {
         this.selectedMessage = null;
       }
+      this.selectedIds.forEach(id => {
+        if (!this.pendingMessages.some(m => m.id === id)) this.selectedIds.delete(id);
+      });
     } catch (error) {
       console.error('Error loading pending messages:', error);
-      this.showToast('Error loading messages', 'error');
+      this.notificationService.notify(describeError(error, 'Error loading messages'), 'error');
     } finally {
       this.loading = false;
     }
   }
 
+  private async addPending(messageId: number): Promise<void> {
+    const isLocal = this.staged.some(e => e.messages.some(m => m.id === messageId))
+      || this.connectivityService.isQueued(messageId);
+    if (isLocal || this.pendingMessages.some(m => m.id === messageId)) return;
+
+    try {
+      const message = await this.apiService.getMessage(messageId).toPromise();
+      if (message?.status === 'PendingReview') {
+        this.restoreMessages([message], false);
+      }
+    } catch (error) {
+      console.error('Error loading returned message:', error);
+    }
+  }
+
+  private removePending(messageId: number): void {
+    this.pendingMessages = this.pendingMessages.filter(m => m.id !== messageId);
+    this.selectedIds.delete(messageId);
+    if (this.selectedMessage?.id === messageId) {
+      this.selectedMessage = null;
+    }
+  }
+
   async loadGoldStats(): Promise<void> {
     try {
       const stats = await this.apiService.getReviewStats().toPromise();
@@ -110,41 +231,452 @@ export class ReviewComponent implements OnInit, OnDestroy {
     this.reviewNote = '';
   }
 
-  async submitReview(label: 'ham' | 'spam'): Promise<void> {
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     KEYBOARD SHORTCUTS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    // While typing a note only Escape is handled (to leave the input)
+    const target = event.target as HTMLElement;
+    if (this.isTextEntry(target)) {
+      if (event.key === 'Escape') target.blur();
+      return;
+    }
+
+    switch (event.key) {
+      case 'j':
+        this.moveSelection(1);
+        break;
+      case 'k':
+        this.moveSelection(-1);
+        break;
+      case 'h':
+        this.labelSelection('ham');
+        break;
+      case 's':
+        this.labelSelection('spam');
+        break;
+      case 'n':
+        if (!this.noteInput) return;
+        this.noteInput.nativeElement.focus();
+        break;
+      case 'u':
+        this.undoLastReview();
+        break;
+      case 'r':
+        this.toggleDrawer();
+        break;
+      case 'x':
+        if (this.selectedMessage) this.toggleChecked(this.selectedMessage);
+        break;
+      case 'Escape':
+        this.selectedIds.clear();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  /** Checkboxes and buttons keep the shortcuts; only fields that take text swallow them. */
+  private isTextEntry(target: HTMLElement): boolean {
+    if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+    if (target.isContentEditable) return true;
+    if (!(target instanceof HTMLInputElement)) return false;
+
+    const nonText = ['checkbox', 'radio', 'button', 'submit', 'reset', 'range', 'color', 'file', 'image'];
+    return !nonText.includes(target.type);
+  }
+
+  moveSelection(step: number): void {
+    if (this.pendingMessages.length === 0) return;
+
+    const index = this.selectedMessage
+      ? this.pendingMessages.findIndex(m => m.id === this.selectedMessage?.id)
+      : -1;
+    const next = index === -1
+      ? (step > 0 ? 0 : this.pendingMessages.length - 1)
+      : Math.min(Math.max(index + step, 0), this.pendingMessages.length - 1);
+
+    this.selectMessage(this.pendingMessages[next]);
+    this.scrollIntoView(this.pendingMessages[next].id);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     MULTI-SELECT
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  isChecked(message: MessageDto): boolean {
+    return this.selectedIds.has(message.id);
+  }
+
+  toggleChecked(message: MessageDto, event?: Event): void {
+    event?.stopPropagation();
+    if (this.selectedIds.has(message.id)) {
+      this.selectedIds.delete(message.id);
+    } else {
+      this.selectedIds.add(message.id);
+    }
+  }
+
+  toggleAll(): void {
+    if (this.selectedIds.size === this.pendingMessages.length) {
+      this.selectedIds.clear();
+    } else {
+      this.pendingMessages.forEach(m => this.selectedIds.add(m.id));
+    }
+  }
+
+  /** Labels the checked messages if any, otherwise the focused one. */
+  labelSelection(label: 'ham' | 'spam'): void {
+    if (this.selectedIds.size > 0) {
+      this.submitBatch(label);
+    } else {
+      this.submitReview(label);
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     REVIEW ACTIONS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  submitReview(label: 'ham' | 'spam'): void {
     if (!this.selectedMessage) return;
+    this.stageReview([this.selectedMessage], label);
+  }
 
-    this.submitting = true;
-    try {
-      const result = await this.apiService.addReview(this.selectedMessage.id, {
-        label,
-        note: this.reviewNote || undefined,
-        reviewedBy: 'moderator'
-      }).toPromise();
+  submitBatch(label: 'ham' | 'spam'): void {
+    const batch = this.pendingMessages.filter(m => this.selectedIds.has(m.id));
+    if (batch.length === 0) return;
 
-      if (result?.success) {
-        this.showToast(`Marked as ${label.toUpperCase()}`, 'success');
-        
-        // Update gold progress
-        if (result.goldProgress) {
-          this.goldProgress = result.goldProgress;
+    batch.forEach(m => this.selectedIds.delete(m.id));
+    this.stageReview(batch, label);
+  }
+
+  /** 'u' first cancels a review still in its undo window, then falls back to deleting a committed one. */
+  undoLastReview(): void {
+    if (this.staged.length > 0) {
+      this.cancelStaged(this.staged[this.staged.length - 1]);
+    } else {
+      this.deleteLastCommitted();
+    }
+  }
+
+  cancelStaged(entry: StagedReview): void {
+    clearTimeout(entry.timer);
+    this.staged = this.staged.filter(s => s !== entry);
+    this.restoreMessages(entry.messages);
+    this.notificationService.notify(`Undid ${entry.label.toUpperCase()} label on ${this.describe(entry.messages)}`, 'success');
+  }
+
+  get canUndo(): boolean {
+    return this.staged.length > 0 || this.undoStack.length > 0;
+  }
+
+  get latestStaged(): StagedReview[] {
+    return this.staged.slice(-1);
+  }
+
+  trackStaged(_: number, entry: StagedReview): number {
+    return entry.key;
+  }
+
+  describe(messages: MessageDto[]): string {
+    return messages.length === 1 ? `#${messages[0].id}` : `${messages.length} messages`;
+  }
+
+  /**
+   * Hides the messages right away and only sends the reviews once the
+   * undo window has passed without the moderator taking them back.
+   */
+  private stageReview(messages: MessageDto[], label: 'ham' | 'spam'): void {
+    const entry: StagedReview = {
+      key: ++this.stagedCounter,
+      messages,
+      label,
+      note: this.reviewNote || undefined,
+      timer: setTimeout(() => this.scheduleCommit(entry), this.UNDO_WINDOW_MS)
+    };
+    this.staged.push(entry);
+    this.removeReviewed(messages.map(m => m.id));
+  }
+
+  // Commits run one after another so batch progress and gold counts stay in order
+  private scheduleCommit(entry: StagedReview): void {
+    this.staged = this.staged.filter(s => s !== entry);
+    this.commitChain = this.commitChain.then(() => this.commitStaged(entry));
+  }
+
+  private async commitStaged(entry: StagedReview): Promise<void> {
+    if (this.offline) {
+      this.queueOffline(entry, entry.messages);
+      return;
+    }
+
+    const labeled: MessageDto[] = [];
+    const queued: MessageDto[] = [];
+    const failedMessages: MessageDto[] = [];
+    let lastProgress: GoldProgress | null = null;
+    let lastError: unknown = null;
+
+    const isBatch = entry.messages.length > 1;
+    if (isBatch) {
+      this.batchProgress = { done: 0, total: entry.messages.length, failed: 0 };
+    }
+
+    // Sequential on purpose: every review bumps the gold counter and may trigger retrain
+    for (const message of entry.messages) {
+      try {
+        const result = await this.apiService.addReview(message.id, {
+          label: entry.label,
+          note: entry.note
+        }).toPromise();
+
+        if (result?.success) {
+          labeled.push(message);
+          lastProgress = result.goldProgress;
+        } else {
+          failedMessages.push(message);
+        }
+      } catch (error) {
+        console.error(`Error submitting review for #${message.id}:`, error);
+        if (error instanceof ApiError && error.isNetworkError) {
+          // Backend went away mid-batch: keep the label for when it is back
+          queued.push(message);
+        } else {
+          failedMessages.push(message);
+          lastError = error;
         }
+      }
+      if (this.batchProgress) {
+        this.batchProgress.done++;
+        this.batchProgress.failed = failedMessages.length;
+      }
+    }
 
-        // Remove from list and clear selection
-        this.pendingMessages = this.pendingMessages.filter(m => m.id !== this.selectedMessage?.id);
-        this.selectedMessage = null;
-        this.reviewNote = '';
+    this.batchProgress = null;
+
+    if (lastProgress) {
+      this.goldProgress = this.toGoldProgress(lastProgress);
+    }
+
+    if (labeled.length > 0) {
+      this.undoStack.push({ messages: labeled, label: entry.label });
+      if (this.drawerOpen) this.loadRecentReviews();
+    }
+
+    if (queued.length > 0) {
+      this.queueOffline(entry, queued);
+    }
+
+    if (failedMessages.length === 0) {
+      if (labeled.length > 0) {
+        this.notificationService.notify(`Marked ${this.describe(labeled)} as ${entry.label.toUpperCase()}`, 'success');
+      }
+    } else {
+      // Failed ones go back to the list so they are not silently lost
+      this.restoreMessages(failedMessages, false);
+      this.notificationService.notify(
+        isBatch
+          ? describeError(lastError, `Marked ${labeled.length} of ${entry.messages.length} as ${entry.label.toUpperCase()}, ${failedMessages.length} failed`)
+          : describeError(lastError, 'Error submitting review'),
+        'error'
+      );
+    }
+
+    if (lastProgress?.willRetrain) {
+      this.notificationService.notify('Auto-retrain will trigger soon!', 'warning');
+    }
+  }
+
+  private queueOffline(entry: StagedReview, messages: MessageDto[]): void {
+    messages.forEach(m => this.connectivityService.queueReview(m.id, {
+      label: entry.label,
+      note: entry.note
+    }));
+    this.notificationService.notify(
+      `Offline — ${entry.label.toUpperCase()} label on ${this.describe(messages)} queued, will be sent on reconnect`,
+      'warning'
+    );
+  }
 
-        // Check if retrain will trigger
-        if (result.goldProgress?.willRetrain) {
-          this.showToast('Auto-retrain will trigger soon!', 'warning');
+  private async deleteLastCommitted(): Promise<void> {
+    if (this.submitting || this.undoStack.length === 0 || this.offline) return;
+
+    const last = this.undoStack.pop()!;
+    this.submitting = true;
+    const restored: MessageDto[] = [];
+    try {
+      for (const message of last.messages) {
+        const result = await this.apiService.deleteReview(message.id).toPromise();
+        if (result?.success) {
+          restored.push(message);
+          this.goldProgress = this.toGoldProgress(result.goldProgress);
         }
       }
     } catch (error) {
-      console.error('Error submitting review:', error);
-      this.showToast('Error submitting review', 'error');
+      console.error('Error undoing review:', error);
+      this.notificationService.notify(describeError(error, 'Error undoing review'), 'error');
     } finally {
       this.submitting = false;
     }
+
+    // Whatever could not be undone stays on the stack for another try
+    const remaining = last.messages.filter(m => !restored.includes(m));
+    if (remaining.length > 0) {
+      this.undoStack.push({ messages: remaining, label: last.label });
+    }
+
+    if (restored.length === 0) return;
+
+    this.restoreMessages(restored);
+    if (this.drawerOpen) this.loadRecentReviews();
+    this.notificationService.notify(`Undid ${last.label.toUpperCase()} label on ${this.describe(restored)}`, 'success');
+  }
+
+  /** Flushes reviews still waiting in their undo window (e.g. when leaving the page). */
+  private flushStaged(): void {
+    this.staged.forEach(entry => {
+      clearTimeout(entry.timer);
+      this.commitChain = this.commitChain.then(() => this.commitStaged(entry));
+    });
+    this.staged = [];
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     RECENT REVIEWS DRAWER
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  toggleDrawer(): void {
+    this.drawerOpen = !this.drawerOpen;
+    if (this.drawerOpen) this.loadRecentReviews();
+  }
+
+  async loadRecentReviews(): Promise<void> {
+    this.loadingRecent = true;
+    try {
+      const reviews = await this.apiService.getRecentReviews(30).toPromise();
+      this.recentReviews = reviews || [];
+    } catch (error) {
+      console.error('Error loading recent reviews:', error);
+      this.notificationService.notify(describeError(error, 'Error loading recent reviews'), 'error');
+    } finally {
+      this.loadingRecent = false;
+    }
+  }
+
+  async reviseReview(review: ReviewDto, label: 'ham' | 'spam'): Promise<void> {
+    if (review.label.toLowerCase() === label) return;
+
+    this.revisingId = review.messageId;
+    try {
+      const result = await this.apiService.reviseReview(review.messageId, { label }).toPromise();
+
+      if (result?.success) {
+        // The server records whoever is signed in as the reviewer
+        review.label = label === 'ham' ? 'Ham' : 'Spam';
+        review.reviewedBy = this.authService.user?.username ?? review.reviewedBy;
+        this.goldProgress = this.toGoldProgress(result.goldProgress);
+        this.notificationService.notify(`Revised #${review.messageId} to ${label.toUpperCase()}`, 'success');
+      }
+    } catch (error) {
+      console.error('Error revising review:', error);
+      this.notificationService.notify(describeError(error, 'Error revising review'), 'error');
+    } finally {
+      this.revisingId = null;
+    }
+  }
+
+  async removeReview(review: ReviewDto): Promise<void> {
+    this.revisingId = review.messageId;
+    try {
+      const result = await this.apiService.deleteReview(review.messageId).toPromise();
+
+      if (result?.success) {
+        this.recentReviews = this.recentReviews.filter(r => r !== review);
+        this.undoStack = this.undoStack
+          .map(b => ({ ...b, messages: b.messages.filter(m => m.id !== review.messageId) }))
+          .filter(b => b.messages.length > 0);
+        this.goldProgress = this.toGoldProgress(result.goldProgress);
+        this.notificationService.notify(`#${review.messageId} is back in the review queue`, 'success');
+        this.loadPendingMessages();
+      }
+    } catch (error) {
+      console.error('Error removing review:', error);
+      this.notificationService.notify(describeError(error, 'Error removing review'), 'error');
+    } finally {
+      this.revisingId = null;
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     EXPORT
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  exportPending(format: ExportFormat): void {
+    exportRecords('review-queue', MESSAGE_EXPORT_COLUMNS, this.pendingMessages.map(flattenMessage), format);
+  }
+
+  /** Exports every gold review (newest first), including note and reviewer. */
+  async exportGoldReviews(format: ExportFormat): Promise<void> {
+    this.exportingGold = true;
+    try {
+      const reviews = await this.apiService.getRecentReviews(this.GOLD_EXPORT_LIMIT).toPromise() || [];
+      exportRecords('gold-reviews', REVIEW_EXPORT_COLUMNS, reviews.map(flattenReview), format);
+
+      if (reviews.length >= this.GOLD_EXPORT_LIMIT) {
+        this.notificationService.warning(`Export capped at the ${this.GOLD_EXPORT_LIMIT} most recent reviews`);
+      }
+    } catch (error) {
+      console.error('Error exporting gold reviews:', error);
+      this.notificationService.notify(describeError(error, 'Error exporting gold reviews'), 'error');
+    } finally {
+      this.exportingGold = false;
+    }
+  }
+
+  /** Puts messages back in queue order (oldest first, as the backend returns them). */
+  private restoreMessages(messages: MessageDto[], focus: boolean = true): void {
+    this.pendingMessages = [...this.pendingMessages, ...messages]
+      .filter((m, i, all) => all.findIndex(o => o.id === m.id) === i)
+      .sort((a, b) => a.createdAtUtc.localeCompare(b.createdAtUtc));
+
+    if (focus && messages.length > 0) {
+      this.selectMessage(messages[0]);
+      this.scrollIntoView(messages[0].id);
+    }
+  }
+
+  private removeReviewed(ids: number[]): void {
+    const focusedIndex = this.selectedMessage
+      ? this.pendingMessages.findIndex(m => m.id === this.selectedMessage?.id)
+      : -1;
+
+    this.pendingMessages = this.pendingMessages.filter(m => !ids.includes(m.id));
+    this.reviewNote = '';
+
+    // Keep focus near where it was so j/k + h/s can continue without the mouse
+    if (this.selectedMessage && ids.includes(this.selectedMessage.id)) {
+      const next = this.pendingMessages[Math.min(focusedIndex, this.pendingMessages.length - 1)];
+      this.selectedMessage = next ?? null;
+    }
+  }
+
+  private scrollIntoView(messageId: number): void {
+    setTimeout(() => {
+      document.getElementById(`review-msg-${messageId}`)?.scrollIntoView({ block: 'nearest' });
+    });
+  }
+
+  /** The review endpoints don't send a percentage, so derive it here. */
+  private toGoldProgress(progress: GoldProgress): GoldProgress {
+    return {
+      ...progress,
+      percentage: progress.threshold > 0 ? (progress.current / progress.threshold) * 100 : 0
+    };
   }
 
   getPSpamColor(pSpam: number): string {
@@ -152,13 +684,4 @@ export class ReviewComponent implements OnInit, OnDestroy {
     if (pSpam >= 0.3) return '#f59e0b';
     return '#22c55e';
   }
-
-  private showToast(message: string, type: 'success' | 'error' | 'warning'): void {
-    const toast = { message, type };
-    this.toasts.push(toast);
-    setTimeout(() => {
-      const index = this.toasts.indexOf(toast);
-      if (index > -1) this.toasts.splice(index, 1);
-    }, 3000);
-  }
 }
@@ -0,0 +1,515 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subject, filter, takeUntil } from 'rxjs';
+import { ApiService } from '../../services/api.service';
+import { SignalRService } from '../../services/signalr.service';
+import { NotificationService } from '../../services/notification.service';
+import { describeError } from '../../models/api-error';
+import { MessageDto, MessageScoredEvent, MessageSource } from '../../models/api.models';
+import { detectDelimiter, downloadText, parseCsv, toCsv } from '../../utils/csv';
+
+type UploadPhase = 'idle' | 'preview' | 'uploading' | 'done';
+type RowFilter = 'all' | 'errors' | 'unscored' | 'wrong';
+type KnownLabel = 'Ham' | 'Spam';
+
+interface UploadRow {
+  /** 1-based position among the file's data rows */
+  row: number;
+  text: string;
+  /** Unset means the upload's default source */
+  source?: MessageSource;
+  trueLabel?: KnownLabel;
+  /** Validation problem; the row is skipped */
+  error?: string;
+  messageId?: number;
+  pSpam?: number;
+  decision?: string;
+  status?: string;
+  modelVersion?: number;
+}
+
+interface UploadSummary {
+  valid: number;
+  invalid: number;
+  sent: number;
+  scored: number;
+  spam: number;
+  ham: number;
+  review: number;
+  /** Labeled rows with an automatic decision */
+  judged: number;
+  correct: number;
+}
+
+@Component({
+  selector: 'app-upload',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: "upload.component.html"
+})
+export class UploadComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  readonly sources: MessageSource[] = ['Runtime', 'Uci'];
+  readonly rowFilters: Array<{ key: RowFilter; label: string }> = [
+    { key: 'all', label: 'All' },
+    { key: 'errors', label: 'Invalid' },
+    { key: 'unscored', label: 'Not scored' },
+    { key: 'wrong', label: 'Wrong decision' }
+  ];
+  readonly CHUNK_SIZE = 100;
+  readonly MAX_ROWS = 5000;
+  readonly MAX_FILE_BYTES = 5 * 1024 * 1024;
+  readonly PAGE_SIZE = 50;
+  private readonly REFRESH_CONCURRENCY = 5;
+
+  phase: UploadPhase = 'idle';
+  fileName = '';
+  parseError = '';
+  dragOver = false;
+
+  rows: UploadRow[] = [];
+  defaultSource: MessageSource = 'Runtime';
+  summary: UploadSummary = this.emptySummary();
+
+  rowFilter: RowFilter = 'all';
+  page = 1;
+
+  cancelRequested = false;
+  refreshing = false;
+
+  // Uploaded rows by message id, for correlating MessageScored events
+  private rowsById = new Map<number, UploadRow>();
+
+  // Events that beat their chunk's response; matched once the ids are known
+  private earlyEvents = new Map<number, MessageScoredEvent>();
+
+  constructor(
+    private apiService: ApiService,
+    private signalRService: SignalRService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.signalRService.joinGroup('messages');
+    this.subscribeToEvents();
+  }
+
+  ngOnDestroy(): void {
+    // An upload in progress stops after its current chunk
+    this.cancelRequested = true;
+    this.signalRService.leaveGroup('messages');
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private subscribeToEvents(): void {
+    this.signalRService.messageScored$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => {
+        const row = this.rowsById.get(event.messageId);
+        if (row) {
+          this.applyScored(row, event);
+          this.updateSummary();
+        } else if (this.phase === 'uploading') {
+          this.earlyEvents.set(event.messageId, event);
+        }
+      });
+
+    this.signalRService.resync$
+      .pipe(filter(result => result.snapshotRequired), takeUntil(this.destroy$))
+      .subscribe(() => this.refreshUnscored());
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     FILE → ROWS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      this.readFile(file);
+    }
+    // Lets the same file be picked again after a reset
+    input.value = '';
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.dragOver = true;
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.dragOver = false;
+    const file = event.dataTransfer?.files?.[0];
+    if (file) {
+      this.readFile(file);
+    }
+  }
+
+  async readFile(file: File): Promise<void> {
+    if (this.phase === 'uploading') return;
+
+    this.reset();
+    this.fileName = file.name;
+
+    if (file.size > this.MAX_FILE_BYTES) {
+      this.parseError = `File is larger than ${this.MAX_FILE_BYTES / 1024 / 1024} MB.`;
+      return;
+    }
+
+    try {
+      const content = await file.text();
+      const rows = this.isJson(file.name, content) ? this.parseJsonRows(content) : this.parseCsvRows(content);
+
+      if (rows.length === 0) {
+        this.parseError = 'The file has no messages.';
+        return;
+      }
+      if (rows.length > this.MAX_ROWS) {
+        this.parseError = `The file has ${rows.length} messages; at most ${this.MAX_ROWS} can be uploaded at once.`;
+        return;
+      }
+
+      this.rows = rows;
+      this.phase = 'preview';
+      this.rowFilter = rows.some(r => r.error) ? 'errors' : 'all';
+      this.updateSummary();
+    } catch (error) {
+      this.parseError = error instanceof Error ? error.message : 'Could not read the file.';
+    }
+  }
+
+  private isJson(fileName: string, content: string): boolean {
+    return fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(content);
+  }
+
+  /**
+   * Accepts an array of strings, an array of objects or { messages: [...] }.
+   * Objects use text (or message/body), label (or trueLabel) and source.
+   */
+  private parseJsonRows(content: string): UploadRow[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    const items = Array.isArray(data) ? data : (data as { messages?: unknown })?.messages;
+    if (!Array.isArray(items)) {
+      throw new Error('Expected a JSON array of messages or an object with a "messages" array.');
+    }
+
+    return items.map((item, i) => {
+      if (typeof item === 'string') {
+        return this.buildRow(i + 1, item);
+      }
+      const obj = (item ?? {}) as Record<string, unknown>;
+      const pick = (...keys: string[]) => {
+        const key = keys.find(k => obj[k] !== undefined && obj[k] !== null);
+        return key !== undefined ? String(obj[key]) : undefined;
+      };
+      return this.buildRow(i + 1, pick('text', 'message', 'body') ?? '', pick('label', 'trueLabel'), pick('source'));
+    });
+  }
+
+  /**
+   * With a header row, columns are found by name (text/message, label/trueLabel,
+   * source). Without one, a first column of ham/spam is read as the label,
+   * which covers the UCI "label<TAB>text" format.
+   */
+  private parseCsvRows(content: string): UploadRow[] {
+    const delimiter = detectDelimiter(content);
+    const records = parseCsv(content, delimiter);
+    if (records.length === 0) return [];
+
+    const header = records[0].map(h => h.trim().toLowerCase());
+    const textCol = header.findIndex(h => ['text', 'message', 'body'].includes(h));
+
+    if (textCol >= 0) {
+      const labelCol = header.findIndex(h => ['label', 'truelabel', 'true_label'].includes(h));
+      const sourceCol = header.indexOf('source');
+      return records.slice(1).map((r, i) => this.buildRow(
+        i + 1,
+        r[textCol] ?? '',
+        labelCol >= 0 ? r[labelCol] : undefined,
+        sourceCol >= 0 ? r[sourceCol] : undefined
+      ));
+    }
+
+    const labelFirst = records.every(r => r.length >= 2 && this.parseLabel(r[0]) !== null);
+    return records.map((r, i) => labelFirst
+      ? this.buildRow(i + 1, r.slice(1).join(delimiter), r[0])
+      : this.buildRow(i + 1, r.join(delimiter)));
+  }
+
+  private buildRow(row: number, rawText: string, rawLabel?: string, rawSource?: string): UploadRow {
+    const result: UploadRow = { row, text: rawText.trim() };
+
+    if (result.text.length === 0) {
+      result.error = 'Empty text';
+    }
+
+    if (rawLabel !== undefined && rawLabel.trim().length > 0) {
+      const label = this.parseLabel(rawLabel);
+      if (label) {
+        result.trueLabel = label;
+      } else {
+        result.error ??= `Unknown label "${rawLabel.trim()}"`;
+      }
+    }
+
+    if (rawSource !== undefined && rawSource.trim().length > 0) {
+      const source = this.sources.find(s => s.toLowerCase() === rawSource.trim().toLowerCase());
+      if (source) {
+        result.source = source;
+      } else {
+        result.error ??= `Unknown source "${rawSource.trim()}"`;
+      }
+    }
+
+    return result;
+  }
+
+  private parseLabel(value: string): KnownLabel | null {
+    switch (value.trim().toLowerCase()) {
+      case 'ham': return 'Ham';
+      case 'spam': return 'Spam';
+      default: return null;
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     UPLOAD
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sends valid rows that have no message id yet, one chunk at a time, so a
+   * cancelled or failed upload can be resumed without duplicates.
+   */
+  async upload(): Promise<void> {
+    const pending = this.rows.filter(r => !r.error && r.messageId === undefined);
+    if (pending.length === 0 || this.phase === 'uploading') return;
+
+    this.phase = 'uploading';
+    this.cancelRequested = false;
+    this.rowFilter = 'all';
+
+    try {
+      for (let i = 0; i < pending.length && !this.cancelRequested; i += this.CHUNK_SIZE) {
+        const chunk = pending.slice(i, i + this.CHUNK_SIZE);
+        const messages = await this.apiService.sendMessagesBatch({
+          messages: chunk.map(r => ({
+            text: r.text,
+            source: r.source ?? this.defaultSource,
+            trueLabel: r.trueLabel
+          }))
+        }).toPromise();
+
+        (messages || []).forEach((message, index) => this.attachMessage(chunk[index], message));
+        this.updateSummary();
+      }
+
+      if (this.cancelRequested) {
+        this.notificationService.warning(`Upload stopped after ${this.summary.sent} of ${this.summary.valid} messages`);
+      } else {
+        this.notificationService.success(`Uploaded ${this.summary.sent} messages`);
+      }
+    } catch (error) {
+      console.error('Error uploading messages:', error);
+      this.notificationService.notify(
+        describeError(error, `Upload stopped after ${this.summary.sent} of ${this.summary.valid} messages`),
+        'error'
+      );
+    } finally {
+      this.phase = 'done';
+      this.earlyEvents.clear();
+    }
+  }
+
+  cancel(): void {
+    this.cancelRequested = true;
+  }
+
+  /** Re-reads unscored rows; used after a hub gap or when the agent was stopped */
+  async refreshUnscored(): Promise<void> {
+    const unscored = this.rows.filter(r => r.messageId !== undefined && r.decision === undefined);
+    if (unscored.length === 0 || this.refreshing) return;
+
+    this.refreshing = true;
+    try {
+      for (let i = 0; i < unscored.length; i += this.REFRESH_CONCURRENCY) {
+        const batch = unscored.slice(i, i + this.REFRESH_CONCURRENCY);
+        const messages = await Promise.all(batch.map(r => this.apiService.getMessage(r.messageId!).toPromise()));
+        messages.forEach((message, index) => {
+          if (message) this.applyStored(batch[index], message);
+        });
+      }
+      this.updateSummary();
+    } catch (error) {
+      console.error('Error refreshing uploaded messages:', error);
+      this.notificationService.notify(describeError(error, 'Error refreshing results'), 'error');
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  reset(): void {
+    if (this.phase === 'uploading') return;
+
+    this.phase = 'idle';
+    this.fileName = '';
+    this.parseError = '';
+    this.rows = [];
+    this.rowsById.clear();
+    this.earlyEvents.clear();
+    this.rowFilter = 'all';
+    this.page = 1;
+    this.updateSummary();
+  }
+
+  private attachMessage(row: UploadRow, message: MessageDto): void {
+    row.messageId = message.id;
+    row.status = message.status;
+    this.rowsById.set(message.id, row);
+
+    const early = this.earlyEvents.get(message.id);
+    if (early) {
+      this.applyScored(row, early);
+      this.earlyEvents.delete(message.id);
+    } else {
+      this.applyStored(row, message);
+    }
+  }
+
+  private applyScored(row: UploadRow, event: MessageScoredEvent): void {
+    row.pSpam = event.pSpam;
+    row.decision = event.decision;
+    row.status = event.newStatus;
+    row.modelVersion = event.modelVersion;
+  }
+
+  private applyStored(row: UploadRow, message: MessageDto): void {
+    row.status = message.status;
+    if (message.lastPrediction) {
+      row.pSpam = message.lastPrediction.pSpam;
+      row.decision = message.lastPrediction.decision;
+      row.modelVersion = message.lastPrediction.modelVersion;
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     RESULTS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  get uploadPercent(): number {
+    return this.summary.valid > 0 ? (this.summary.sent / this.summary.valid) * 100 : 0;
+  }
+
+  get pendingCount(): number {
+    return this.summary.valid - this.summary.sent;
+  }
+
+  get filteredRows(): UploadRow[] {
+    switch (this.rowFilter) {
+      case 'errors': return this.rows.filter(r => r.error);
+      case 'unscored': return this.rows.filter(r => !r.error && r.decision === undefined);
+      case 'wrong': return this.rows.filter(r => this.isCorrect(r) === false);
+      default: return this.rows;
+    }
+  }
+
+  get pagedRows(): UploadRow[] {
+    const start = (this.page - 1) * this.PAGE_SIZE;
+    return this.filteredRows.slice(start, start + this.PAGE_SIZE);
+  }
+
+  get totalPages(): number {
+    return Math.max(1, Math.ceil(this.filteredRows.length / this.PAGE_SIZE));
+  }
+
+  setFilter(rowFilter: RowFilter): void {
+    this.rowFilter = rowFilter;
+    this.page = 1;
+  }
+
+  /** Allow/Block against the known label; review and unlabeled rows are not judged */
+  isCorrect(row: UploadRow): boolean | null {
+    if (!row.trueLabel) return null;
+    if (row.decision === 'Allow') return row.trueLabel === 'Ham';
+    if (row.decision === 'Block') return row.trueLabel === 'Spam';
+    return null;
+  }
+
+  downloadResults(): void {
+    const header = ['row', 'messageId', 'text', 'source', 'trueLabel', 'pSpam', 'decision', 'status', 'modelVersion', 'correct', 'error'];
+    const body = this.rows.map(r => [
+      r.row,
+      r.messageId,
+      r.text,
+      r.error ? r.source : r.source ?? this.defaultSource,
+      r.trueLabel,
+      r.pSpam?.toFixed(4),
+      r.decision,
+      r.status,
+      r.modelVersion,
+      this.isCorrect(r),
+      r.error
+    ]);
+
+    const base = this.fileName.replace(/\.[^.]+$/, '') || 'upload';
+    downloadText(`${base}-results.csv`, toCsv([header, ...body]));
+  }
+
+  getDecisionBadgeClass(decision: string): string {
+    switch (decision) {
+      case 'Block': return 'badge-spam';
+      case 'Allow': return 'badge-ham';
+      default: return 'badge-pending';
+    }
+  }
+
+  getPSpamColor(pSpam: number): string {
+    if (pSpam >= 0.7) return '#ef4444';
+    if (pSpam >= 0.3) return '#f59e0b';
+    return '#22c55e';
+  }
+
+  formatRate(value: number, total: number): string {
+    return total > 0 ? `${((value / total) * 100).toFixed(1)}%` : '—';
+  }
+
+  private updateSummary(): void {
+    const s = this.emptySummary();
+    for (const r of this.rows) {
+      if (r.error) {
+        s.invalid++;
+        continue;
+      }
+      s.valid++;
+      if (r.messageId !== undefined) s.sent++;
+      if (r.decision === undefined) continue;
+
+      s.scored++;
+      if (r.decision === 'Block') s.spam++;
+      else if (r.decision === 'Allow') s.ham++;
+      else s.review++;
+
+      const correct = this.isCorrect(r);
+      if (correct !== null) {
+        s.judged++;
+        if (correct) s.correct++;
+      }
+    }
+    this.summary = s;
+  }
+
+  private emptySummary(): UploadSummary {
+    return { valid: 0, invalid: 0, sent: 0, scored: 0, spam: 0, ham: 0, review: 0, judged: 0, correct: 0 };
+  }
+}
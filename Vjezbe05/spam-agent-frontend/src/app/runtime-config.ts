@@ -0,0 +1,48 @@
+import { InjectionToken } from '@angular/core';
+
+// ════════════════════════════════════════════════════════════════════════════════
+//                     RUNTIME CONFIG
+// ════════════════════════════════════════════════════════════════════════════════
+
+export interface RuntimeConfig {
+  apiBaseUrl: string;
+  hubUrl: string;
+}
+
+export const RUNTIME_CONFIG = new InjectionToken<RuntimeConfig>('RUNTIME_CONFIG');
+
+/** Used for any value missing from assets/config.json, or when the file can't be loaded. */
+export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
+  apiBaseUrl: 'http://localhost:5000/api',
+  hubUrl: 'http://localhost:5000/hubs/spamAgent'
+};
+
+const CONFIG_URL = 'assets/config.json';
+
+/**
+ * Loads the deployment config before bootstrap, so the same build can point
+ * at a local, staging or containerized backend.
+ */
+export async function loadRuntimeConfig(): Promise<RuntimeConfig> {
+  try {
+    const response = await fetch(CONFIG_URL, { cache: 'no-cache' });
+    if (!response.ok) {
+      console.warn(`[Config] ${CONFIG_URL} returned ${response.status}, using defaults`);
+      return DEFAULT_RUNTIME_CONFIG;
+    }
+
+    const loaded = (await response.json()) as Partial<RuntimeConfig>;
+    return {
+      apiBaseUrl: stripTrailingSlash(loaded.apiBaseUrl) ?? DEFAULT_RUNTIME_CONFIG.apiBaseUrl,
+      hubUrl: stripTrailingSlash(loaded.hubUrl) ?? DEFAULT_RUNTIME_CONFIG.hubUrl
+    };
+  } catch (error) {
+    console.warn(`[Config] Could not load ${CONFIG_URL}, using defaults:`, error);
+    return DEFAULT_RUNTIME_CONFIG;
+  }
+}
+
+function stripTrailingSlash(url: string | undefined): string | undefined {
+  if (!url || typeof url !== 'string') return undefined;
+  return url.replace(/\/+$/, '');
+}
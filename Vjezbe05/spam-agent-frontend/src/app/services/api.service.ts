@@ -1,27 +1,63 @@
-import { Injectable } from '@angular/core';
+import { Injectable, Inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
 import {
   MessageDto,
+  MessageHistoryDto,
+  MessageSearchQuery,
+  PagedResult,
+  ConfusionMatrixDto,
   ModelVersionDto,
   SystemStatusDto,
   SettingsDto,
   QueueStatsDto,
   SendMessageRequest,
+  SendMessagesBatchRequest,
+  ScorePreviewRequest,
+  ScorePreviewDto,
   ReviewRequest,
+  ReviewResultDto,
+  ReviewDto,
   TrainRequest,
+  TrainingJobDto,
+  TrainingConfigDto,
+  TrainingConfigRequest,
   SettingsRequest,
+  ThresholdSamplesDto,
+  ValidationScoresDto,
   SimulatorStatus,
-  GoldProgress
+  SimulatorRequest,
+  GoldProgress,
+  LoginRequest,
+  LoginResponseDto,
+  UserDto
 } from '../models/api.models';
+import { RUNTIME_CONFIG, RuntimeConfig } from '../runtime-config';
 
 @Injectable({
   providedIn: 'root'
 })
 export class ApiService {
-  private readonly baseUrl = 'http://localhost:5000/api';
+  private readonly baseUrl: string;
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    @Inject(RUNTIME_CONFIG) config: RuntimeConfig
+  ) {
+    this.baseUrl = config.apiBaseUrl;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     AUTH
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  login(request: LoginRequest): Observable<LoginResponseDto> {
+    return this.http.post<LoginResponseDto>(`${this.baseUrl}/auth/login`, request);
+  }
+
+  getCurrentUser(): Observable<UserDto> {
+    return this.http.get<UserDto>(`${this.baseUrl}/auth/me`);
+  }
 
   // ════════════════════════════════════════════════════════════════════════════════
   //                     MESSAGES
@@ -31,10 +67,24 @@ export class ApiService {
     return this.http.post<MessageDto>(`${this.baseUrl}/messages`, request);
   }
 
+  /** Queues a chunk of uploaded messages; results come back in request order */
+  sendMessagesBatch(request: SendMessagesBatchRequest): Observable<MessageDto[]> {
+    return this.http.post<MessageDto[]>(`${this.baseUrl}/messages/batch`, request);
+  }
+
+  /** Scores text with the given model versions without queueing it */
+  previewScore(request: ScorePreviewRequest): Observable<ScorePreviewDto[]> {
+    return this.http.post<ScorePreviewDto[]>(`${this.baseUrl}/messages/preview`, request);
+  }
+
   getMessage(id: number): Observable<MessageDto> {
     return this.http.get<MessageDto>(`${this.baseUrl}/messages/${id}`);
   }
 
+  getMessageHistory(id: number): Observable<MessageHistoryDto> {
+    return this.http.get<MessageHistoryDto>(`${this.baseUrl}/messages/${id}/history`);
+  }
+
   getRecentMessages(take: number = 50, status?: string): Observable<MessageDto[]> {
     let params = new HttpParams().set('take', take.toString());
     if (status) {
@@ -43,6 +93,24 @@ export class ApiService {
     return this.http.get<MessageDto[]>(`${this.baseUrl}/messages/recent`, { params });
   }
 
+  searchMessages(query: MessageSearchQuery): Observable<PagedResult<MessageDto>> {
+    let params = new HttpParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params = params.set(key, String(value));
+      }
+    }
+    return this.http.get<PagedResult<MessageDto>>(`${this.baseUrl}/messages/search`, { params });
+  }
+
+  getConfusionMatrix(modelVersion?: number): Observable<ConfusionMatrixDto> {
+    let params = new HttpParams();
+    if (modelVersion !== undefined) {
+      params = params.set('modelVersion', modelVersion.toString());
+    }
+    return this.http.get<ConfusionMatrixDto>(`${this.baseUrl}/messages/confusion`, { params });
+  }
+
   getQueuedMessages(take: number = 50): Observable<MessageDto[]> {
     const params = new HttpParams().set('take', take.toString());
     return this.http.get<MessageDto[]>(`${this.baseUrl}/messages/queued`, { params });
@@ -70,13 +138,21 @@ export class ApiService {
     return this.http.get<{ pendingCount: number }>(`${this.baseUrl}/review/count`);
   }
 
-  addReview(messageId: number, request: ReviewRequest): Observable<{
-    success: boolean;
-    message: string;
-    newStatus: string;
-    goldProgress: GoldProgress;
-  }> {
-    return this.http.post<any>(`${this.baseUrl}/review/${messageId}`, request);
+  addReview(messageId: number, request: ReviewRequest): Observable<ReviewResultDto> {
+    return this.http.post<ReviewResultDto>(`${this.baseUrl}/review/${messageId}`, request);
+  }
+
+  reviseReview(messageId: number, request: ReviewRequest): Observable<ReviewResultDto> {
+    return this.http.put<ReviewResultDto>(`${this.baseUrl}/review/${messageId}`, request);
+  }
+
+  getRecentReviews(take: number = 20): Observable<ReviewDto[]> {
+    const params = new HttpParams().set('take', take.toString());
+    return this.http.get<ReviewDto[]>(`${this.baseUrl}/review/recent`, { params });
+  }
+
+  deleteReview(messageId: number): Observable<ReviewResultDto> {
+    return this.http.delete<ReviewResultDto>(`${this.baseUrl}/review/${messageId}`);
   }
 
   getReviewStats(): Observable<{
@@ -100,15 +176,40 @@ export class ApiService {
     return this.http.post<any>(`${this.baseUrl}/admin/import`, null, { params });
   }
 
-  trainModel(request: TrainRequest): Observable<ModelVersionDto> {
-    return this.http.post<ModelVersionDto>(`${this.baseUrl}/admin/train`, request);
+  /** Starts a training job; progress arrives as TrainingJobUpdated hub events */
+  trainModel(request: TrainRequest): Observable<TrainingJobDto> {
+    return this.http.post<TrainingJobDto>(`${this.baseUrl}/admin/train`, request);
   }
 
-  forceRetrain(template: string = 'Medium', activate: boolean = true): Observable<ModelVersionDto> {
+  forceRetrain(template: string = 'Medium', activate: boolean = true): Observable<TrainingJobDto> {
     const params = new HttpParams()
       .set('template', template)
       .set('activate', activate.toString());
-    return this.http.post<ModelVersionDto>(`${this.baseUrl}/admin/retrain`, null, { params });
+    return this.http.post<TrainingJobDto>(`${this.baseUrl}/admin/retrain`, null, { params });
+  }
+
+  getTrainingJobs(): Observable<TrainingJobDto[]> {
+    return this.http.get<TrainingJobDto[]>(`${this.baseUrl}/admin/train/jobs`);
+  }
+
+  cancelTrainingJob(id: string): Observable<TrainingJobDto> {
+    return this.http.post<TrainingJobDto>(`${this.baseUrl}/admin/train/jobs/${id}/cancel`, null);
+  }
+
+  getTrainingConfigs(): Observable<TrainingConfigDto[]> {
+    return this.http.get<TrainingConfigDto[]>(`${this.baseUrl}/admin/training-configs`);
+  }
+
+  createTrainingConfig(request: TrainingConfigRequest): Observable<TrainingConfigDto> {
+    return this.http.post<TrainingConfigDto>(`${this.baseUrl}/admin/training-configs`, request);
+  }
+
+  updateTrainingConfig(id: number, request: TrainingConfigRequest): Observable<TrainingConfigDto> {
+    return this.http.put<TrainingConfigDto>(`${this.baseUrl}/admin/training-configs/${id}`, request);
+  }
+
+  deleteTrainingConfig(id: number): Observable<{ message: string }> {
+    return this.http.delete<{ message: string }>(`${this.baseUrl}/admin/training-configs/${id}`);
   }
 
   getAllModels(): Observable<ModelVersionDto[]> {
@@ -119,6 +220,10 @@ export class ApiService {
     return this.http.post<any>(`${this.baseUrl}/admin/models/${version}/activate`, null);
   }
 
+  getValidationScores(version: number): Observable<ValidationScoresDto> {
+    return this.http.get<ValidationScoresDto>(`${this.baseUrl}/admin/models/${version}/validation-scores`);
+  }
+
   getActiveModelStatus(): Observable<ModelVersionDto> {
     return this.http.get<ModelVersionDto>(`${this.baseUrl}/admin/model/status`);
   }
@@ -135,6 +240,11 @@ export class ApiService {
     return this.http.put(`${this.baseUrl}/admin/thresholds`, { thresholdAllow, thresholdBlock });
   }
 
+  getThresholdSamples(limit: number = 1000): Observable<ThresholdSamplesDto> {
+    const params = new HttpParams().set('limit', limit.toString());
+    return this.http.get<ThresholdSamplesDto>(`${this.baseUrl}/admin/thresholds/samples`, { params });
+  }
+
   setAutoRetrain(enabled: boolean): Observable<{ autoRetrainEnabled: boolean }> {
     return this.http.post<any>(`${this.baseUrl}/admin/auto-retrain/${enabled}`, null);
   }
@@ -150,4 +260,8 @@ export class ApiService {
   setSimulatorEnabled(enabled: boolean): Observable<{ enabled: boolean }> {
     return this.http.post<any>(`${this.baseUrl}/admin/simulator/${enabled}`, null);
   }
+
+  updateSimulator(request: SimulatorRequest): Observable<SimulatorStatus> {
+    return this.http.put<SimulatorStatus>(`${this.baseUrl}/admin/simulator`, request);
+  }
 }
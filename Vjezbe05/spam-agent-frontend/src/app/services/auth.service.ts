@@ -0,0 +1,145 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subject, distinctUntilChanged, map } from 'rxjs';
+import { ApiService } from './api.service';
+import { LoginResponseDto, UserDto, UserRole } from '../models/api.models';
+
+interface AuthSession {
+  token: string;
+  expiresAtUtc: string;
+  user: UserDto;
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  Viewer: 0,
+  Moderator: 1,
+  Admin: 2
+};
+
+/**
+ * Signed-in user and their bearer token, kept in localStorage so a reload
+ * stays signed in until the token expires.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService implements OnDestroy {
+  private readonly SESSION_STORAGE_KEY = 'spamAgent.session';
+
+  private sessionSubject = new BehaviorSubject<AuthSession | null>(this.readSession());
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Emits on sign-in and sign-out only, not on every token read */
+  user$ = this.sessionSubject.pipe(
+    map(session => session?.user ?? null),
+    distinctUntilChanged()
+  );
+
+  /** Emits after a sign-out the user didn't ask for (token expired or rejected) */
+  private sessionExpiredSubject = new Subject<void>();
+  sessionExpired$ = this.sessionExpiredSubject.asObservable();
+
+  constructor(private apiService: ApiService) {
+    this.scheduleExpiry();
+  }
+
+  ngOnDestroy(): void {
+    this.clearExpiryTimer();
+  }
+
+  get user(): UserDto | null {
+    return this.sessionSubject.value?.user ?? null;
+  }
+
+  get token(): string | null {
+    return this.sessionSubject.value?.token ?? null;
+  }
+
+  get isAuthenticated(): boolean {
+    return this.sessionSubject.value !== null;
+  }
+
+  /** True when the user has at least the given role (Admin > Moderator > Viewer). */
+  hasRole(minimum: UserRole): boolean {
+    const user = this.user;
+    return user !== null && ROLE_RANK[user.role] >= ROLE_RANK[minimum];
+  }
+
+  async login(username: string, password: string): Promise<UserDto> {
+    const response = await this.apiService.login({ username, password }).toPromise();
+    this.setSession(response!);
+    return response!.user;
+  }
+
+  /**
+   * Checks a session restored from storage against the server (the user may be
+   * gone after a database reset). A 401 signs out through authInterceptor.
+   */
+  async verifySession(): Promise<void> {
+    if (!this.isAuthenticated) return;
+
+    try {
+      await this.apiService.getCurrentUser().toPromise();
+    } catch (error) {
+      // Offline or server down: keep the session, the next request decides
+      console.error('Error verifying session:', error);
+    }
+  }
+
+  logout(): void {
+    this.setSession(null);
+  }
+
+  /** Drops a session the server no longer accepts (expired, or the user is gone). */
+  expireSession(): void {
+    if (!this.isAuthenticated) return;
+    this.setSession(null);
+    this.sessionExpiredSubject.next();
+  }
+
+  private setSession(response: LoginResponseDto | null): void {
+    this.sessionSubject.next(response);
+
+    try {
+      if (response) {
+        localStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(response));
+      } else {
+        localStorage.removeItem(this.SESSION_STORAGE_KEY);
+      }
+    } catch {
+      // Storage disabled: the session only lasts until reload
+    }
+
+    this.scheduleExpiry();
+  }
+
+  private readSession(): AuthSession | null {
+    try {
+      const raw = localStorage.getItem(this.SESSION_STORAGE_KEY);
+      if (!raw) return null;
+
+      const session = JSON.parse(raw) as AuthSession;
+      return Date.parse(session.expiresAtUtc) > Date.now() ? session : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Signs out when the token expires instead of waiting for the first 401. */
+  private scheduleExpiry(): void {
+    this.clearExpiryTimer();
+
+    const session = this.sessionSubject.value;
+    if (!session) return;
+
+    // setTimeout overflows past ~24.8 days; tokens live hours
+    const remainingMs = Math.min(Date.parse(session.expiresAtUtc) - Date.now(), 2 ** 31 - 1);
+    this.expiryTimer = setTimeout(() => this.expireSession(), Math.max(remainingMs, 0));
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subscription, distinctUntilChanged, map } from 'rxjs';
+import { SignalRService, ConnectionStatus } from './signalr.service';
+import { ApiService } from './api.service';
+import { NotificationService } from './notification.service';
+import { AuthService } from './auth.service';
+import { ReviewRequest } from '../models/api.models';
+import { ApiError } from '../models/api-error';
+
+export interface QueuedReview {
+  messageId: number;
+  request: ReviewRequest;
+  queuedAt: string;
+}
+
+/**
+ * App-wide online/offline state derived from the hub connection, with
+ * latency from Ping/Pong and an outbox for reviews made while offline.
+ * The outbox belongs to the signed-in user, so a queued label is never
+ * sent under someone else's token.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService implements OnDestroy {
+  private readonly PING_INTERVAL_MS = 5000;
+  private readonly OUTBOX_STORAGE_PREFIX = 'spamAgent.reviewOutbox.';
+
+  private status: ConnectionStatus = 'disconnected';
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+  private subscription = new Subscription();
+  private username: string | null = null;
+
+  private outboxSubject = new BehaviorSubject<QueuedReview[]>([]);
+
+  status$ = this.signalRService.connectionStatus$;
+  latency$ = this.signalRService.latency$;
+
+  /** True once the hub has dropped; 'connecting' on startup doesn't count */
+  offline$ = this.status$.pipe(
+    map(status => status === 'disconnected' || status === 'reconnecting'),
+    distinctUntilChanged()
+  );
+
+  /** Reviews waiting to be sent once the backend is reachable again */
+  outbox$ = this.outboxSubject.asObservable();
+
+  constructor(
+    private signalRService: SignalRService,
+    private apiService: ApiService,
+    private notificationService: NotificationService,
+    private authService: AuthService
+  ) {
+    // Swap in the outbox of whoever is signed in (empty when signed out)
+    this.subscription.add(this.authService.user$.subscribe(user => {
+      this.username = user?.username ?? null;
+      this.outboxSubject.next(this.readOutbox(this.username));
+    }));
+
+    this.subscription.add(this.status$.subscribe(status => {
+      this.status = status;
+      if (status === 'connected') {
+        this.startPing();
+        this.flushOutbox();
+      } else {
+        this.stopPing();
+      }
+    }));
+  }
+
+  ngOnDestroy(): void {
+    this.stopPing();
+    this.subscription.unsubscribe();
+  }
+
+  get isOnline(): boolean {
+    return this.status === 'connected';
+  }
+
+  get outboxSize(): number {
+    return this.outboxSubject.value.length;
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     REVIEW OUTBOX
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  queueReview(messageId: number, request: ReviewRequest): void {
+    // A newer label for the same message replaces the queued one
+    const outbox = this.outboxSubject.value.filter(r => r.messageId !== messageId);
+    this.setOutbox([...outbox, { messageId, request, queuedAt: new Date().toISOString() }]);
+  }
+
+  isQueued(messageId: number): boolean {
+    return this.outboxSubject.value.some(r => r.messageId === messageId);
+  }
+
+  /** Sends queued reviews in order; anything that still fails stays queued. */
+  async flushOutbox(): Promise<void> {
+    if (this.flushing || this.outboxSize === 0) return;
+
+    this.flushing = true;
+    const owner = this.username;
+    let sent = 0;
+    let rejected = 0;
+    try {
+      for (const review of [...this.outboxSubject.value]) {
+        // Signed out mid-flush: the rest wait for the same user to come back
+        if (!this.isOnline || this.username !== owner) break;
+
+        try {
+          await this.apiService.addReview(review.messageId, review.request).toPromise();
+        } catch (error) {
+          console.error(`Error sending queued review for #${review.messageId}:`, error);
+          if (this.username !== owner || !(error instanceof ApiError) || error.isNetworkError) {
+            // Still unreachable: stop so the rest keep their order
+            break;
+          }
+          // The server refused it (e.g. message gone); retrying won't help
+          rejected++;
+          this.dropQueued(owner, review);
+          continue;
+        }
+
+        sent++;
+        this.dropQueued(owner, review);
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.username !== owner) return;
+
+    if (sent > 0) {
+      this.notificationService.success(`Sent ${sent} queued review${sent === 1 ? '' : 's'}`);
+    }
+    if (rejected > 0) {
+      this.notificationService.error(`${rejected} queued review${rejected === 1 ? ' was' : 's were'} rejected by the server`);
+    }
+    if (this.outboxSize > 0) {
+      this.notificationService.warning(`${this.outboxSize} queued review${this.outboxSize === 1 ? '' : 's'} could not be sent yet`);
+    }
+  }
+
+  /** Removes a sent review from its owner's outbox, even if they signed out meanwhile. */
+  private dropQueued(owner: string | null, review: QueuedReview): void {
+    if (owner === this.username) {
+      this.setOutbox(this.outboxSubject.value.filter(r => r !== review));
+    } else {
+      this.writeOutbox(owner, this.readOutbox(owner).filter(r => r.messageId !== review.messageId));
+    }
+  }
+
+  private setOutbox(outbox: QueuedReview[]): void {
+    this.outboxSubject.next(outbox);
+    this.writeOutbox(this.username, outbox);
+  }
+
+  private writeOutbox(username: string | null, outbox: QueuedReview[]): void {
+    if (!username) return;
+
+    try {
+      localStorage.setItem(this.OUTBOX_STORAGE_PREFIX + username, JSON.stringify(outbox));
+    } catch {
+      // Storage full or disabled: the outbox still lives for this session
+    }
+  }
+
+  private readOutbox(username: string | null): QueuedReview[] {
+    if (!username) return [];
+
+    try {
+      const raw = localStorage.getItem(this.OUTBOX_STORAGE_PREFIX + username);
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     LATENCY
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  private startPing(): void {
+    if (this.pingTimer) return;
+    this.sendPing();
+    this.pingTimer = setInterval(() => this.sendPing(), this.PING_INTERVAL_MS);
+  }
+
+  private sendPing(): void {
+    // A failed ping shows up as a reconnect through the connection status
+    this.signalRService.ping().catch(error => console.error('[SignalR] Ping failed:', error));
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, map } from 'rxjs';
+
+export type NotificationSeverity = 'success' | 'info' | 'warning' | 'error';
+
+export interface NotificationAction {
+  label: string;
+  run: () => void;
+}
+
+export interface AppNotification {
+  id: number;
+  message: string;
+  severity: NotificationSeverity;
+  actions: NotificationAction[];
+  /** How many times the same notification fired while it was still visible */
+  count: number;
+  createdAt: Date;
+  read: boolean;
+}
+
+export interface NotifyOptions {
+  /** Milliseconds before the toast hides; 0 keeps it until dismissed */
+  lifetimeMs?: number;
+  actions?: NotificationAction[];
+  /** Notifications with the same key are merged while visible (defaults to severity + message) */
+  key?: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private readonly DEFAULT_LIFETIME_MS: Record<NotificationSeverity, number> = {
+    success: 3000,
+    info: 3000,
+    warning: 5000,
+    error: 6000
+  };
+
+  private readonly MAX_HISTORY = 50;
+
+  private nextId = 1;
+  private timers = new Map<number, ReturnType<typeof setTimeout>>();
+  private keys = new Map<number, string>();
+
+  private activeSubject = new BehaviorSubject<AppNotification[]>([]);
+  private historySubject = new BehaviorSubject<AppNotification[]>([]);
+
+  /** Notifications currently shown as toasts */
+  active$ = this.activeSubject.asObservable();
+
+  /** Everything notified this session, newest first */
+  history$ = this.historySubject.asObservable();
+
+  unreadCount$ = this.history$.pipe(
+    map(history => history.filter(n => !n.read).length)
+  );
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     NOTIFY
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  notify(message: string, severity: NotificationSeverity = 'info', options: NotifyOptions = {}): void {
+    const key = options.key ?? `${severity}:${message}`;
+    const lifetimeMs = options.lifetimeMs ?? this.DEFAULT_LIFETIME_MS[severity];
+
+    // Dedup: bump the visible one instead of stacking identical toasts
+    const existing = this.activeSubject.value.find(n => this.keys.get(n.id) === key);
+    if (existing) {
+      existing.count++;
+      existing.message = message;
+      existing.createdAt = new Date();
+      existing.read = false;
+      this.activeSubject.next([...this.activeSubject.value]);
+      this.historySubject.next([...this.historySubject.value]);
+      this.scheduleDismiss(existing.id, lifetimeMs);
+      return;
+    }
+
+    const notification: AppNotification = {
+      id: this.nextId++,
+      message,
+      severity,
+      actions: options.actions ?? [],
+      count: 1,
+      createdAt: new Date(),
+      read: false
+    };
+
+    this.keys.set(notification.id, key);
+    this.activeSubject.next([...this.activeSubject.value, notification]);
+    this.historySubject.next([notification, ...this.historySubject.value].slice(0, this.MAX_HISTORY));
+    this.scheduleDismiss(notification.id, lifetimeMs);
+  }
+
+  success(message: string, options?: NotifyOptions): void {
+    this.notify(message, 'success', options);
+  }
+
+  info(message: string, options?: NotifyOptions): void {
+    this.notify(message, 'info', options);
+  }
+
+  warning(message: string, options?: NotifyOptions): void {
+    this.notify(message, 'warning', options);
+  }
+
+  error(message: string, options?: NotifyOptions): void {
+    this.notify(message, 'error', options);
+  }
+
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     ACTIONS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  /** Hides the toast; the entry stays in history. */
+  dismiss(id: number): void {
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+    this.keys.delete(id);
+    this.activeSubject.next(this.activeSubject.value.filter(n => n.id !== id));
+  }
+
+  runAction(notification: AppNotification, action: NotificationAction): void {
+    action.run();
+    notification.read = true;
+    this.historySubject.next([...this.historySubject.value]);
+    this.dismiss(notification.id);
+  }
+
+  markAllRead(): void {
+    this.historySubject.value.forEach(n => (n.read = true));
+    this.historySubject.next([...this.historySubject.value]);
+  }
+
+  clearHistory(): void {
+    this.historySubject.next([]);
+  }
+
+  private scheduleDismiss(id: number, lifetimeMs: number): void {
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+
+    if (lifetimeMs > 0) {
+      this.timers.set(id, setTimeout(() => this.dismiss(id), lifetimeMs));
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Injectable, OnDestroy } from '@angular/core';
+import { Injectable, OnDestroy, Inject } from '@angular/core';
 import { Subject, BehaviorSubject } from 'rxjs';
 import * as signalR from '@microsoft/signalr';
 import {
@@ -6,43 +6,88 @@ import {
   MessageScoredEvent,
   MessageMovedEvent,
   ModelRetrainedEvent,
-  StatsUpdatedEvent
+  ModelActivatedEvent,
+  StatsUpdatedEvent,
+  TrainingJobDto,
+  HubEventEnvelope,
+  HubReplayResult,
+  SequencedEventName
 } from '../models/api.models';
+import { RUNTIME_CONFIG, RuntimeConfig } from '../runtime-config';
+import { AuthService } from './auth.service';
 
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
+/** Hub groups; nothing is delivered until a group is joined */
+export type HubGroup = 'messages' | 'review' | 'models' | 'stats';
+
+export interface ResyncResult {
+  /** Missed events replayed from the server log */
+  recovered: number;
+  /** Too much was missed; listeners should reload their data from the API */
+  snapshotRequired: boolean;
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class SignalRService implements OnDestroy {
   private hubConnection: signalR.HubConnection | null = null;
-  private readonly hubUrl = 'http://localhost:5000/hubs/spamAgent';
+  private readonly hubUrl: string;
 
   // Connection status
   private connectionStatusSubject = new BehaviorSubject<ConnectionStatus>('disconnected');
   connectionStatus$ = this.connectionStatusSubject.asObservable();
 
+  // Round trip of the last Ping → Pong, null until measured or while disconnected
+  private latencySubject = new BehaviorSubject<number | null>(null);
+  latency$ = this.latencySubject.asObservable();
+  private pingSentAt: number | null = null;
+
   // Event subjects
   private messageQueuedSubject = new Subject<MessageQueuedEvent>();
   private messageScoredSubject = new Subject<MessageScoredEvent>();
   private messageMovedSubject = new Subject<MessageMovedEvent>();
   private modelRetrainedSubject = new Subject<ModelRetrainedEvent>();
+  private modelActivatedSubject = new Subject<ModelActivatedEvent>();
+  private trainingJobUpdatedSubject = new Subject<TrainingJobDto>();
   private statsUpdatedSubject = new Subject<StatsUpdatedEvent>();
+  private resyncSubject = new Subject<ResyncResult>();
 
   // Public observables
   messageQueued$ = this.messageQueuedSubject.asObservable();
   messageScored$ = this.messageScoredSubject.asObservable();
   messageMoved$ = this.messageMovedSubject.asObservable();
   modelRetrained$ = this.modelRetrainedSubject.asObservable();
+  modelActivated$ = this.modelActivatedSubject.asObservable();
+  trainingJobUpdated$ = this.trainingJobUpdatedSubject.asObservable();
   statsUpdated$ = this.statsUpdatedSubject.asObservable();
 
-  constructor() {
+  /** Emits after a reconnect once missed message events have been recovered */
+  resync$ = this.resyncSubject.asObservable();
+
+  // Last message-event sequence number seen; null until the first connect
+  private lastSeq: number | null = null;
+
+  // Live events that arrive while a replay is in flight, applied after it
+  private resyncing = false;
+  private bufferedEvents: HubEventEnvelope[] = [];
+
+  // How many subscribers want each group; the hub is only told on 0 ↔ 1
+  private groupRefs = new Map<HubGroup, number>();
+
+  constructor(
+    @Inject(RUNTIME_CONFIG) config: RuntimeConfig,
+    private authService: AuthService
+  ) {
+    this.hubUrl = config.hubUrl;
     this.initConnection();
   }
 
   private initConnection(): void {
     this.hubConnection = new signalR.HubConnectionBuilder()
-      .withUrl(this.hubUrl)
+      // WebSockets can't send headers, so the token goes in the query string (access_token)
+      .withUrl(this.hubUrl, { accessTokenFactory: () => this.authService.token ?? '' })
       .withAutomaticReconnect({
         nextRetryDelayInMilliseconds: (retryContext) => {
           // Exponential backoff: 0, 2, 4, 8, 16, 30 seconds
@@ -60,20 +105,20 @@ export class SignalRService implements OnDestroy {
   private registerEventHandlers(): void {
     if (!this.hubConnection) return;
 
-    // Message events
+    // Message events (sequenced, replayable after reconnect)
     this.hubConnection.on('MessageQueued', (event: MessageQueuedEvent) => {
       console.log('[SignalR] MessageQueued:', event);
-      this.messageQueuedSubject.next(event);
+      this.receiveSequenced({ seq: event.seq, eventName: 'MessageQueued', payload: event });
     });
 
     this.hubConnection.on('MessageScored', (event: MessageScoredEvent) => {
       console.log('[SignalR] MessageScored:', event);
-      this.messageScoredSubject.next(event);
+      this.receiveSequenced({ seq: event.seq, eventName: 'MessageScored', payload: event });
     });
 
     this.hubConnection.on('MessageMoved', (event: MessageMovedEvent) => {
       console.log('[SignalR] MessageMoved:', event);
-      this.messageMovedSubject.next(event);
+      this.receiveSequenced({ seq: event.seq, eventName: 'MessageMoved', payload: event });
     });
 
     // Model events
@@ -82,8 +127,14 @@ export class SignalRService implements OnDestroy {
       this.modelRetrainedSubject.next(event);
     });
 
-    this.hubConnection.on('ModelActivated', (event: { version: number; timestamp: string }) => {
+    this.hubConnection.on('ModelActivated', (event: ModelActivatedEvent) => {
       console.log('[SignalR] ModelActivated:', event);
+      this.modelActivatedSubject.next(event);
+    });
+
+    this.hubConnection.on('TrainingJobUpdated', (job: TrainingJobDto) => {
+      console.log('[SignalR] TrainingJobUpdated:', job);
+      this.trainingJobUpdatedSubject.next(job);
     });
 
     // Stats events
@@ -101,8 +152,11 @@ export class SignalRService implements OnDestroy {
       console.log('[SignalR] Left group:', groupName);
     });
 
-    this.hubConnection.on('Pong', (timestamp: string) => {
-      console.log('[SignalR] Pong:', timestamp);
+    this.hubConnection.on('Pong', () => {
+      if (this.pingSentAt !== null) {
+        this.latencySubject.next(Math.round(performance.now() - this.pingSentAt));
+        this.pingSentAt = null;
+      }
     });
   }
 
@@ -111,26 +165,35 @@ export class SignalRService implements OnDestroy {
 
     this.hubConnection.onreconnecting((error) => {
       console.log('[SignalR] Reconnecting...', error);
+      this.latencySubject.next(null);
       this.connectionStatusSubject.next('reconnecting');
     });
 
     this.hubConnection.onreconnected((connectionId) => {
       console.log('[SignalR] Reconnected:', connectionId);
       this.connectionStatusSubject.next('connected');
+      this.rejoinGroups().then(() => this.resync());
     });
 
     this.hubConnection.onclose((error) => {
       console.log('[SignalR] Connection closed:', error);
+      this.latencySubject.next(null);
       this.connectionStatusSubject.next('disconnected');
     });
   }
 
   async connect(): Promise<void> {
+    // The hub rejects anonymous connections; AppComponent connects after sign-in
+    if (!this.authService.isAuthenticated) {
+      return;
+    }
+
     if (!this.hubConnection) {
       this.initConnection();
     }
 
-    if (this.hubConnection?.state === signalR.HubConnectionState.Connected) {
+    // Already connected, or a start/automatic reconnect is under way
+    if (this.hubConnection?.state !== signalR.HubConnectionState.Disconnected) {
       return;
     }
 
@@ -140,6 +203,10 @@ export class SignalRService implements OnDestroy {
       await this.hubConnection!.start();
       console.log('[SignalR] Connected successfully');
       this.connectionStatusSubject.next('connected');
+
+      // Also covers a restart after automatic reconnect gave up
+      await this.rejoinGroups();
+      await this.resync();
     } catch (error) {
       console.error('[SignalR] Connection failed:', error);
       this.connectionStatusSubject.next('disconnected');
@@ -149,30 +216,149 @@ export class SignalRService implements OnDestroy {
   }
 
   async disconnect(): Promise<void> {
-    if (this.hubConnection?.state === signalR.HubConnectionState.Connected) {
+    // Also stops an automatic reconnect in progress (e.g. on sign-out)
+    if (this.hubConnection && this.hubConnection.state !== signalR.HubConnectionState.Disconnected) {
       await this.hubConnection.stop();
+      this.latencySubject.next(null);
       this.connectionStatusSubject.next('disconnected');
+      // Deliberate disconnect: whoever reconnects loads fresh data anyway
+      this.lastSeq = null;
     }
   }
 
-  async joinGroup(groupName: string): Promise<void> {
-    if (this.hubConnection?.state === signalR.HubConnectionState.Connected) {
-      await this.hubConnection.invoke('JoinGroup', groupName);
+  /**
+   * Subscribes to a hub group. Calls are reference-counted so pages can
+   * join and leave independently; membership survives reconnects.
+   */
+  async joinGroup(group: HubGroup): Promise<void> {
+    const refs = this.groupRefs.get(group) ?? 0;
+    this.groupRefs.set(group, refs + 1);
+
+    if (refs === 0 && this.isConnected) {
+      await this.invokeGroup('JoinGroup', group);
     }
   }
 
-  async leaveGroup(groupName: string): Promise<void> {
-    if (this.hubConnection?.state === signalR.HubConnectionState.Connected) {
-      await this.hubConnection.invoke('LeaveGroup', groupName);
+  async leaveGroup(group: HubGroup): Promise<void> {
+    const refs = this.groupRefs.get(group) ?? 0;
+    if (refs === 0) return;
+
+    if (refs > 1) {
+      this.groupRefs.set(group, refs - 1);
+      return;
+    }
+
+    this.groupRefs.delete(group);
+    if (this.isConnected) {
+      await this.invokeGroup('LeaveGroup', group);
+    }
+  }
+
+  /** The server forgets groups with the old connection, so they're joined again. */
+  private async rejoinGroups(): Promise<void> {
+    for (const group of this.groupRefs.keys()) {
+      await this.invokeGroup('JoinGroup', group);
     }
   }
 
+  private async invokeGroup(method: 'JoinGroup' | 'LeaveGroup', group: HubGroup): Promise<void> {
+    try {
+      await this.hubConnection!.invoke(method, group);
+    } catch (error) {
+      console.error(`[SignalR] ${method}(${group}) failed:`, error);
+    }
+  }
+
+  /** Sends a Ping; the matching Pong updates latency$. */
   async ping(): Promise<void> {
     if (this.hubConnection?.state === signalR.HubConnectionState.Connected) {
+      this.pingSentAt = performance.now();
       await this.hubConnection.invoke('Ping');
     }
   }
 
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     SEQUENCING & RESYNC
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  private receiveSequenced(envelope: HubEventEnvelope): void {
+    if (this.resyncing) {
+      this.bufferedEvents.push(envelope);
+      return;
+    }
+    this.applySequenced(envelope);
+  }
+
+  /** Emits the event unless it was already seen (replay and live can overlap). */
+  private applySequenced(envelope: HubEventEnvelope): boolean {
+    if (this.lastSeq !== null && envelope.seq <= this.lastSeq) {
+      return false;
+    }
+    this.lastSeq = envelope.seq;
+    this.dispatch(envelope.eventName, envelope.payload);
+    return true;
+  }
+
+  private dispatch(eventName: SequencedEventName, payload: HubEventEnvelope['payload']): void {
+    switch (eventName) {
+      case 'MessageQueued':
+        this.messageQueuedSubject.next(payload as MessageQueuedEvent);
+        break;
+      case 'MessageScored':
+        this.messageScoredSubject.next(payload as MessageScoredEvent);
+        break;
+      case 'MessageMoved':
+        this.messageMovedSubject.next(payload as MessageMovedEvent);
+        break;
+    }
+  }
+
+  /**
+   * Replays message events missed while disconnected. If the server log
+   * no longer covers the gap, listeners are told to reload a snapshot.
+   */
+  private async resync(): Promise<void> {
+    if (!this.hubConnection || this.resyncing) return;
+
+    // First connect: nothing was missed yet, just learn where the log is
+    if (this.lastSeq === null) {
+      try {
+        this.lastSeq = await this.hubConnection.invoke<number>('GetLatestSeq');
+      } catch (error) {
+        console.error('[SignalR] Could not read latest sequence:', error);
+      }
+      return;
+    }
+
+    this.resyncing = true;
+    let result: ResyncResult;
+
+    try {
+      const replay = await this.hubConnection.invoke<HubReplayResult>('GetEventsSince', this.lastSeq);
+      console.log('[SignalR] Resync:', replay);
+
+      if (replay.gapTooLarge) {
+        // Everything up to latestSeq is covered by the snapshot the listeners reload
+        this.lastSeq = replay.latestSeq;
+        result = { recovered: 0, snapshotRequired: true };
+      } else {
+        const recovered = replay.events.filter(e => this.applySequenced(e)).length;
+        result = { recovered, snapshotRequired: false };
+      }
+    } catch (error) {
+      console.error('[SignalR] Resync failed:', error);
+      result = { recovered: 0, snapshotRequired: true };
+    } finally {
+      this.resyncing = false;
+    }
+
+    const buffered = this.bufferedEvents.sort((a, b) => a.seq - b.seq);
+    this.bufferedEvents = [];
+    buffered.forEach(e => this.applySequenced(e));
+
+    this.resyncSubject.next(result);
+  }
+
   get isConnected(): boolean {
     return this.hubConnection?.state === signalR.HubConnectionState.Connected;
   }
@@ -1,5 +1,5 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable, combineLatest, map } from 'rxjs';
+import { BehaviorSubject, Observable, distinctUntilChanged, map } from 'rxjs';
 import {
   MessageDto,
   MessageCard,
@@ -7,18 +7,24 @@ import {
   SystemStatusDto,
   QueueStatsDto,
   SettingsDto,
-  MessageScoredEvent
+  MessageScoredEvent,
+  MessageMovedEvent,
+  MessageStatus,
+  ScoredSample,
+  SpamDecision
 } from '../models/api.models';
 
+/** Normalized message store: one card per id, columns are derived by status. */
+interface MessageEntities {
+  [id: number]: MessageCard;
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class StateService {
-  // Messages by status
-  private queuedMessagesSubject = new BehaviorSubject<MessageCard[]>([]);
-  private inboxMessagesSubject = new BehaviorSubject<MessageCard[]>([]);
-  private spamMessagesSubject = new BehaviorSubject<MessageCard[]>([]);
-  private pendingMessagesSubject = new BehaviorSubject<MessageCard[]>([]);
+  // Messages keyed by id - the single source of truth for every column
+  private messagesSubject = new BehaviorSubject<MessageEntities>({});
 
   // System state
   private systemStatusSubject = new BehaviorSubject<SystemStatusDto | null>(null);
@@ -27,21 +33,36 @@ export class StateService {
   private settingsSubject = new BehaviorSubject<SettingsDto | null>(null);
   private queueStatsSubject = new BehaviorSubject<QueueStatsDto | null>(null);
 
+  // Live scorings for the dashboard charts, oldest first
+  private scoredSamplesSubject = new BehaviorSubject<ScoredSample[]>([]);
+
   // UI state
   private loadingSubject = new BehaviorSubject<boolean>(false);
   private errorSubject = new BehaviorSubject<string | null>(null);
 
+  // Maximum messages to show in each column
+  private readonly MAX_MESSAGES = 50;
+
+  // Entities kept in memory; the oldest by status change are dropped beyond this
+  private readonly MAX_ENTITIES = 500;
+
+  // Scorings older than the widest chart window (1h) are dropped
+  private readonly SCORED_HISTORY_MS = 60 * 60 * 1000;
+
   // Public observables
-  queuedMessages$ = this.queuedMessagesSubject.asObservable();
-  inboxMessages$ = this.inboxMessagesSubject.asObservable();
-  spamMessages$ = this.spamMessagesSubject.asObservable();
-  pendingMessages$ = this.pendingMessagesSubject.asObservable();
+  messages$ = this.messagesSubject.asObservable();
+
+  queuedMessages$ = this.selectByStatus('Queued');
+  inboxMessages$ = this.selectByStatus('InInbox');
+  spamMessages$ = this.selectByStatus('InSpam');
+  pendingMessages$ = this.selectByStatus('PendingReview');
 
   systemStatus$ = this.systemStatusSubject.asObservable();
   activeModel$ = this.activeModelSubject.asObservable();
   allModels$ = this.allModelsSubject.asObservable();
   settings$ = this.settingsSubject.asObservable();
   queueStats$ = this.queueStatsSubject.asObservable();
+  scoredSamples$ = this.scoredSamplesSubject.asObservable();
 
   loading$ = this.loadingSubject.asObservable();
   error$ = this.errorSubject.asObservable();
@@ -59,146 +80,166 @@ export class StateService {
     }))
   );
 
-  // Maximum messages to keep in each column
-  private readonly MAX_MESSAGES = 50;
-
   // ════════════════════════════════════════════════════════════════════════════════
-  //                     MESSAGE OPERATIONS
+  //                     MESSAGE SELECTORS
   // ════════════════════════════════════════════════════════════════════════════════
 
-  setQueuedMessages(messages: MessageDto[]): void {
-    this.queuedMessagesSubject.next(messages.map(m => ({ ...m, isNew: false })));
+  /** Cards in a status, most recently changed first, capped at MAX_MESSAGES. */
+  selectByStatus(status: MessageStatus): Observable<MessageCard[]> {
+    return this.messages$.pipe(
+      map(entities => Object.values(entities)
+        .filter(m => m.status === status)
+        .sort((a, b) => this.changedAt(b) - this.changedAt(a))
+        .slice(0, this.MAX_MESSAGES)),
+      distinctUntilChanged((prev, curr) =>
+        prev.length === curr.length && prev.every((m, i) => m === curr[i]))
+    );
   }
 
-  setInboxMessages(messages: MessageDto[]): void {
-    this.inboxMessagesSubject.next(messages.map(m => ({ ...m, isNew: false })));
+  selectMessage(id: number): Observable<MessageCard | undefined> {
+    return this.messages$.pipe(
+      map(entities => entities[id]),
+      distinctUntilChanged()
+    );
   }
 
-  setSpamMessages(messages: MessageDto[]): void {
-    this.spamMessagesSubject.next(messages.map(m => ({ ...m, isNew: false })));
+  getMessage(id: number): MessageCard | undefined {
+    return this.messagesSubject.value[id];
   }
 
-  setPendingMessages(messages: MessageDto[]): void {
-    this.pendingMessagesSubject.next(messages.map(m => ({ ...m, isNew: false })));
+  // ════════════════════════════════════════════════════════════════════════════════
+  //                     MESSAGE OPERATIONS
+  // ════════════════════════════════════════════════════════════════════════════════
+
+  /** Replaces the store with a fresh snapshot from the API. */
+  setMessages(messages: MessageDto[]): void {
+    const entities: MessageEntities = {};
+    for (const m of messages) {
+      entities[m.id] = {
+        ...m,
+        isNew: false,
+        statusChangedAt: m.lastPrediction?.createdAtUtc ?? m.createdAtUtc
+      };
+    }
+    this.messagesSubject.next(entities);
   }
 
   addQueuedMessage(message: MessageCard): void {
-    const current = this.queuedMessagesSubject.value;
-    const newMessage = { ...message, isNew: true, animationClass: 'animate-slide-in-left' };
-    const updated = [newMessage, ...current].slice(0, this.MAX_MESSAGES);
-    this.queuedMessagesSubject.next(updated);
-
-    // Remove animation class after animation completes
-    setTimeout(() => {
-      this.updateMessageAnimation(message.id, '');
-    }, 300);
+    this.upsert({
+      ...message,
+      status: 'Queued',
+      statusChangedAt: message.createdAtUtc
+    }, 'animate-slide-in-left');
   }
 
   handleMessageScored(event: MessageScoredEvent): void {
-    // Remove from queued
-    const queued = this.queuedMessagesSubject.value;
-    this.queuedMessagesSubject.next(queued.filter(m => m.id !== event.messageId));
+    const existing = this.getMessage(event.messageId);
+    const previousStatus = existing?.status;
 
-    // Create new message card
-    const newCard: MessageCard = {
+    this.upsert({
       id: event.messageId,
-      text: event.textPreview,
-      source: 'Runtime',
-      status: event.newStatus as any,
-      trueLabel: event.trueLabel,
-      createdAtUtc: event.timestamp,
+      // The queued card may already carry a longer text than the preview
+      text: existing?.text ?? event.textPreview,
+      source: existing?.source ?? 'Runtime',
+      createdAtUtc: existing?.createdAtUtc ?? event.timestamp,
+      status: event.newStatus as MessageStatus,
+      trueLabel: event.trueLabel ?? existing?.trueLabel,
       lastPrediction: {
         pSpam: event.pSpam,
         decision: event.decision,
-        modelVersion: 0,
+        modelVersion: event.modelVersion,
         createdAtUtc: event.timestamp
       },
-      isNew: true,
-      animationClass: 'animate-slide-in-right'
-    };
+      statusChangedAt: event.timestamp
+    }, 'animate-slide-in-right');
 
-    // Add to appropriate column
-    switch (event.newStatus) {
-      case 'InInbox':
-        this.addToColumn(this.inboxMessagesSubject, newCard);
-        break;
-      case 'InSpam':
-        this.addToColumn(this.spamMessagesSubject, newCard);
-        break;
-      case 'PendingReview':
-        this.addToColumn(this.pendingMessagesSubject, newCard);
-        break;
+    // Rescoring an already processed message doesn't drain the queue
+    if (!previousStatus || previousStatus === 'Queued') {
+      this.updateQueueStatsFromEvent(event.newStatus);
     }
 
-    // Update stats
-    this.updateQueueStatsFromEvent(event.newStatus);
+    this.recordScored(event);
   }
 
-  handleMessageMoved(messageId: number, oldStatus: string, newStatus: string): void {
-    // Remove from old column
-    this.removeFromColumn(oldStatus, messageId);
+  handleMessageMoved(event: MessageMovedEvent): void {
+    const existing = this.getMessage(event.messageId);
+
+    if (existing) {
+      this.upsert({
+        ...existing,
+        status: event.newStatus as MessageStatus,
+        trueLabel: event.label ?? existing.trueLabel,
+        statusChangedAt: event.timestamp
+      }, 'animate-slide-in-right');
+    }
 
-    // We'd need to fetch the full message to add to new column
-    // For now, just update counts
     this.refreshStats();
   }
 
-  removeFromPending(messageId: number): void {
-    const pending = this.pendingMessagesSubject.value;
-    this.pendingMessagesSubject.next(pending.filter(m => m.id !== messageId));
+  removeMessage(messageId: number): void {
+    const entities = this.messagesSubject.value;
+    if (!entities[messageId]) return;
+
+    const { [messageId]: _removed, ...rest } = entities;
+    this.messagesSubject.next(rest);
   }
 
-  private addToColumn(subject: BehaviorSubject<MessageCard[]>, message: MessageCard): void {
-    const current = subject.value;
-    const updated = [message, ...current].slice(0, this.MAX_MESSAGES);
-    subject.next(updated);
+  private upsert(card: MessageCard, animationClass: string): void {
+    const entities = {
+      ...this.messagesSubject.value,
+      [card.id]: { ...this.messagesSubject.value[card.id], ...card, isNew: true, animationClass }
+    };
+    this.messagesSubject.next(this.prune(entities));
 
     // Remove animation class after animation completes
     setTimeout(() => {
-      const messages = subject.value;
-      subject.next(messages.map(m => 
-        m.id === message.id ? { ...m, isNew: false, animationClass: '' } : m
-      ));
+      const current = this.messagesSubject.value[card.id];
+      if (current && current.animationClass === animationClass) {
+        this.messagesSubject.next({
+          ...this.messagesSubject.value,
+          [card.id]: { ...current, isNew: false, animationClass: '' }
+        });
+      }
     }, 300);
   }
 
-  private removeFromColumn(status: string, messageId: number): void {
-    switch (status) {
-      case 'Queued':
-        this.queuedMessagesSubject.next(
-          this.queuedMessagesSubject.value.filter(m => m.id !== messageId)
-        );
-        break;
-      case 'InInbox':
-        this.inboxMessagesSubject.next(
-          this.inboxMessagesSubject.value.filter(m => m.id !== messageId)
-        );
-        break;
-      case 'InSpam':
-        this.spamMessagesSubject.next(
-          this.spamMessagesSubject.value.filter(m => m.id !== messageId)
-        );
-        break;
-      case 'PendingReview':
-        this.pendingMessagesSubject.next(
-          this.pendingMessagesSubject.value.filter(m => m.id !== messageId)
-        );
-        break;
-    }
+  private prune(entities: MessageEntities): MessageEntities {
+    const all = Object.values(entities);
+    if (all.length <= this.MAX_ENTITIES) return entities;
+
+    const kept: MessageEntities = {};
+    all.sort((a, b) => this.changedAt(b) - this.changedAt(a))
+      .slice(0, this.MAX_ENTITIES)
+      .forEach(m => (kept[m.id] = m));
+    return kept;
   }
 
-  private updateMessageAnimation(messageId: number, animationClass: string): void {
-    // Update in all columns
-    [this.queuedMessagesSubject, this.inboxMessagesSubject, 
-     this.spamMessagesSubject, this.pendingMessagesSubject].forEach(subject => {
-      const messages = subject.value;
-      const index = messages.findIndex(m => m.id === messageId);
-      if (index >= 0) {
-        const updated = [...messages];
-        updated[index] = { ...updated[index], animationClass, isNew: false };
-        subject.next(updated);
-      }
-    });
+  private changedAt(message: MessageCard): number {
+    return new Date(message.statusChangedAt ?? message.createdAtUtc).getTime();
+  }
+
+  /**
+   * Keeps the scoring for the time-series. Replayed events carry their
+   * original timestamp, so they land in the bucket they happened in.
+   */
+  private recordScored(event: MessageScoredEvent): void {
+    const sample: ScoredSample = {
+      timestamp: new Date(event.timestamp).getTime(),
+      decision: event.decision as SpamDecision,
+      isCorrect: event.isCorrect ?? undefined
+    };
+
+    const cutoff = Date.now() - this.SCORED_HISTORY_MS;
+    const samples = this.scoredSamplesSubject.value.filter(s => s.timestamp >= cutoff);
+
+    // Replays can arrive out of order; keep the list sorted by time
+    let index = samples.length;
+    while (index > 0 && samples[index - 1].timestamp > sample.timestamp) {
+      index--;
+    }
+    samples.splice(index, 0, sample);
+
+    this.scoredSamplesSubject.next(samples);
   }
 
   // ════════════════════════════════════════════════════════════════════════════════
@@ -216,6 +257,12 @@ export class StateService {
 
   setActiveModel(model: ModelVersionDto | null): void {
     this.activeModelSubject.next(model);
+
+    // Only one version can be active; keep the list's flags in step
+    const models = this.allModelsSubject.value;
+    if (models.length > 0) {
+      this.allModelsSubject.next(models.map(m => ({ ...m, isActive: m.version === model?.version })));
+    }
   }
 
   setAllModels(models: ModelVersionDto[]): void {
@@ -0,0 +1,107 @@
+/**
+ * Minimal RFC 4180 CSV helpers for uploads and downloads. Quoted fields may
+ * contain the delimiter, doubled quotes and line breaks.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Picks the delimiter from the first line, outside quotes. Any tab wins since
+ * message text rarely has one (UCI-style exports are tab separated); otherwise
+ * the more frequent of ',' and ';' (spreadsheets often use ';').
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const candidates: CsvDelimiter[] = [',', ';', '\t'];
+  const counts = new Map<CsvDelimiter, number>(candidates.map(d => [d, 0]));
+
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(ch as CsvDelimiter)) {
+      counts.set(ch as CsvDelimiter, counts.get(ch as CsvDelimiter)! + 1);
+    }
+  }
+
+  if (counts.get('\t')! > 0) return '\t';
+  return counts.get(';')! > counts.get(',')! ? ';' : ',';
+}
+
+/** Parses CSV text into rows of fields; blank lines are dropped. */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // A leading BOM would otherwise end up in the first header name
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some(f => f.trim().length > 0)) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f.trim().length > 0)) rows.push(row);
+
+  return rows;
+}
+
+/** Text a spreadsheet would run as a formula (CSV injection) */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Serializes rows to CSV, quoting only the fields that need it. Strings that
+ * start like a formula get a leading apostrophe so spreadsheets show them as
+ * text; numbers are left alone so negative values stay numeric.
+ */
+export function toCsv(rows: CsvValue[][], delimiter: CsvDelimiter = ','): string {
+  const escape = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+    const s = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /["\r\n]/.test(s) || s.includes(delimiter) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+
+  return rows.map(row => row.map(escape).join(delimiter)).join('\r\n');
+}
+
+/** Saves text as a file through a temporary object URL. */
+export function downloadText(filename: string, content: string, mimeType = 'text/csv;charset=utf-8'): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
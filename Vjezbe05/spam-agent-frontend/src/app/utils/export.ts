@@ -0,0 +1,92 @@
+import { MessageDto, ModelVersionDto, ReviewDto } from '../models/api.models';
+import { CsvValue, downloadText, toCsv } from './csv';
+
+export type ExportFormat = 'csv' | 'json';
+
+/** One exported row; keys follow the column order of its table */
+export type ExportRecord = Record<string, CsvValue>;
+
+export const MESSAGE_EXPORT_COLUMNS = [
+  'id', 'text', 'source', 'status', 'trueLabel', 'createdAtUtc',
+  'pSpam', 'decision', 'modelVersion', 'scoredAtUtc'
+];
+
+export const REVIEW_EXPORT_COLUMNS = ['messageId', 'text', 'label', 'note', 'reviewedBy', 'reviewedAtUtc'];
+
+export const MODEL_EXPORT_COLUMNS = [
+  'version', 'isActive', 'trainTemplate', 'trainingConfigName', 'trigger', 'promotionDecision', 'promotionReason',
+  'trainSetSize', 'goldIncludedCount', 'validationSetSize',
+  'accuracy', 'precision', 'recall', 'f1', 'thresholdAllow', 'thresholdBlock', 'createdAtUtc'
+];
+
+/** MessageDto with lastPrediction flattened into top-level columns */
+export function flattenMessage(m: MessageDto): ExportRecord {
+  return {
+    id: m.id,
+    text: m.text,
+    source: m.source,
+    status: m.status,
+    trueLabel: m.trueLabel,
+    createdAtUtc: m.createdAtUtc,
+    pSpam: m.lastPrediction?.pSpam,
+    decision: m.lastPrediction?.decision,
+    modelVersion: m.lastPrediction?.modelVersion,
+    scoredAtUtc: m.lastPrediction?.createdAtUtc
+  };
+}
+
+export function flattenReview(r: ReviewDto): ExportRecord {
+  return {
+    messageId: r.messageId,
+    text: r.text,
+    label: r.label,
+    note: r.note,
+    reviewedBy: r.reviewedBy,
+    reviewedAtUtc: r.reviewedAtUtc
+  };
+}
+
+/** ModelVersionDto with metrics flattened; promotion checks are left out */
+export function flattenModel(m: ModelVersionDto): ExportRecord {
+  return {
+    version: m.version,
+    isActive: m.isActive,
+    trainTemplate: m.trainTemplate,
+    trainingConfigName: m.trainingConfigName,
+    trigger: m.trigger,
+    promotionDecision: m.promotionDecision,
+    promotionReason: m.promotionReason,
+    trainSetSize: m.trainSetSize,
+    goldIncludedCount: m.goldIncludedCount,
+    validationSetSize: m.validationSetSize,
+    accuracy: m.metrics.accuracy,
+    precision: m.metrics.precision,
+    recall: m.metrics.recall,
+    f1: m.metrics.f1,
+    thresholdAllow: m.thresholdAllow,
+    thresholdBlock: m.thresholdBlock,
+    createdAtUtc: m.createdAtUtc
+  };
+}
+
+/**
+ * Downloads records as `<baseName>-<yyyyMMdd-HHmm>.csv|json`. CSV always has
+ * the header row, so an empty export still documents its columns.
+ */
+export function exportRecords(baseName: string, columns: string[], records: ExportRecord[], format: ExportFormat): void {
+  const fileName = `${baseName}-${timestamp(new Date())}.${format}`;
+
+  if (format === 'json') {
+    // Missing values become null so every object has the same keys
+    const objects = records.map(r => Object.fromEntries(columns.map(c => [c, r[c] ?? null])));
+    downloadText(fileName, JSON.stringify(objects, null, 2), 'application/json');
+    return;
+  }
+
+  downloadText(fileName, toCsv([columns, ...records.map(r => columns.map(c => r[c]))]));
+}
+
+function timestamp(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
@@ -1,6 +1,8 @@
 import { bootstrapApplication } from '@angular/platform-browser';
-import { appConfig } from './app/app.config';
+import { createAppConfig } from './app/app.config';
 import { AppComponent } from './app/app.component';
+import { loadRuntimeConfig } from './app/runtime-config';
 
-bootstrapApplication(AppComponent, appConfig)
+loadRuntimeConfig()
+  .then((runtimeConfig) => bootstrapApplication(AppComponent, createAppConfig(runtimeConfig)))
   .catch((err) => console.error(err));